@@ -0,0 +1,105 @@
+import * as SDK from 'azure-devops-extension-sdk';
+import { BackendClient, createBackendClient } from '../api/backendClient';
+import { UnauthorizedError } from '../api/errors';
+import { loadProfiles } from '../common/extensionSettings';
+import { localizeDocument, setLocale, t } from '../common/i18n';
+import { initClientsSection } from './clientsSection';
+import { initJobsSection } from './jobsSection';
+import './admin.css';
+
+function el<T extends HTMLElement>(id: string): T {
+    const element = document.getElementById(id);
+    if (!element) throw new Error(`Element with id '${id}' not found`);
+    return element as T;
+}
+
+async function main(): Promise<void> {
+    await SDK.init({ loaded: false });
+    setLocale(SDK.getPageContext().globalization?.culture);
+    localizeDocument();
+
+    const backendUrlInput = el<HTMLInputElement>('admin-backend-url');
+    const backendUrls     = el<HTMLDataListElement>('admin-backend-urls');
+    const adminKeyInput   = el<HTMLInputElement>('admin-key');
+    const connectBtn      = el<HTMLButtonElement>('admin-connect-btn');
+    const forgetBtn       = el<HTMLButtonElement>('admin-forget-btn');
+    const statusMsg       = el<HTMLDivElement>('admin-status');
+    const content         = el<HTMLDivElement>('admin-content');
+
+    // Offer the backends of the saved profiles; they are stored per collection, so no project is needed
+    const profiles = await loadProfiles();
+    for (const url of new Set(profiles.map(p => p.backendUrl).filter(Boolean))) {
+        const opt = document.createElement('option');
+        opt.value = url;
+        backendUrls.appendChild(opt);
+    }
+    backendUrlInput.value = profiles[0]?.backendUrl ?? '';
+
+    function showStatus(text: string, className = ''): void {
+        statusMsg.textContent = text;
+        statusMsg.className = `input-hint ${className}`.trim();
+    }
+
+    // Like the settings hub, the admin key is only held in memory: it is gone when the page closes
+    let backend: BackendClient | null = null;
+    const currentBackend = () => backend!;
+    const jobs = initJobsSection({
+        list:         el('jobs-list'),
+        statusFilter: el('jobs-status-filter'),
+        prevBtn:      el('jobs-prev-btn'),
+        nextBtn:      el('jobs-next-btn'),
+        page:         el('jobs-page'),
+    }, currentBackend, clientId => clients.clients().find(c => c.id === clientId)?.displayName || clientId);
+    const clients = initClientsSection({
+        list:        el('clients-list'),
+        nameInput:   el('new-client-name'),
+        keyInput:    el('new-client-key'),
+        generateBtn: el('new-client-generate-btn'),
+        createBtn:   el('new-client-btn'),
+        status:      el('clients-status'),
+    }, currentBackend, () => void jobs.refresh());
+
+    async function connect(): Promise<void> {
+        const backendUrl = backendUrlInput.value.trim();
+        const adminKey = adminKeyInput.value.trim();
+        if (!backendUrl || !adminKey) {
+            showStatus(t('admin.connectionRequired'), 'status-error');
+            return;
+        }
+
+        connectBtn.disabled = true;
+        content.hidden = true;
+        showStatus(t('admin.connecting'));
+        backend = createBackendClient({ backendUrl, clientKey: '', clientId: '' }, { adminKey });
+        jobs.reset();
+
+        try {
+            // Loading the clients checks the key; the jobs follow through `onChanged`
+            await clients.refresh();
+            content.hidden = false;
+            showStatus(t('admin.connected', { url: backendUrl }), 'status-success');
+        } catch (err) {
+            showStatus(err instanceof UnauthorizedError
+                ? t('settings.adoCredentials.adminKeyRejected')
+                : t('admin.failed', { error: (err as Error).message || t('settings.unknownError') }), 'status-error');
+        } finally {
+            connectBtn.disabled = false;
+        }
+    }
+
+    connectBtn.addEventListener('click', () => void connect());
+
+    forgetBtn.addEventListener('click', () => {
+        adminKeyInput.value = '';
+        backend = null;
+        content.hidden = true;
+        showStatus(t('admin.keyForgotten'));
+    });
+
+    SDK.notifyLoadSucceeded();
+}
+
+main().catch(err => {
+    console.error('Extension initialization failed', err);
+    SDK.notifyLoadSucceeded();
+});
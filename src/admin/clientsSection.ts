@@ -0,0 +1,145 @@
+import type { BackendClient } from '../api/backendClient';
+import { createClient, deleteClient, listClients, patchClient } from '../api/clientAdminClient';
+import type { ClientResponse } from '../generated';
+import { formatDateTime, t } from '../common/i18n';
+
+export interface ClientsSectionElements {
+    list: HTMLElement;
+    nameInput: HTMLInputElement;
+    keyInput: HTMLInputElement;
+    generateBtn: HTMLButtonElement;
+    createBtn: HTMLButtonElement;
+    status: HTMLElement;
+}
+
+export interface ClientsSection {
+    refresh(): Promise<void>;
+    /** Clients as last loaded. */
+    clients(): ClientResponse[];
+}
+
+/** Random client key: 32 bytes, URL-safe base64. */
+export function generateClientKey(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Client list with rename, activate / deactivate and delete, plus the "New client" form.
+ * `backend` is read on every call, so the section survives reconnecting. `onChanged` runs after the
+ * list was reloaded, e.g. to refresh client names elsewhere.
+ */
+export function initClientsSection(
+    elements: ClientsSectionElements, backend: () => BackendClient, onChanged: () => void = () => {},
+): ClientsSection {
+    const { list, nameInput, keyInput, generateBtn, createBtn, status } = elements;
+    let clients: ClientResponse[] = [];
+
+    function showStatus(text: string, className = ''): void {
+        status.textContent = text;
+        status.className = `input-hint ${className}`.trim();
+    }
+
+    async function apply(action: () => Promise<unknown>, done: string): Promise<void> {
+        try {
+            await action();
+            showStatus(done, 'status-success');
+            await refresh();
+        } catch (err) {
+            showStatus(t('admin.failed', { error: (err as Error).message || t('settings.unknownError') }), 'status-error');
+        }
+    }
+
+    function actionButton(label: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'btn-link';
+        button.textContent = label;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+
+    function render(): void {
+        list.innerHTML = '';
+        if (clients.length === 0) {
+            const empty = document.createElement('p');
+            empty.className = 'input-hint';
+            empty.textContent = t('admin.noClients');
+            list.appendChild(empty);
+            return;
+        }
+
+        const table = document.createElement('table');
+        table.className = 'admin-table';
+        const head = table.createTHead().insertRow();
+        for (const key of ['name', 'id', 'state', 'adoCredentials', 'created'] as const) {
+            const th = document.createElement('th');
+            th.textContent = t(`admin.clients.column.${key}`);
+            head.appendChild(th);
+        }
+        head.appendChild(document.createElement('th'));
+
+        const body = table.createTBody();
+        for (const client of clients) {
+            const id = client.id!;
+            const name = client.displayName || id;
+            const row = body.insertRow();
+            row.setAttribute('data-client-id', id);
+            row.insertCell().textContent = client.displayName ?? '';
+            const idCell = row.insertCell();
+            idCell.className = 'admin-id';
+            idCell.textContent = id;
+            const state = row.insertCell();
+            state.textContent = t(client.isActive ? 'admin.clients.active' : 'admin.clients.inactive');
+            state.className = client.isActive ? 'status-success' : 'admin-inactive';
+            row.insertCell().textContent = t(client.hasAdoCredentials ? 'admin.clients.yes' : 'admin.clients.no');
+            row.insertCell().textContent = client.createdAt ? formatDateTime(client.createdAt) : '';
+
+            const actions = row.insertCell();
+            actions.className = 'admin-actions';
+            actions.appendChild(actionButton(t('admin.clients.rename'), () => {
+                const displayName = prompt(t('admin.clients.renamePrompt', { name }), client.displayName ?? '')?.trim();
+                if (!displayName || displayName === client.displayName) return;
+                void apply(() => patchClient(backend(), id, { displayName }), t('admin.clients.renamed', { name: displayName }));
+            }));
+            actions.appendChild(actionButton(t(client.isActive ? 'admin.clients.deactivate' : 'admin.clients.activate'), () => {
+                void apply(
+                    () => patchClient(backend(), id, { isActive: !client.isActive }),
+                    t(client.isActive ? 'admin.clients.deactivated' : 'admin.clients.activated', { name }),
+                );
+            }));
+            actions.appendChild(actionButton(t('admin.clients.delete'), () => {
+                if (!confirm(t('admin.clients.confirmDelete', { name }))) return;
+                void apply(() => deleteClient(backend(), id), t('admin.clients.deleted', { name }));
+            }));
+        }
+        list.appendChild(table);
+    }
+
+    async function refresh(): Promise<void> {
+        clients = await listClients(backend());
+        render();
+        onChanged();
+    }
+
+    generateBtn.addEventListener('click', () => {
+        keyInput.value = generateClientKey();
+        keyInput.select();
+    });
+
+    createBtn.addEventListener('click', async () => {
+        const displayName = nameInput.value.trim();
+        const key = keyInput.value.trim();
+        if (!displayName || !key) {
+            showStatus(t('admin.clients.required'), 'status-error');
+            return;
+        }
+        createBtn.disabled = true;
+        await apply(async () => {
+            await createClient(backend(), { displayName, key });
+            nameInput.value = keyInput.value = '';
+        }, t('admin.clients.created', { name: displayName }));
+        createBtn.disabled = false;
+    });
+
+    return { refresh, clients: () => clients };
+}
@@ -0,0 +1,115 @@
+import type { BackendClient } from '../api/backendClient';
+import { listAllJobs } from '../api/clientAdminClient';
+import type { JobListItem, JobStatus } from '../generated';
+import { formatDateTime, t } from '../common/i18n';
+
+export const JOBS_PAGE_SIZE = 50;
+
+export interface JobsSectionElements {
+    list: HTMLElement;
+    statusFilter: HTMLSelectElement;
+    prevBtn: HTMLButtonElement;
+    nextBtn: HTMLButtonElement;
+    page: HTMLElement;
+}
+
+export interface JobsSection {
+    refresh(): Promise<void>;
+    /** Back to the first page of all jobs, e.g. before showing another backend. */
+    reset(): void;
+}
+
+/** Jobs of all clients, newest first, one page at a time; the status filter is applied by the backend. */
+export function initJobsSection(
+    elements: JobsSectionElements, backend: () => BackendClient, clientName: (clientId: string) => string,
+): JobsSection {
+    const { list, statusFilter, prevBtn, nextBtn, page } = elements;
+    let offset = 0;
+
+    function render(items: JobListItem[]): void {
+        list.innerHTML = '';
+        if (items.length === 0) {
+            const empty = document.createElement('p');
+            empty.className = 'input-hint';
+            empty.textContent = t('admin.jobs.none');
+            list.appendChild(empty);
+            return;
+        }
+
+        const table = document.createElement('table');
+        table.className = 'admin-table';
+        const head = table.createTHead().insertRow();
+        for (const key of ['submitted', 'client', 'project', 'pullRequest', 'status', 'completed', 'result'] as const) {
+            const th = document.createElement('th');
+            th.textContent = t(`admin.jobs.column.${key}`);
+            head.appendChild(th);
+        }
+
+        const body = table.createTBody();
+        for (const job of items) {
+            const row = body.insertRow();
+            row.setAttribute('data-job-id', job.id ?? '');
+            row.insertCell().textContent = job.submittedAt ? formatDateTime(job.submittedAt) : '';
+            row.insertCell().textContent = job.clientId ? clientName(job.clientId) : '—';
+            row.insertCell().textContent = job.projectId ?? '';
+            row.insertCell().textContent = t('admin.jobs.pullRequest', {
+                repository: job.repositoryId ?? '', id: job.pullRequestId ?? '', iteration: job.iterationId ?? '',
+            });
+            const status = row.insertCell();
+            status.textContent = job.status ? t(`status.${job.status}`) : '';
+            status.className = `admin-job-status admin-job-status--${job.status ?? 'unknown'}`;
+            row.insertCell().textContent = job.completedAt ? formatDateTime(job.completedAt) : '';
+            const result = row.insertCell();
+            result.className = 'admin-job-result';
+            result.textContent = job.errorMessage ?? job.resultSummary ?? '';
+            result.title = result.textContent;
+        }
+        list.appendChild(table);
+    }
+
+    function showError(err: unknown): void {
+        list.innerHTML = '';
+        const error = document.createElement('p');
+        error.className = 'input-hint status-error';
+        error.textContent = t('admin.jobs.loadFailed', { error: (err as Error).message || t('settings.unknownError') });
+        list.appendChild(error);
+    }
+
+    async function refresh(): Promise<void> {
+        const status = (statusFilter.value || undefined) as JobStatus | undefined;
+        let response;
+        try {
+            response = await listAllJobs(backend(), { limit: JOBS_PAGE_SIZE, offset, status });
+        } catch (err) {
+            showError(err);
+            return;
+        }
+        const { total = 0, items } = response;
+        render(items ?? []);
+        page.textContent = total === 0 ? '' : t('admin.jobs.page', {
+            from: offset + 1, to: Math.min(offset + JOBS_PAGE_SIZE, total), total,
+        });
+        prevBtn.disabled = offset === 0;
+        nextBtn.disabled = offset + JOBS_PAGE_SIZE >= total;
+    }
+
+    statusFilter.addEventListener('change', () => {
+        offset = 0;
+        void refresh();
+    });
+    prevBtn.addEventListener('click', () => {
+        offset = Math.max(0, offset - JOBS_PAGE_SIZE);
+        void refresh();
+    });
+    nextBtn.addEventListener('click', () => {
+        offset += JOBS_PAGE_SIZE;
+        void refresh();
+    });
+
+    function reset(): void {
+        offset = 0;
+        statusFilter.value = '';
+    }
+
+    return { refresh, reset };
+}
@@ -0,0 +1,79 @@
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import type { ExtensionSettings } from '../common/extensionSettings';
+import type { AccessTokenProvider } from '../common/accessToken';
+import { toBackendError } from './errors';
+import { DEFAULT_RETRY_OPTIONS, RetryOptions, withRetry } from './retry';
+import { CircuitBreaker, createCircuitBreaker } from './circuitBreaker';
+
+/** Default per-request timeout; reviews are queued by the backend, so no call should take longer. */
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+export interface BackendClientOptions {
+    /** Per-request timeout in milliseconds; 0 disables it. */
+    timeoutMs?: number;
+    /** ADO context sent with review calls (`X-Ado-Org-Url`, `X-Ado-Token` from `tokens`). */
+    ado?: { orgUrl: string; tokens: AccessTokenProvider };
+    /** Retries of idempotent calls; `false` disables them. */
+    retry?: RetryOptions | false;
+    /** Breaker to report to; by default each client gets its own. */
+    circuitBreaker?: CircuitBreaker;
+    /** Sends `X-Admin-Key` instead of the client key, for the admin endpoints (see `clientAdminClient.ts`). */
+    adminKey?: string;
+}
+
+/**
+ * Connection to one backend with one client key. Each client has its own axios instance,
+ * so clients built from different settings never share headers. Add interceptors through
+ * `http.interceptors`; failed calls reject with a `BackendError` subclass (see `errors.ts`).
+ *
+ * Idempotent calls are retried with backoff (see `retry.ts`); `breaker` tracks whether
+ * the backend is reachable and fails calls fast while it is not.
+ */
+export interface BackendClient {
+    readonly settings: Readonly<ExtensionSettings>;
+    readonly http: AxiosInstance;
+    readonly breaker: CircuitBreaker;
+}
+
+/** Marks a call that was already repeated with a fresh ADO token. */
+interface TokenRetryConfig extends InternalAxiosRequestConfig {
+    adoTokenRefreshed?: boolean;
+}
+
+export function createBackendClient(settings: ExtensionSettings, options: BackendClientOptions = {}): BackendClient {
+    const headers: Record<string, string> = options.adminKey
+        ? { 'X-Admin-Key': options.adminKey }
+        : { 'X-Client-Key': settings.clientKey };
+    if (options.ado) headers['X-Ado-Org-Url'] = options.ado.orgUrl;
+
+    // The breaker sees each call once, after its retries
+    const breaker = options.circuitBreaker ?? createCircuitBreaker();
+    const transport = axios.getAdapter(axios.defaults.adapter);
+    const retrying = options.retry === false ? transport : withRetry(transport, options.retry ?? DEFAULT_RETRY_OPTIONS);
+
+    const http = axios.create({
+        baseURL: settings.backendUrl.replace(/\/$/, ''),
+        timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        headers,
+        adapter: breaker.wrap(retrying),
+    });
+
+    const { ado } = options;
+    if (ado) {
+        http.interceptors.request.use(async config => {
+            config.headers['X-Ado-Token'] = await ado.tokens.getToken();
+            return config;
+        });
+        // A 401 may mean the token expired early (e.g. revoked or clock skew): repeat once with a new one
+        http.interceptors.response.use(undefined, async error => {
+            const config = error?.config as TokenRetryConfig | undefined;
+            if (error?.response?.status !== 401 || !config || config.adoTokenRefreshed) throw error;
+            config.adoTokenRefreshed = true;
+            await ado.tokens.refresh();
+            return http.request(config);
+        });
+    }
+    http.interceptors.response.use(undefined, error => Promise.reject(toBackendError(error)));
+
+    return { settings: { ...settings }, http, breaker };
+}
@@ -0,0 +1,102 @@
+import type { AxiosAdapter } from 'axios';
+import { NetworkError } from './errors';
+import { t } from '../common/i18n';
+
+/**
+ * `closed`: calls go through. `open`: the backend is considered down and calls fail at once.
+ * `half-open`: the cool-down has passed; the next call is a trial that closes or reopens the circuit.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+    /** Consecutive failed calls (after retries) that open the circuit. */
+    failureThreshold: number;
+    /** Time the circuit stays open before a trial call is let through. */
+    cooldownMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+    failureThreshold: 2,
+    cooldownMs:       15_000,
+};
+
+export interface CircuitBreaker {
+    readonly state: CircuitState;
+    /** Start of the current run of failures; `null` while the backend answers. */
+    readonly unreachableSince: Date | null;
+    /** Adapter that fails fast while the circuit is open and records the outcome of every call. */
+    wrap(adapter: AxiosAdapter): AxiosAdapter;
+    /** Calls `listener` on every state change; returns the unsubscribe function. */
+    subscribe(listener: (breaker: CircuitBreaker) => void): () => void;
+}
+
+interface FailedCall {
+    response?: { status: number };
+}
+
+/** Only an unreachable or restarting backend trips the circuit; 4xx answers and plain 500s do not. */
+function isOutage(error: unknown): boolean {
+    const status = (error as FailedCall)?.response?.status;
+    return status === undefined || status === 502 || status === 503 || status === 504;
+}
+
+export function createCircuitBreaker(
+    options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+    now: () => number = () => Date.now(),
+): CircuitBreaker {
+    let state: CircuitState = 'closed';
+    let failures = 0;
+    let openedAt = 0;
+    let unreachableSince: Date | null = null;
+    const listeners = new Set<(breaker: CircuitBreaker) => void>();
+
+    function setState(next: CircuitState): void {
+        if (next === state) return;
+        state = next;
+        listeners.forEach(listener => listener(breaker));
+    }
+
+    function onSuccess(): void {
+        failures = 0;
+        unreachableSince = null;
+        setState('closed');
+    }
+
+    function onOutage(): void {
+        failures++;
+        unreachableSince ??= new Date(now());
+        if (state === 'half-open' || failures >= options.failureThreshold) {
+            openedAt = now();
+            setState('open');
+        }
+    }
+
+    const breaker: CircuitBreaker = {
+        get state() { return state; },
+        get unreachableSince() { return unreachableSince; },
+
+        wrap(adapter) {
+            return async config => {
+                if (state === 'open') {
+                    if (now() - openedAt < options.cooldownMs) throw new NetworkError(t('backend.unreachable'), 0);
+                    setState('half-open');
+                }
+                try {
+                    const response = await adapter(config);
+                    onSuccess();
+                    return response;
+                } catch (error) {
+                    // Any answer other than an outage proves the backend is up
+                    if (isOutage(error)) onOutage(); else onSuccess();
+                    throw error;
+                }
+            };
+        },
+
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+    };
+    return breaker;
+}
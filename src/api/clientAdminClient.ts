@@ -0,0 +1,65 @@
+import type {
+    ClientResponse, CreateClientRequest, JobListResponse, JobStatus, PatchClientRequest, SetAdoCredentialsRequest,
+} from '../generated';
+import type { BackendClient } from './backendClient';
+
+// Every call here needs a client created with the `adminKey` option and may address any client.
+
+function clientPath(clientId: string): string {
+    return `/clients/${encodeURIComponent(clientId)}`;
+}
+
+/** All registered clients; keys are never returned. */
+export async function listClients(client: BackendClient): Promise<ClientResponse[]> {
+    const response = await client.http.get<ClientResponse[]>('/clients');
+    return response.data;
+}
+
+/** Registers a client with the key its callers will send as `X-Client-Key`. */
+export async function createClient(client: BackendClient, request: CreateClientRequest): Promise<ClientResponse> {
+    const response = await client.http.post<ClientResponse>('/clients', request);
+    return response.data;
+}
+
+export async function getClient(client: BackendClient, clientId: string): Promise<ClientResponse> {
+    const response = await client.http.get<ClientResponse>(clientPath(clientId));
+    return response.data;
+}
+
+/** Renames, activates or deactivates a client; omitted fields are left unchanged. */
+export async function patchClient(
+    client: BackendClient, clientId: string, request: PatchClientRequest
+): Promise<ClientResponse> {
+    const response = await client.http.patch<ClientResponse>(clientPath(clientId), request);
+    return response.data;
+}
+
+/** Deletes the client and all its crawl configurations. */
+export async function deleteClient(client: BackendClient, clientId: string): Promise<void> {
+    await client.http.delete(clientPath(clientId));
+}
+
+/** Sets or replaces the service principal the backend uses for the client's ADO calls. */
+export async function setAdoCredentials(
+    client: BackendClient, clientId: string, request: SetAdoCredentialsRequest
+): Promise<void> {
+    await client.http.put(`${clientPath(clientId)}/ado-credentials`, request);
+}
+
+/** The backend falls back to its own identity for the client afterwards. */
+export async function clearAdoCredentials(client: BackendClient, clientId: string): Promise<void> {
+    await client.http.delete(`${clientPath(clientId)}/ado-credentials`);
+}
+
+export interface JobListQuery {
+    /** 1–1000; the backend defaults to 100. */
+    limit?: number;
+    offset?: number;
+    status?: JobStatus;
+}
+
+/** Jobs of all clients, newest first. */
+export async function listAllJobs(client: BackendClient, query: JobListQuery = {}): Promise<JobListResponse> {
+    const response = await client.http.get<JobListResponse>('/jobs', { params: query });
+    return response.data;
+}
@@ -1,41 +1,42 @@
-import { OpenAPI } from '../generated/core/OpenAPI';
-import { ClientsService } from '../generated/services/ClientsService';
+import type { BackendClient } from './backendClient';
+import { NotFoundError } from './errors';
 import type { CrawlConfigResponse } from '../generated/models/CrawlConfigResponse';
 import type { CreateCrawlConfigRequest } from '../generated/models/CreateCrawlConfigRequest';
+import type { PatchCrawlConfigRequest } from '../generated/models/PatchCrawlConfigRequest';
 
 export const DEFAULT_CRAWL_INTERVAL_SECONDS = 300;
 
-function setup(backendUrl: string, clientKey: string) {
-    OpenAPI.BASE = backendUrl.replace(/\/$/, '');
-    OpenAPI.HEADERS = {
-        'X-Client-Key': clientKey
-    };
+function crawlConfigsPath(client: BackendClient): string {
+    return `/clients/${encodeURIComponent(client.settings.clientId)}/crawl-configurations`;
 }
 
-export async function listCrawlConfigs(
-    backendUrl: string, clientKey: string, clientId: string
-): Promise<CrawlConfigResponse[]> {
-    setup(backendUrl, clientKey);
-    return ClientsService.getClientsCrawlConfigurations(clientId);
+export async function listCrawlConfigs(client: BackendClient): Promise<CrawlConfigResponse[]> {
+    const response = await client.http.get<CrawlConfigResponse[]>(crawlConfigsPath(client));
+    return response.data;
 }
 
 export async function createCrawlConfig(
-    backendUrl: string, clientKey: string, clientId: string,
-    request: CreateCrawlConfigRequest
+    client: BackendClient, request: CreateCrawlConfigRequest
 ): Promise<CrawlConfigResponse> {
-    setup(backendUrl, clientKey);
-    return ClientsService.postClientsCrawlConfigurations(clientId, request);
+    const response = await client.http.post<CrawlConfigResponse>(crawlConfigsPath(client), request);
+    return response.data;
 }
 
-export async function deleteCrawlConfig(
-    backendUrl: string, clientKey: string, clientId: string, configId: string
-): Promise<void> {
-    setup(backendUrl, clientKey);
+/** Pauses or resumes a configuration; a paused one keeps its settings but is not crawled. */
+export async function patchCrawlConfig(
+    client: BackendClient, configId: string, request: PatchCrawlConfigRequest
+): Promise<CrawlConfigResponse> {
+    const response = await client.http.patch<CrawlConfigResponse>(
+        `${crawlConfigsPath(client)}/${encodeURIComponent(configId)}`, request,
+    );
+    return response.data;
+}
+
+export async function deleteCrawlConfig(client: BackendClient, configId: string): Promise<void> {
     try {
-        await ClientsService.deleteClientsCrawlConfigurations(clientId, configId);
-    } catch (error: any) {
-        if (error.status === 404) return; // Idempotent
+        await client.http.delete(`${crawlConfigsPath(client)}/${encodeURIComponent(configId)}`);
+    } catch (error) {
+        if (error instanceof NotFoundError) return; // Idempotent
         throw error;
     }
 }
-
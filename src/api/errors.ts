@@ -0,0 +1,75 @@
+import type { ProblemDetails } from '../generated';
+import { t } from '../common/i18n';
+
+/** Failed backend call; `problem` is the RFC 7807 body when the backend sent one. */
+export class BackendError extends Error {
+    readonly status: number;
+    readonly problem: ProblemDetails | null;
+
+    constructor(message: string, status: number, problem: ProblemDetails | null = null) {
+        super(message);
+        this.name = new.target.name;
+        this.status = status;
+        this.problem = problem;
+    }
+}
+
+/** 401 / 403: missing, invalid or foreign client key. */
+export class UnauthorizedError extends BackendError {}
+
+/** 404: the client, job or configuration does not exist. */
+export class NotFoundError extends BackendError {}
+
+/** 400 / 422: the request was rejected; `fieldErrors` holds ASP.NET-style per-field messages. */
+export class ValidationError extends BackendError {
+    readonly fieldErrors: Record<string, string[]>;
+
+    constructor(message: string, status: number, problem: ProblemDetails | null = null) {
+        super(message, status, problem);
+        this.fieldErrors = problem?.errors ?? {};
+    }
+}
+
+/** 5xx: the backend failed to handle the request. */
+export class ServerError extends BackendError {}
+
+/** No response: backend unreachable, blocked by CORS, or timed out. `status` is 0. */
+export class NetworkError extends BackendError {}
+
+/** No response within the request timeout; the connection itself may have worked. */
+export class TimeoutError extends NetworkError {}
+
+interface AxiosLikeError {
+    code?: string;
+    message?: string;
+    config?: { timeout?: number };
+    response?: { status: number; data?: unknown };
+}
+
+function isProblemDetails(data: unknown): data is ProblemDetails {
+    return typeof data === 'object' && data !== null && ('title' in data || 'detail' in data);
+}
+
+/** Maps an axios error to the matching `BackendError` subclass; anything else is returned unchanged. */
+export function toBackendError(error: unknown): unknown {
+    if (error instanceof BackendError) return error;
+    const axiosError = error as AxiosLikeError;
+    if (typeof error !== 'object' || error === null || !('config' in error || 'response' in error)) return error;
+
+    const response = axiosError.response;
+    if (!response) {
+        if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+            return new TimeoutError(t('backend.timeout', { seconds: Math.round((axiosError.config?.timeout ?? 0) / 1000) }), 0);
+        }
+        return new NetworkError(t('backend.unreachable'), 0);
+    }
+
+    const problem = isProblemDetails(response.data) ? response.data : null;
+    const message = problem?.detail || problem?.title || t('backend.status', { status: response.status });
+    const { status } = response;
+    if (status === 401 || status === 403) return new UnauthorizedError(message, status, problem);
+    if (status === 404)                   return new NotFoundError(message, status, problem);
+    if (status === 400 || status === 422) return new ValidationError(message, status, problem);
+    if (status >= 500)                    return new ServerError(message, status, problem);
+    return new BackendError(message, status, problem);
+}
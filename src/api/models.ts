@@ -4,6 +4,8 @@ export interface ReviewRequest {
     repositoryId: string;
     pullRequestId: number;
     iterationId: number;
+    /** Incremental review: only the changes between this iteration and `iterationId` are reviewed. */
+    baseIterationId?: number;
 }
 
 export interface ReviewJob {
@@ -20,6 +22,7 @@ export interface ReviewListItem {
     repositoryId: string;
     pullRequestId: number;
     iterationId: number;
+    baseIterationId?: number | null;
     submittedAt: string;
     completedAt: string | null;
 }
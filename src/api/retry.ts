@@ -0,0 +1,84 @@
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+
+export interface RetryOptions {
+    /** Retries after the first attempt. */
+    retries: number;
+    /** Backoff cap before jitter for the first retry; doubles with each further retry. */
+    baseDelayMs: number;
+    maxDelayMs: number;
+    /** A longer `Retry-After` is not waited for; the call fails instead. */
+    maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    retries:         3,
+    baseDelayMs:     500,
+    maxDelayMs:      8_000,
+    maxRetryAfterMs: 60_000,
+};
+
+/** Repeating these has no further effect, so they are safe to retry. POST and PATCH are not. */
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+/** Statuses of an overloaded or restarting backend (or its gateway). */
+const RETRY_STATUSES = [429, 502, 503, 504];
+
+interface FailedCall {
+    response?: { status: number; headers?: Record<string, unknown> };
+}
+
+/** "Full jitter" backoff: a random delay up to `baseDelayMs * 2^attempt`, capped at `maxDelayMs`. */
+export function backoffDelay(attempt: number, options: RetryOptions, random: () => number = Math.random): number {
+    return Math.round(random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt));
+}
+
+/** Milliseconds to wait according to a `Retry-After` header (delta seconds or HTTP date); `null` when absent or invalid. */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+    if (typeof value !== 'string' || !value.trim()) return null;
+    if (/^\d+$/.test(value.trim())) return Number(value) * 1000;
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Delay before the next attempt, or `null` when `error` should not be retried. */
+export function retryDelay(
+    config: InternalAxiosRequestConfig, error: unknown, attempt: number, options: RetryOptions,
+): number | null {
+    if (attempt >= options.retries) return null;
+    if (!IDEMPOTENT_METHODS.includes((config.method ?? 'get').toLowerCase())) return null;
+
+    const response = (error as FailedCall)?.response;
+    if (!response) return backoffDelay(attempt, options); // network error or timeout
+    if (!RETRY_STATUSES.includes(response.status)) return null;
+
+    if (response.status === 429 || response.status === 503) {
+        const retryAfter = parseRetryAfter(response.headers?.['retry-after']);
+        if (retryAfter !== null) return retryAfter <= options.maxRetryAfterMs ? retryAfter : null;
+    }
+    return backoffDelay(attempt, options);
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Wraps an axios adapter so that idempotent calls are retried on network errors and
+ * 429 / 502 / 503 / 504, with jittered exponential backoff or the server's `Retry-After`.
+ * Interceptors only see the outcome of the last attempt.
+ */
+export function withRetry(
+    adapter: AxiosAdapter, options: RetryOptions = DEFAULT_RETRY_OPTIONS, wait: (ms: number) => Promise<void> = sleep,
+): AxiosAdapter {
+    return async config => {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await adapter(config);
+            } catch (error) {
+                const delay = retryDelay(config, error, attempt, options);
+                if (delay === null) throw error;
+                await wait(delay);
+            }
+        }
+    };
+}
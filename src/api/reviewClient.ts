@@ -1,48 +1,80 @@
-import axios from 'axios';
+import type { BackendClient } from './backendClient';
 import type { ReviewJob, ReviewListItem, ReviewRequest, ReviewStatusResponse } from './models';
 
-export async function submitReview(
-    backendUrl: string,
-    clientKey: string,
-    adoToken: string,
-    orgUrl: string,
-    request: ReviewRequest,
-): Promise<ReviewJob> {
-    const base = backendUrl.replace(/\/$/, '');
-    const response = await axios.post<ReviewJob>(`${base}/reviews`, request, {
-        headers: {
-            'X-Client-Key':   clientKey,
-            'X-Ado-Token':    adoToken,
-            'X-Ado-Org-Url':  orgUrl,
-            'Content-Type':   'application/json',
-        },
+// Review calls need a client created with the `ado` option (ADO token and organization URL).
+
+export async function submitReview(client: BackendClient, request: ReviewRequest): Promise<ReviewJob> {
+    const response = await client.http.post<ReviewJob>('/reviews', request, {
+        headers: { 'Content-Type': 'application/json' },
     });
     return response.data;
 }
 
-export async function getReviewStatus(
-    backendUrl: string,
-    clientKey: string,
-    adoToken: string,
-    orgUrl: string,
-    jobId: string,
-): Promise<ReviewStatusResponse> {
-    const base = backendUrl.replace(/\/$/, '');
-    const response = await axios.get<ReviewStatusResponse>(`${base}/reviews/${jobId}`, {
-        headers: { 'X-Client-Key': clientKey, 'X-Ado-Token': adoToken, 'X-Ado-Org-Url': orgUrl },
-    });
+export async function getReviewStatus(client: BackendClient, jobId: string): Promise<ReviewStatusResponse> {
+    const response = await client.http.get<ReviewStatusResponse>(`/reviews/${jobId}`);
     return response.data;
 }
 
+/**
+ * Cancels a pending or processing job. The job ends as `failed` with a cancellation message;
+ * the backend answers 409 when the job has already finished.
+ */
+export async function cancelReview(client: BackendClient, jobId: string): Promise<ReviewStatusResponse> {
+    const response = await client.http.post<ReviewStatusResponse>(`/reviews/${jobId}/cancel`, null);
+    return response.data;
+}
+
+/** Submits a new job for the same PR and iteration range as `job`. */
+export async function resubmitReview(client: BackendClient, job: ReviewListItem): Promise<ReviewJob> {
+    const request: ReviewRequest = {
+        organizationUrl: job.organizationUrl,
+        projectId:       job.projectId,
+        repositoryId:    job.repositoryId,
+        pullRequestId:   job.pullRequestId,
+        iterationId:     job.iterationId,
+        ...(job.baseIterationId != null ? { baseIterationId: job.baseIterationId } : {}),
+    };
+    return submitReview(client, request);
+}
+
+/**
+ * Last list response and its `ETag`. Passing the same object to every `listReviews` call
+ * for the same page turns them into conditional requests; an unchanged list (304) is served from here.
+ */
+export interface ReviewListCache {
+    etag?: string;
+    items?: ReviewListItem[];
+}
+
+/** Newest-first window of the job list (`limit` / `offset` on `GET /reviews`). */
+export interface ReviewListPage {
+    limit: number;
+    offset: number;
+}
+
 export async function listReviews(
-    backendUrl: string,
-    clientKey: string,
-    adoToken: string,
-    orgUrl: string,
+    client: BackendClient,
+    cache?: ReviewListCache,
+    page?: ReviewListPage,
 ): Promise<ReviewListItem[]> {
-    const base = backendUrl.replace(/\/$/, '');
-    const response = await axios.get<ReviewListItem[]>(`${base}/reviews`, {
-        headers: { 'X-Client-Key': clientKey, 'X-Ado-Token': adoToken, 'X-Ado-Org-Url': orgUrl },
+    const headers: Record<string, string> = {};
+    if (cache?.etag && cache.items) headers['If-None-Match'] = cache.etag;
+
+    const response = await client.http.get<ReviewListItem[]>('/reviews', {
+        headers,
+        params: page ? { limit: page.limit, offset: page.offset } : undefined,
+        validateStatus: status => (status >= 200 && status < 300) || status === 304,
     });
-    return response.data;
+    if (response.status === 304 && cache?.items) return cache.items;
+
+    // A backend without paging ignores the parameters and returns every job; cut the page out of it
+    const items = page && response.data.length > page.limit
+        ? response.data.slice(page.offset, page.offset + page.limit)
+        : response.data;
+    if (cache) {
+        // Backends without ETag support simply leave the cache empty
+        cache.etag  = response.headers?.['etag'] ?? undefined;
+        cache.items = items;
+    }
+    return items;
 }
@@ -1,30 +1,32 @@
-import { ClientResponse, ClientsService, IdentitiesService, OpenAPI } from '../generated';
+import type { ClientProfileResponse, IdentityResponse, SetReviewerIdentityRequest } from '../generated';
+import type { BackendClient } from './backendClient';
+import { NotFoundError } from './errors';
 
-function setup(backendUrl: string, clientKey: string) {
-    OpenAPI.BASE = backendUrl.replace(/\/$/, '');
-    OpenAPI.HEADERS = {
-        'X-Client-Key': clientKey
-    };
+function clientPath(client: BackendClient): string {
+    return `/clients/${encodeURIComponent(client.settings.clientId)}`;
 }
 
-export async function getClientProfile(
-    backendUrl: string, clientKey: string, clientId: string
-): Promise<ClientResponse> {
-    setup(backendUrl, clientKey);
-    return ClientsService.getClients1(clientId);
+/** Profile of the client the key belongs to (`GET /clients/{id}` would need the admin key). */
+export async function getClientProfile(client: BackendClient): Promise<ClientProfileResponse> {
+    const response = await client.http.get<ClientProfileResponse>(`${clientPath(client)}/profile`);
+    return response.data;
 }
 
-export async function setReviewerIdentity(
-    backendUrl: string, clientKey: string, clientId: string, reviewerId: string
-): Promise<void> {
-    setup(backendUrl, clientKey);
-    await ClientsService.putClientsReviewerIdentity(clientId, { reviewerId });
+export async function setReviewerIdentity(client: BackendClient, reviewerId: string): Promise<void> {
+    const request: SetReviewerIdentityRequest = { reviewerId };
+    await client.http.put(`${clientPath(client)}/reviewer-identity`, request);
 }
 
 export async function resolveIdentity(
-    backendUrl: string, clientKey: string, orgUrl: string, displayName: string
+    client: BackendClient, orgUrl: string, displayName: string
 ): Promise<string | null> {
-    setup(backendUrl, clientKey);
-    const results = await IdentitiesService.getIdentitiesResolve(orgUrl, displayName);
-    return results[0]?.id ?? null;
+    try {
+        const response = await client.http.get<IdentityResponse[]>('/identities/resolve', {
+            params: { orgUrl, displayName },
+        });
+        return response.data[0]?.id ?? null;
+    } catch (error) {
+        if (error instanceof NotFoundError) return null;
+        throw error;
+    }
 }
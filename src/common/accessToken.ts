@@ -0,0 +1,58 @@
+import * as SDK from 'azure-devops-extension-sdk';
+
+/** Source of the ADO access token forwarded to the backend as `X-Ado-Token`. */
+export interface AccessTokenProvider {
+    /** A token that is valid for at least `REFRESH_MARGIN_MS`; fetches a new one when needed. */
+    getToken(): Promise<string>;
+    /** Fetches a new token regardless of the cached one (e.g. after a 401). */
+    refresh(): Promise<string>;
+}
+
+/** Tokens are renewed this long before they expire, so a call never starts with a token about to lapse. */
+export const REFRESH_MARGIN_MS = 5 * 60_000;
+/** Lifetime assumed for tokens whose expiry cannot be read. */
+export const FALLBACK_LIFETIME_MS = 15 * 60_000;
+
+/** `exp` claim of a JWT in milliseconds; `null` for anything that is not a readable JWT. */
+export function tokenExpiry(token: string): number | null {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    try {
+        const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+        const exp = JSON.parse(json).exp;
+        return typeof exp === 'number' ? exp * 1000 : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Caches the SDK's access token and renews it before it expires. Panels stay open for
+ * hours, longer than a token lives; concurrent renewals share one request.
+ */
+export function createAccessTokenProvider(
+    fetchToken: () => Promise<string> = () => SDK.getAccessToken(),
+    now: () => number = () => Date.now(),
+): AccessTokenProvider {
+    let token: string | null = null;
+    let expiresAt = 0;
+    let pending: Promise<string> | null = null;
+
+    function refresh(): Promise<string> {
+        pending ??= fetchToken()
+            .then(fresh => {
+                token = fresh;
+                expiresAt = tokenExpiry(fresh) ?? now() + FALLBACK_LIFETIME_MS;
+                return fresh;
+            })
+            .finally(() => { pending = null; });
+        return pending;
+    }
+
+    async function getToken(): Promise<string> {
+        if (token && now() < expiresAt - REFRESH_MARGIN_MS) return token;
+        return refresh();
+    }
+
+    return { getToken, refresh };
+}
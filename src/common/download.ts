@@ -0,0 +1,12 @@
+/** Offers `content` to the user as a downloaded file. */
+export function downloadFile(file: { fileName: string; mimeType: string; content: string }): void {
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Firefox and older Safari cancel the download when the URL is revoked before it has started
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
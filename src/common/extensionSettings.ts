@@ -1,5 +1,6 @@
 import * as SDK from 'azure-devops-extension-sdk';
 import { CommonServiceIds, IExtensionDataService } from 'azure-devops-extension-api';
+import { emptyLayers, resolveSetting, withoutSetting, SettingLayer, SettingLayers, SettingScope } from './settingsLayers';
 
 export interface ExtensionSettings {
     backendUrl: string;
@@ -7,11 +8,26 @@ export interface ExtensionSettings {
     clientId: string;
 }
 
+/** Named backend connection (e.g. prod, staging, local); each project uses one of them. */
+export interface BackendProfile extends ExtensionSettings {
+    name: string;
+}
+
+/** Name of the profile made from the single connection stored before profiles existed. */
+export const DEFAULT_PROFILE_NAME = 'default';
+
 const KEYS = {
-    backendUrl:          'backendUrl',
-    clientKey:           'clientKey',
-    clientId:            'clientId',
+    profiles:            'backendProfiles',
+    collectionLayer:     'settings.collection',
+    projectLayerPrefix:  'settings.project.',
+    // IDs of the projects that have a project layer; the data service cannot list values by prefix
+    projectIndex:        'settings.projects',
+    userLayer:           'settings.user',
     reviewerDisplayName: 'reviewerDisplayName',
+    // Single connection of older versions; read once to seed the default profile
+    legacyBackendUrl:    'backendUrl',
+    legacyClientKey:     'clientKey',
+    legacyClientId:      'clientId',
 } as const;
 
 async function getDataManager() {
@@ -19,32 +35,121 @@ async function getDataManager() {
     return dataService.getExtensionDataManager(SDK.getExtensionContext().id, await SDK.getAccessToken());
 }
 
-export async function loadSettings(): Promise<Partial<ExtensionSettings>> {
+/** All stored profiles; before the first save, the legacy connection (if any) as the default profile. */
+export async function loadProfiles(): Promise<BackendProfile[]> {
     const dm = await getDataManager();
+    const profiles = await dm.getValue<BackendProfile[] | null>(KEYS.profiles, { scopeType: 'Default', defaultValue: null });
+    if (profiles) return profiles;
+
     const [backendUrl, clientKey, clientId] = await Promise.all([
-        dm.getValue<string>(KEYS.backendUrl, { scopeType: 'Default', defaultValue: '' }),
-        dm.getValue<string>(KEYS.clientKey,  { scopeType: 'Default', defaultValue: '' }),
-        dm.getValue<string>(KEYS.clientId,   { scopeType: 'Default', defaultValue: '' }),
+        dm.getValue<string>(KEYS.legacyBackendUrl, { scopeType: 'Default', defaultValue: '' }),
+        dm.getValue<string>(KEYS.legacyClientKey,  { scopeType: 'Default', defaultValue: '' }),
+        dm.getValue<string>(KEYS.legacyClientId,   { scopeType: 'Default', defaultValue: '' }),
     ]);
-    return { backendUrl, clientKey, clientId };
+    return backendUrl || clientKey ? [{ name: DEFAULT_PROFILE_NAME, backendUrl, clientKey, clientId }] : [];
 }
 
-export async function loadReviewerDisplayName(): Promise<string> {
+export async function saveProfiles(profiles: BackendProfile[]): Promise<void> {
     const dm = await getDataManager();
-    return dm.getValue<string>(KEYS.reviewerDisplayName, { scopeType: 'Default', defaultValue: '' });
+    await dm.setValue(KEYS.profiles, profiles, { scopeType: 'Default' });
 }
 
-export async function saveReviewerDisplayName(name: string): Promise<void> {
+/** Data service key and scope type of one settings layer; the user layer follows the user across projects. */
+function layerLocation(scope: SettingScope, projectId: string): { key: string; scopeType: string } {
+    if (scope === 'user')    return { key: KEYS.userLayer, scopeType: 'User' };
+    if (scope === 'project') return { key: KEYS.projectLayerPrefix + projectId, scopeType: 'Default' };
+    return { key: KEYS.collectionLayer, scopeType: 'Default' };
+}
+
+export async function loadSettingLayers(projectId: string): Promise<SettingLayers> {
     const dm = await getDataManager();
-    await dm.setValue(KEYS.reviewerDisplayName, name, { scopeType: 'Default' });
+    const layers = emptyLayers();
+    await Promise.all((Object.keys(layers) as SettingScope[]).map(async scope => {
+        const { key, scopeType } = layerLocation(scope, projectId);
+        layers[scope] = await dm.getValue<SettingLayer | null>(key, { scopeType, defaultValue: null }) ?? {};
+    }));
+    return layers;
 }
 
-export async function saveSettings(settings: ExtensionSettings): Promise<void> {
+/** Replaces the values `scope` sets; keys missing from `layer` are inherited from the scopes below. */
+export async function saveSettingLayer(scope: SettingScope, projectId: string, layer: SettingLayer): Promise<void> {
     const dm = await getDataManager();
-    await Promise.all([
-        dm.setValue(KEYS.backendUrl, settings.backendUrl, { scopeType: 'Default' }),
-        dm.setValue(KEYS.clientKey,  settings.clientKey,  { scopeType: 'Default' }),
-        dm.setValue(KEYS.clientId,   settings.clientId,   { scopeType: 'Default' }),
-    ]);
+    const { key, scopeType } = layerLocation(scope, projectId);
+    await dm.setValue(key, layer, { scopeType });
+    if (scope !== 'project') return;
+    const projects = await dm.getValue<string[]>(KEYS.projectIndex, { scopeType: 'Default', defaultValue: [] });
+    if (!projects.includes(projectId)) {
+        await dm.setValue(KEYS.projectIndex, [...projects, projectId], { scopeType: 'Default' });
+    }
+}
+
+/**
+ * Sets `profile` to `newName` (`null`: removes it) in the collection layer
+ * and every indexed project layer selecting `oldName`.
+ */
+async function replaceProfileReferences(oldName: string, newName: string | null): Promise<string[]> {
+    const dm = await getDataManager();
+    const replace = (layer: SettingLayer) => newName === null ? withoutSetting(layer, 'profile') : { ...layer, profile: newName };
+    const collection = await dm.getValue<SettingLayer | null>(KEYS.collectionLayer, { scopeType: 'Default', defaultValue: null });
+    if (collection?.profile === oldName) {
+        await dm.setValue(KEYS.collectionLayer, replace(collection), { scopeType: 'Default' });
+    }
+
+    const projects = await dm.getValue<string[]>(KEYS.projectIndex, { scopeType: 'Default', defaultValue: [] });
+    const changed: string[] = [];
+    await Promise.all(projects.map(async projectId => {
+        const key = KEYS.projectLayerPrefix + projectId;
+        const layer = await dm.getValue<SettingLayer | null>(key, { scopeType: 'Default', defaultValue: null });
+        if (layer?.profile !== oldName) return;
+        await dm.setValue(key, replace(layer), { scopeType: 'Default' });
+        changed.push(projectId);
+    }));
+    return changed;
+}
+
+/**
+ * Points the collection default and every project that selects profile `oldName` to `newName`, so a
+ * rename does not leave other projects falling back to another profile. Returns the changed project IDs.
+ */
+export function renameProfileReferences(oldName: string, newName: string): Promise<string[]> {
+    return replaceProfileReferences(oldName, newName);
+}
+
+/**
+ * Removes the selection of deleted profile `name` from the collection default and every project, so they
+ * inherit again instead of silently using another profile. Returns the changed project IDs.
+ */
+export function clearProfileReferences(name: string): Promise<string[]> {
+    return replaceProfileReferences(name, null);
+}
+
+/** Makes `name` the profile of the project (a project override of the collection's default profile). */
+export async function saveActiveProfileName(projectId: string, name: string): Promise<void> {
+    const layers = await loadSettingLayers(projectId);
+    await saveSettingLayer('project', projectId, { ...layers.project, profile: name });
+}
+
+/**
+ * The profile the project uses, with the project's client override applied. The override replaces
+ * client ID and key only together, as a key belongs to one client. Falls back to the first profile
+ * when none (or a since deleted one) is selected; `null` without profiles.
+ */
+export async function loadActiveProfile(projectId: string): Promise<BackendProfile | null> {
+    const [profiles, layers] = await Promise.all([loadProfiles(), loadSettingLayers(projectId)]);
+    const name = resolveSetting(layers, 'profile').value;
+    const profile = profiles.find(p => p.name === name) ?? profiles[0];
+    if (!profile) return null;
+    const clientId  = resolveSetting(layers, 'clientId').value;
+    const clientKey = resolveSetting(layers, 'clientKey').value;
+    return clientId && clientKey ? { ...profile, clientId, clientKey } : profile;
+}
+
+export async function loadReviewerDisplayName(): Promise<string> {
+    const dm = await getDataManager();
+    return dm.getValue<string>(KEYS.reviewerDisplayName, { scopeType: 'Default', defaultValue: '' });
 }
 
+export async function saveReviewerDisplayName(name: string): Promise<void> {
+    const dm = await getDataManager();
+    await dm.setValue(KEYS.reviewerDisplayName, name, { scopeType: 'Default' });
+}
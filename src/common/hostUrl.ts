@@ -0,0 +1,32 @@
+import * as SDK from 'azure-devops-extension-sdk';
+import { CommonServiceIds, ILocationService } from 'azure-devops-extension-api';
+
+/**
+ * Collection URL with a lower-case scheme and host and exactly one trailing slash.
+ * Every URL sent to the backend or compared with one goes through here.
+ */
+export function normalizeOrgUrl(url: string): string {
+    const trimmed = url.trim();
+    try {
+        const parsed = new URL(trimmed);
+        return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}/`;
+    } catch {
+        return `${trimmed.replace(/\/+$/, '')}/`;
+    }
+}
+
+/** Whether two collection URLs name the same collection; ADO URLs are case-insensitive. */
+export function sameOrgUrl(a: string | null | undefined, b: string | null | undefined): boolean {
+    if (!a || !b) return false;
+    return normalizeOrgUrl(a).toLowerCase() === normalizeOrgUrl(b).toLowerCase();
+}
+
+/**
+ * URL of the current organization or collection as the host reports it:
+ * `https://dev.azure.com/org/`, `https://org.visualstudio.com/` or, on Azure DevOps Server,
+ * `https://server/tfs/DefaultCollection/`. The host name alone cannot tell these apart.
+ */
+export async function resolveOrgUrl(): Promise<string> {
+    const locationService = await SDK.getService<ILocationService>(CommonServiceIds.LocationService);
+    return normalizeOrgUrl(await locationService.getServiceLocation());
+}
@@ -0,0 +1,80 @@
+import { en, MessageKey, Messages } from './messages/en';
+import { de } from './messages/de';
+
+export type { MessageKey } from './messages/en';
+
+/** Bundles by language; the user's culture (`de-AT`) falls back to its language (`de`), then English. */
+const BUNDLES: Record<string, Messages> = { en, de };
+
+let culture = 'en';
+let messages: Messages = en;
+
+/** Selects the bundle for an ADO culture such as `de-DE`; unknown cultures use English. */
+export function setLocale(locale: string | null | undefined): void {
+    culture = locale || 'en';
+    const language = culture.toLowerCase().split('-')[0];
+    messages = BUNDLES[language] ?? en;
+}
+
+export function getLocale(): string {
+    return culture;
+}
+
+function interpolate(template: string, params: Record<string, string | number>): string {
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        name in params ? String(params[name]) : match);
+}
+
+/** Looks up `key` in the active bundle (English when missing) and fills `{name}` placeholders. */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+    return interpolate(messages[key] ?? en[key] ?? key, params);
+}
+
+/** Plural-aware `t()`: picks `${base}_one` or `${base}_other` for `count`, which is also passed as `{count}`. */
+export function tn(base: string, count: number, params: Record<string, string | number> = {}): string {
+    const form = new Intl.PluralRules(culture).select(count) === 'one' ? 'one' : 'other';
+    return t(`${base}_${form}` as MessageKey, { count, ...params });
+}
+
+/** Date and time in the user's locale, e.g. "Mar 23, 2026, 10:01 AM" or "23.03.2026, 10:01". */
+export function formatDateTime(iso: string): string {
+    return new Intl.DateTimeFormat(culture, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(iso));
+}
+
+/** Time of day in the user's locale, e.g. "2:05 PM" or "14:05". */
+export function formatClock(date: Date): string {
+    return new Intl.DateTimeFormat(culture, { timeStyle: 'short' }).format(date);
+}
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+    ['day',    86_400_000],
+    ['hour',   3_600_000],
+    ['minute', 60_000],
+];
+
+/** Relative form of `iso`, e.g. "3 hr. ago" / "vor 3 Std."; under a minute is "just now". */
+export function formatRelativeTime(iso: string, now: Date = new Date()): string {
+    const diff = new Date(iso).getTime() - now.getTime();
+    const format = new Intl.RelativeTimeFormat(culture, { numeric: 'auto', style: 'short' });
+    for (const [unit, ms] of RELATIVE_UNITS) {
+        if (Math.abs(diff) >= ms) return format.format(Math.round(diff / ms), unit);
+    }
+    return t('time.justNow');
+}
+
+/**
+ * Translates the static markup: `data-i18n` sets the text content, `data-i18n-placeholder`
+ * and `data-i18n-title` set those attributes. The values are message keys.
+ */
+export function localizeDocument(root: ParentNode = document): void {
+    for (const element of Array.from(root.querySelectorAll<HTMLElement>('[data-i18n]'))) {
+        element.textContent = t(element.getAttribute('data-i18n') as MessageKey);
+    }
+    for (const element of Array.from(root.querySelectorAll<HTMLElement>('[data-i18n-placeholder]'))) {
+        element.setAttribute('placeholder', t(element.getAttribute('data-i18n-placeholder') as MessageKey));
+    }
+    for (const element of Array.from(root.querySelectorAll<HTMLElement>('[data-i18n-title]'))) {
+        element.setAttribute('title', t(element.getAttribute('data-i18n-title') as MessageKey));
+    }
+    if (root === document) document.documentElement.lang = culture;
+}
@@ -0,0 +1,375 @@
+import type { Messages } from './en';
+
+/** German message catalog. */
+export const de: Messages = {
+    // Shared
+    'severity.error':      'Fehler',
+    'severity.warning':    'Warnung',
+    'severity.suggestion': 'Vorschlag',
+    'severity.info':       'Info',
+    'severity.tally.error_one':        '{count} Fehler',
+    'severity.tally.error_other':      '{count} Fehler',
+    'severity.tally.warning_one':      '{count} Warnung',
+    'severity.tally.warning_other':    '{count} Warnungen',
+    'severity.tally.suggestion_one':   '{count} Vorschlag',
+    'severity.tally.suggestion_other': '{count} Vorschläge',
+    'severity.tally.info_one':         '{count} Info',
+    'severity.tally.info_other':       '{count} Infos',
+    'status.pending':      'wartend',
+    'status.processing':   'in Bearbeitung',
+    'status.completed':    'abgeschlossen',
+    'status.failed':       'fehlgeschlagen',
+    'common.generalComment': '(allgemein)',
+    'common.noLineNumber': '—',
+    'common.prTitle':      '#{id} — {title}',
+    'common.iteration':    'Iteration {range}',
+    'time.justNow':        'gerade eben',
+    'backend.unreachable': 'Das Backend ist nicht erreichbar.',
+    'backend.timeout':     'Das Backend hat nicht innerhalb von {seconds} s geantwortet.',
+    'backend.status':      'Das Backend hat mit Status {status} geantwortet.',
+
+    // Review hub (static page)
+    'review.title':               'Meister ProPR — KI-Code-Review',
+    'review.configWarning':       'Bitte konfigurieren Sie die Erweiterung vor der Verwendung unter Projekteinstellungen → Meister ProPR.',
+    'review.repository':          'Repository',
+    'review.selectRepository':    '— Repository auswählen —',
+    'review.pullRequest':         'Pull Request',
+    'review.iteration':           'Iteration',
+    'review.scope':               'Review-Umfang',
+    'review.submitButton':        'Mit KI reviewen',
+    'review.submitting':          'Review wird übermittelt…',
+    'review.summaryHeading':      'Review-Zusammenfassung',
+    'review.export':              'Exportieren',
+    'review.commentsHeading':     'Kommentare',
+    'review.groupByFile':         'Nach Datei gruppieren',
+    'review.column.file':         'Datei',
+    'review.column.line':         'Zeile',
+    'review.column.severity':     'Schweregrad',
+    'review.column.comment':      'Kommentar',
+    'review.column.status':       'Status',
+    'review.compareHeading':      'Reviews vergleichen',
+    'review.compareChangesIn':    'Änderungen in',
+    'review.compareSince':        'seit',
+    'review.recentReviews':       'Letzte Reviews',
+    'review.historyHeading':      'Review-Verlauf',
+    'review.filterPlaceholder':   'Filter: PR-Nummer oder Text, status:failed repo:api since:7d…',
+    'review.filterHelp':          'beliebig mit PR-Nummern oder Text kombinierbar',
+    'review.loadOlder':           'Ältere Reviews laden',
+    'review.bulkClear':           'Auswahl aufheben',
+    'review.backendProfile':      'Backend-Profil',
+    'review.switchProfileFailed': 'Das Backend-Profil konnte nicht gewechselt werden: {error}',
+
+    // Review hub (picker)
+    'picker.searchPlaceholder':   'Tippen, um Pull Requests zu suchen…',
+    'picker.selectRepoFirst':     'Zuerst ein Repository auswählen',
+    'picker.loading':             'Pull Requests werden geladen…',
+    'picker.noMatches':           'Keine passenden Pull Requests',
+    'picker.loadFailed':          'Pull Requests konnten nicht geladen werden: {error}',
+    'picker.untitled':            'PR #{id}',
+    'picker.selectAll':           'Alle aktiven PRs auswählen ({count})',
+    'picker.selectRepository':    'Bitte wählen Sie ein Repository aus.',
+    'picker.selectPullRequest':   'Bitte wählen Sie einen Pull Request aus der Liste aus.',
+    'picker.selected_one':        '{count} Pull Request ausgewählt',
+    'picker.selected_other':      '{count} Pull Requests ausgewählt',
+    'picker.reviewSelected_one':  '{count} Pull Request reviewen',
+    'picker.reviewSelected_other': '{count} Pull Requests reviewen',
+
+    // Bulk review
+    'bulk.queued':                'In Warteschlange',
+    'bulk.submitting':            'Wird übermittelt…',
+    'bulk.submitted':             'Übermittelt',
+    'bulk.failed':                'Fehlgeschlagen',
+    'bulk.failedWithReason':      'Fehlgeschlagen: {error}',
+    'bulk.reportPartial':         '{submitted} von {total} Reviews übermittelt, {failed} fehlgeschlagen. Fehlgeschlagene Pull Requests bleiben für einen erneuten Versuch ausgewählt.',
+    'bulk.reportSuccess':         'Alle {total} Reviews übermittelt.',
+
+    // Review panel
+    'panel.latestIteration':      'Neueste Iteration',
+    'panel.fullPullRequest':      'Gesamter Pull Request',
+    'panel.changesSince':         'Änderungen seit Iteration {id}',
+    'panel.iterationOption':      'Iteration {id}',
+    'panel.iterationOptionWithDescription': 'Iteration {id} — {description}',
+    'panel.resultsContext':       'PR #{id} · {repo} · Iteration {range} · von {profile} · angezeigt {time}',
+    'panel.jobsBackend':          'Reviews vom Backend-Profil „{profile}“ ({url})',
+    'panel.reviewFailed':         'Review fehlgeschlagen: {error}',
+    'panel.unknownServerError':   'Unbekannter Fehler auf dem Server.',
+    'panel.loadDetailsFailed':    'Jobdetails konnten nicht geladen werden: {error}',
+    'panel.submitFailed':         'Review konnte nicht übermittelt werden: {error}',
+    'panel.confirmCancel':        'Review von PR #{id} (Iteration {range}) abbrechen?',
+    'panel.cancelFailed':         'Review konnte nicht abgebrochen werden: {error}',
+    'panel.confirmRerun':         'Review von PR #{id} (Iteration {range}) erneut ausführen?',
+    'panel.rerunFailed':          'Review konnte nicht erneut ausgeführt werden: {error}',
+    'panel.compareOption':        'Iteration {range} (reviewt {time})',
+    'panel.compareFailed':        'Reviews konnten nicht verglichen werden: {error}',
+    'panel.backendUnreachable':   'Backend nicht erreichbar seit {time}, neuer Versuch läuft…',
+    'panel.refreshFailed':        'Die Reviews konnten nicht aktualisiert werden: {error}',
+    'panel.loadRepositoriesFailed': 'Die Repositories konnten nicht geladen werden: {error}',
+    'finding.new':                'Neu',
+    'finding.persisting':         'Weiterhin vorhanden',
+    'finding.resolved':           'Behoben',
+    'finding.count.new':          '{count} neu',
+    'finding.count.persisting':   '{count} weiterhin vorhanden',
+    'finding.count.resolved':     '{count} behoben',
+
+    // Jobs table
+    'jobs.column.iteration':      'Iteration',
+    'jobs.column.status':         'Status',
+    'jobs.column.submitted':      'Übermittelt',
+    'jobs.column.completed':      'Abgeschlossen',
+    'jobs.column.actions':        'Aktionen',
+    'jobs.viewResults':           'Ergebnisse anzeigen',
+    'jobs.viewError':             'Fehler anzeigen',
+    'jobs.cancel':                'Abbrechen',
+    'jobs.rerun':                 'Erneut ausführen',
+    'jobs.compare':               'Vergleichen',
+    'jobs.showLess':              '▲ Weniger anzeigen',
+    'jobs.moreIterations_one':    '▼ {count} weitere Iteration',
+    'jobs.moreIterations_other':  '▼ {count} weitere Iterationen',
+    'jobs.noMatches':             'Keine PRs entsprechen dem Filter.',
+    'jobs.empty':                 'Noch keine Reviews übermittelt.',
+    'jobs.filter.unknownStatus':  'Unbekannter Status „{status}“ (erlaubt: {allowed})',
+    'jobs.filter.invalidDate':    'Ungültiges Datum „{value}“ für {key}: (z. B. 7d, 12h oder 2026-03-01)',
+    'jobs.filter.unknownHas':     'Unbekannter Filter „has:{value}“ (erlaubt: has:failed)',
+
+    // PR tab and menu action
+    'prTab.context':              'PR #{id} · {repo}',
+    'prTab.noPullRequest':        'Der Pull Request konnte auf der aktuellen Seite nicht ermittelt werden.',
+    'prAction.openHub':           'Meister ProPR öffnen',
+    'prAction.noPullRequest':     'Der Pull Request für das KI-Review konnte nicht ermittelt werden.',
+    'prAction.notConfigured':     'Meister ProPR ist nicht konfiguriert. Richten Sie es unter Projekteinstellungen → Meister ProPR ein.',
+    'prAction.requested':         'KI-Review für PR #{id} angefordert (Job {jobId}).',
+    'prAction.failed':            'KI-Review konnte nicht angefordert werden: {error}',
+    'context.noLatestIteration':  'Die neueste PR-Iteration konnte nicht ermittelt werden.',
+    'context.invalidBase':        'Die Basisiteration muss älter als Iteration {id} sein.',
+
+    // Settings hub
+    'settings.title':             'Meister ProPR — Einstellungen',
+    'settings.profile':           'Backend-Profil',
+    'settings.newProfile':        'Neues Profil',
+    'settings.deleteProfile':     'Löschen',
+    'settings.profileHint':       'Beim Speichern wird das Profil für dieses Projekt verwendet.',
+    'settings.profileName':       'Profilname',
+    'settings.profileNamePlaceholder': 'prod, staging, local…',
+    'settings.unsavedProfile':    '(neues Profil)',
+    'settings.activeProfile':     '{name} (von diesem Projekt verwendet)',
+    'settings.profileNameRequired': 'Geben Sie einen Profilnamen ein.',
+    'settings.profileNameTaken':  'Es gibt bereits ein Profil namens „{name}“.',
+    'settings.confirmDeleteProfile': 'Backend-Profil „{name}“ löschen? Projekte, die es verwenden, wechseln zu einem anderen Profil.',
+    'settings.profileDeleted':    'Profil gelöscht.',
+    'settings.overridesHeading':  'Vererbung',
+    'settings.overridesDescription': 'Werte stammen aus den Standardwerten der Sammlung, überschrieben durch dieses Projekt und, wo erlaubt, durch jeden Benutzer. Änderungen hier werden sofort gespeichert.',
+    'settings.overridesScope':    'Werte bearbeiten für',
+    'settings.scope.collection':  'Standardwerte der Sammlung',
+    'settings.scope.project':     'Dieses Projekt',
+    'settings.scope.user':        'Nur mich',
+    'settings.layer.profile':     'Backend-Profil',
+    'settings.layer.clientId':    'Client-ID (Abrechnung)',
+    'settings.layer.clientKey':   'Client-Schlüssel',
+    'settings.layer.groupByFile': 'Review-Kommentare nach Datei gruppieren',
+    'settings.profileFallback':   'Erstes Profil ({name})',
+    'settings.source.here':       'Hier festgelegt.',
+    'settings.source.inherited':  'Geerbt von: {scope}.',
+    'settings.source.profile':    'Aus dem Profil „{name}“.',
+    'settings.source.default':    'Standardwert.',
+    'settings.source.notAllowed': 'Kann auf dieser Ebene nicht festgelegt werden.',
+    'settings.resetToInherited':  'Auf geerbten Wert zurücksetzen',
+    'settings.overrideSaved':     'Gespeichert.',
+    'settings.testConnection':    'Verbindung testen',
+    'settings.testing':           'Verbindung wird getestet…',
+    'settings.check.url':         'Backend-URL',
+    'settings.check.reachable':   'Erreichbar',
+    'settings.check.tls':         'TLS-Zertifikat',
+    'settings.check.cors':        'CORS-Preflight',
+    'settings.check.clientKey':   'Client-Schlüssel',
+    'settings.check.clientId':    'Client-ID',
+    'settings.check.urlInvalid':  'Keine gültige http(s)-URL.',
+    'settings.check.urlMixedContent': 'Diese Seite wird über HTTPS ausgeliefert, daher blockiert der Browser ein Backend über reines HTTP. Verwenden Sie https://.',
+    'settings.check.reachable.ok': 'Das Backend hat geantwortet.',
+    'settings.check.unreachable': 'Keine Verbindung zu {host}: Der Host ist unbekannt, das Backend läuft nicht, eine Firewall blockiert es oder sein Zertifikat ist nicht vertrauenswürdig.',
+    'settings.check.timeout':     'Das Backend hat nicht innerhalb von {seconds} s geantwortet. Es ist vermutlich überlastet oder startet gerade; versuchen Sie es später erneut.',
+    'settings.check.tlsTrusted':  'Das Zertifikat ist für diesen Browser vertrauenswürdig.',
+    'settings.check.tlsNone':     'Die Verbindung ist nicht verschlüsselt (HTTP).',
+    'settings.check.tlsUntrusted': 'Verwendet das Backend ein selbstsigniertes Zertifikat (wie das Testbed), öffnen Sie {url} in einem neuen Tab, akzeptieren Sie das Zertifikat und testen Sie erneut.',
+    'settings.check.corsAllowed': 'Das Backend akzeptiert Aufrufe von dieser Seite.',
+    'settings.check.corsRejected': 'Das Backend antwortet, lehnt aber Aufrufe von {origin} ab. Fügen Sie diesen Origin zu den erlaubten CORS-Origins hinzu.',
+    'settings.check.keyAccepted': 'Das Backend akzeptiert den Schlüssel.',
+    'settings.check.keyRejected': 'Das Backend lehnt den Schlüssel ab (401).',
+    'settings.check.clientFound': 'Client „{name}“.',
+    'settings.check.clientInactive': 'Client „{name}“ ist deaktiviert; Reviews werden abgelehnt.',
+    'settings.check.clientNotFound': 'Es gibt keinen Client mit dieser ID.',
+    'settings.check.clientForeign': 'Der Schlüssel gehört zu einem anderen Client (403).',
+    'settings.check.credentialsMissing': 'Geben Sie Client-Schlüssel und Client-ID ein, um sie zu prüfen.',
+    'settings.check.skipped':     'Nicht geprüft, weil ein vorheriger Schritt fehlgeschlagen ist.',
+    'settings.adoCredentialsHeading': 'ADO-Dienstanmeldedaten',
+    'settings.adoCredentialsDescription': 'Service Principal, den das Backend statt seiner eigenen Identität für die Azure-DevOps-Aufrufe dieses Clients verwendet. Erfordert den Admin-Schlüssel des Backends, der nur behalten wird, solange diese Seite geöffnet ist.',
+    'settings.adminKey':          'Admin-Schlüssel',
+    'settings.adminKeyPlaceholder': 'X-Admin-Key des Backends',
+    'settings.adoCredentials.tenantId': 'Mandanten-ID',
+    'settings.adoCredentials.appId': 'Anwendungs-ID (Client-ID)',
+    'settings.adoCredentials.secret': 'Geheimer Clientschlüssel',
+    'settings.adoCredentials.secretHint': 'Das Backend gibt den geheimen Schlüssel nie zurück. Geben Sie alle drei Werte ein, um die Anmeldedaten zu setzen oder zu rotieren.',
+    'settings.adoCredentials.save': 'Anmeldedaten setzen',
+    'settings.adoCredentials.rotate': 'Anmeldedaten rotieren',
+    'settings.adoCredentials.clear': 'Anmeldedaten entfernen',
+    'settings.adoCredentials.needConnection': 'Geben Sie zuerst Backend-URL und Client-ID ein.',
+    'settings.adoCredentials.needAdminKey': 'Geben Sie den Admin-Schlüssel ein, um zu sehen, ob Anmeldedaten gesetzt sind.',
+    'settings.adoCredentials.loading': 'Anmeldedaten werden geprüft…',
+    'settings.adoCredentials.set': 'Gesetzt: {name} verwendet einen eigenen Service Principal.',
+    'settings.adoCredentials.notSet': 'Nicht gesetzt: Das Backend verwendet für {name} seine globale Identität.',
+    'settings.adoCredentials.required': 'Geben Sie Mandanten-ID, Anwendungs-ID und geheimen Schlüssel ein.',
+    'settings.adoCredentials.saved': 'Anmeldedaten gespeichert.',
+    'settings.adoCredentials.cleared': 'Anmeldedaten entfernt.',
+    'settings.adoCredentials.confirmClear': 'ADO-Dienstanmeldedaten von Client {name} entfernen? Das Backend verwendet dann wieder seine globale Identität.',
+    'settings.adoCredentials.adminKeyRejected': 'Das Backend hat den Admin-Schlüssel abgelehnt.',
+    'settings.adoCredentials.clientNotFound': 'Das Backend kennt keinen Client mit dieser ID.',
+    'settings.adoCredentials.failed': 'Fehlgeschlagen: {error}',
+    'settings.backendUrl':        'Backend-URL',
+    'settings.clientKey':         'Client-Schlüssel',
+    'settings.clientKeyPlaceholder': 'Ihr Client-Schlüssel',
+    'settings.clientId':          'Client-ID',
+    'settings.crawlHeading':      'Crawl-Konfiguration',
+    'settings.crawlDescription':  'Pull Requests dieser Projekte werden automatisch geprüft. Änderungen werden sofort übernommen; beim Pausieren bleibt eine Konfiguration erhalten.',
+    'settings.crawl.none':        'Noch keine Crawl-Konfigurationen.',
+    'settings.crawl.column.organization': 'Organisation',
+    'settings.crawl.column.project': 'Projekt',
+    'settings.crawl.column.interval': 'Intervall',
+    'settings.crawl.column.state': 'Status',
+    'settings.crawl.column.created': 'Erstellt',
+    'settings.crawl.everyMinutes_one': 'jede Minute',
+    'settings.crawl.everyMinutes_other': 'alle {count} Minuten',
+    'settings.crawl.everySeconds_one': 'jede Sekunde',
+    'settings.crawl.everySeconds_other': 'alle {count} Sekunden',
+    'settings.crawl.active':      'Aktiv',
+    'settings.crawl.paused':      'Pausiert',
+    'settings.crawl.pause':       'Pausieren',
+    'settings.crawl.resume':      'Fortsetzen',
+    'settings.crawl.delete':      'Löschen',
+    'settings.crawl.duplicate':   'Duplikat',
+    'settings.crawl.duplicateHint': 'Eine andere Konfiguration crawlt dieselbe Organisation und dasselbe Projekt.',
+    'settings.crawl.confirmDelete': 'Crawl-Konfiguration von {project} löschen? Pausieren Sie sie, um sie zu behalten.',
+    'settings.crawl.interval':    'Crawl-Intervall (Minuten)',
+    'settings.crawl.add':         'Dieses Projekt crawlen',
+    'settings.crawl.intervalInvalid': 'Geben Sie das Intervall als ganze Zahl von Minuten ein, mindestens 1.',
+    'settings.crawl.alreadyConfigured': 'Dieses Projekt wird bereits gecrawlt. Um das Intervall zu ändern, löschen Sie zuerst seine Konfiguration.',
+    'settings.crawl.added':       'Crawl-Konfiguration hinzugefügt.',
+    'settings.crawl.pausedDone':  'Crawl-Konfiguration pausiert.',
+    'settings.crawl.resumedDone': 'Crawl-Konfiguration fortgesetzt.',
+    'settings.crawl.deleted':     'Crawl-Konfiguration gelöscht.',
+    'settings.crawl.loadFailed':  'Crawl-Konfigurationen konnten nicht geladen werden: {error}',
+    'settings.reviewerHeading':   'Reviewer-Identität',
+    'settings.reviewerDescription': 'Suchen und wählen Sie die Azure DevOps-Identität, die als Bot-Reviewer für Pull Requests dieses Clients verwendet wird. Geben Sie mindestens 2 Zeichen ein.',
+    'settings.reviewerLabel':     'Reviewer-Identität',
+    'settings.reviewerPlaceholder': 'Nach Anzeigename suchen…',
+    'settings.save':              'Einstellungen speichern',
+    'settings.resolvingIdentity': 'Identität wird aufgelöst…',
+    'settings.identityNotFound':  'Identität nicht gefunden.',
+    'settings.identityResolveFailed': 'Identität konnte nicht aufgelöst werden.',
+    'settings.configureFirst':    'Zuerst Backend-URL, Client-Schlüssel und Client-ID konfigurieren.',
+    'settings.noResults':         'Keine Ergebnisse gefunden',
+    'settings.identitySearchFailed': 'Identitäten konnten nicht durchsucht werden.',
+    'settings.saving':            'Wird gespeichert...',
+    'settings.saved':             'Einstellungen gespeichert.',
+    'settings.saveFailed':        'Speichern fehlgeschlagen: {error}',
+    'settings.unknownError':      'Unbekannter Fehler',
+    'settings.transferHeading':   'Export / Import',
+    'settings.transferDescription': 'Übertragen Sie die Einstellungen dieses Projekts auf andere Projekte: Backend-Profil, Reviewer-Identität und Crawl-Konfiguration, als JSON-Datei.',
+    'settings.transfer.includeKey': 'Client-Schlüssel einschließen',
+    'settings.transfer.includeKeyHint': 'Dann kann jeder mit der Datei den Client verwenden. Ohne Schlüssel behält ein Import den Schlüssel des gleichnamigen Profils mit derselben Client-ID.',
+    'settings.transfer.export':   'Exportieren',
+    'settings.transfer.import':   'Datei importieren',
+    'settings.transfer.apply':    'Import übernehmen',
+    'settings.transfer.cancel':   'Abbrechen',
+    'settings.transfer.exported': 'Einstellungen ohne Client-Schlüssel exportiert.',
+    'settings.transfer.exportedWithKey': 'Einstellungen mit Client-Schlüssel exportiert. Bewahren Sie die Datei sicher auf.',
+    'settings.transfer.exportFailed': 'Export fehlgeschlagen: {error}',
+    'settings.transfer.notJson':  'Die Datei ist kein gültiges JSON.',
+    'settings.transfer.newerVersion': 'Die Datei hat die Formatversion {version}; diese Erweiterung liest Version {supported}. Aktualisieren Sie zuerst die Erweiterung.',
+    'settings.transfer.invalid':  'Die Datei kann nicht importiert werden: {errors}',
+    'settings.transfer.readFailed': 'Die Datei konnte nicht gelesen werden: {error}',
+    'settings.transfer.problem':  '{path} {problem}',
+    'settings.transfer.expected.document': 'Die Datei ist kein Einstellungsexport.',
+    'settings.transfer.expected.version': 'muss {version} sein',
+    'settings.transfer.expected.known': 'ist keine bekannte Einstellung',
+    'settings.transfer.expected.object': 'muss ein Objekt sein',
+    'settings.transfer.expected.objectOrNull': 'muss ein Objekt oder null sein',
+    'settings.transfer.expected.string': 'muss ein Text sein',
+    'settings.transfer.expected.nonEmpty': 'darf nicht leer sein',
+    'settings.transfer.expected.url': 'muss eine http(s)-URL sein',
+    'settings.transfer.expected.interval': 'muss eine ganze Zahl von Sekunden sein, mindestens 1',
+    'settings.transfer.expected.boolean': 'muss true oder false sein',
+    'settings.transfer.column.setting': 'Einstellung',
+    'settings.transfer.column.current': 'Aktuell',
+    'settings.transfer.column.imported': 'Importiert',
+    'settings.transfer.setting.profile': 'Neues Profil',
+    'settings.transfer.setting.backendUrl': 'Backend-URL',
+    'settings.transfer.setting.clientId': 'Client-ID',
+    'settings.transfer.setting.clientKey': 'Client-Schlüssel',
+    'settings.transfer.setting.activeProfile': 'Profil dieses Projekts',
+    'settings.transfer.setting.reviewer': 'Reviewer-Identität',
+    'settings.transfer.setting.crawl': 'Crawl-Konfiguration',
+    'settings.transfer.none':     '(keine)',
+    'settings.transfer.hidden':   '(verborgen)',
+    'settings.transfer.unknown':  '(konnte nicht geladen werden)',
+    'settings.transfer.crawlPaused': '{interval}, pausiert',
+    'settings.transfer.noChanges': 'Die Datei entspricht den aktuellen Einstellungen.',
+    'settings.transfer.keyMissing': 'Die Datei enthält keinen Client-Schlüssel und kein gespeichertes Profil mit diesem Namen und dieser Client-ID hat einen. Nur das Profil wird importiert und nicht zum Profil dieses Projekts; geben Sie seinen Schlüssel ein, speichern Sie es und importieren Sie erneut, um die übrigen Einstellungen zu übernehmen.',
+    'settings.transfer.applying': 'Wird importiert…',
+    'settings.transfer.imported': 'Einstellungen importiert.',
+    'settings.transfer.importFailed': 'Import fehlgeschlagen: {error}',
+
+    // Admin hub
+    'admin.title':                'Meister ProPR — Backend-Verwaltung',
+    'admin.description':          'Verwalten Sie die Clients eines Backends und sehen Sie die Review-Jobs aller Clients ein. Erfordert den Admin-Schlüssel des Backends.',
+    'admin.keyHint':              'Wird nur behalten, solange diese Seite geöffnet ist; nie im Browser oder in Azure DevOps gespeichert.',
+    'admin.connect':              'Verbinden',
+    'admin.forgetKey':            'Schlüssel vergessen',
+    'admin.connectionRequired':   'Geben Sie Backend-URL und Admin-Schlüssel ein.',
+    'admin.connecting':           'Verbindung wird hergestellt…',
+    'admin.connected':            'Verbunden mit {url}.',
+    'admin.keyForgotten':         'Der Admin-Schlüssel wurde von dieser Seite entfernt.',
+    'admin.failed':               'Fehlgeschlagen: {error}',
+    'admin.clientsHeading':       'Clients',
+    'admin.noClients':            'Noch keine Clients registriert.',
+    'admin.clients.column.name':  'Name',
+    'admin.clients.column.id':    'Client-ID',
+    'admin.clients.column.state': 'Status',
+    'admin.clients.column.adoCredentials': 'ADO-Anmeldedaten',
+    'admin.clients.column.created': 'Erstellt',
+    'admin.clients.active':       'Aktiv',
+    'admin.clients.inactive':     'Inaktiv',
+    'admin.clients.yes':          'Ja',
+    'admin.clients.no':           'Nein',
+    'admin.clients.rename':       'Umbenennen',
+    'admin.clients.renamePrompt': 'Neuer Name für {name}:',
+    'admin.clients.renamed':      'Client in {name} umbenannt.',
+    'admin.clients.activate':     'Aktivieren',
+    'admin.clients.deactivate':   'Deaktivieren',
+    'admin.clients.activated':    '{name} aktiviert.',
+    'admin.clients.deactivated':  '{name} deaktiviert; seine Reviews werden abgelehnt, bis er wieder aktiviert wird.',
+    'admin.clients.delete':       'Löschen',
+    'admin.clients.confirmDelete': 'Client {name} mit allen Crawl-Konfigurationen löschen? Sein Schlüssel funktioniert dann nicht mehr.',
+    'admin.clients.deleted':      '{name} gelöscht.',
+    'admin.clients.required':     'Geben Sie einen Anzeigenamen und einen Client-Schlüssel ein.',
+    'admin.clients.created':      'Client {name} erstellt. Kopieren Sie jetzt seinen Schlüssel; das Backend zeigt ihn nie wieder an.',
+    'admin.newClient':            'Neuer Client',
+    'admin.displayName':          'Anzeigename',
+    'admin.generateKey':          'Generieren',
+    'admin.clientKeyHint':        'Geben Sie diesen Schlüssel an die Projektadministratoren des Clients weiter. Das Backend zeigt ihn nie wieder an.',
+    'admin.createClient':         'Client erstellen',
+    'admin.jobsHeading':          'Jobs',
+    'admin.jobs.status':          'Status',
+    'admin.jobs.allStatuses':     'Alle',
+    'admin.jobs.none':            'Keine Jobs.',
+    'admin.jobs.column.submitted': 'Eingereicht',
+    'admin.jobs.column.client':   'Client',
+    'admin.jobs.column.project':  'Projekt',
+    'admin.jobs.column.pullRequest': 'Pull Request',
+    'admin.jobs.column.status':   'Status',
+    'admin.jobs.column.completed': 'Abgeschlossen',
+    'admin.jobs.column.result':   'Ergebnis',
+    'admin.jobs.pullRequest':     '{repository} #{id}, Iteration {iteration}',
+    'admin.jobs.page':            '{from}–{to} von {total}',
+    'admin.jobs.previous':        'Zurück',
+    'admin.jobs.next':            'Weiter',
+    'admin.jobs.loadFailed':      'Jobs konnten nicht geladen werden: {error}',
+};
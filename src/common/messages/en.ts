@@ -0,0 +1,379 @@
+/**
+ * English message catalog — the reference bundle. Every other bundle must provide the same keys.
+ * `{name}` placeholders are filled by `t()`; keys ending in `_one` / `_other` are plural forms for `tn()`.
+ */
+export const en = {
+    // Shared
+    'severity.error':      'Error',
+    'severity.warning':    'Warning',
+    'severity.suggestion': 'Suggestion',
+    'severity.info':       'Info',
+    'severity.tally.error_one':        '{count} error',
+    'severity.tally.error_other':      '{count} errors',
+    'severity.tally.warning_one':      '{count} warning',
+    'severity.tally.warning_other':    '{count} warnings',
+    'severity.tally.suggestion_one':   '{count} suggestion',
+    'severity.tally.suggestion_other': '{count} suggestions',
+    'severity.tally.info_one':         '{count} info',
+    'severity.tally.info_other':       '{count} info',
+    'status.pending':      'pending',
+    'status.processing':   'processing',
+    'status.completed':    'completed',
+    'status.failed':       'failed',
+    'common.generalComment': '(general)',
+    'common.noLineNumber': '—',
+    'common.prTitle':      '#{id} — {title}',
+    'common.iteration':    'iteration {range}',
+    'time.justNow':        'just now',
+    'backend.unreachable': 'The backend is not reachable.',
+    'backend.timeout':     'The backend did not answer within {seconds} s.',
+    'backend.status':      'The backend answered with status {status}.',
+
+    // Review hub (static page)
+    'review.title':               'Meister ProPR — AI Code Review',
+    'review.configWarning':       'Please configure the extension in Project Settings → Meister ProPR before using.',
+    'review.repository':          'Repository',
+    'review.selectRepository':    '— Select a repository —',
+    'review.pullRequest':         'Pull Request',
+    'review.iteration':           'Iteration',
+    'review.scope':               'Review scope',
+    'review.submitButton':        'Review with AI',
+    'review.submitting':          'Submitting review…',
+    'review.summaryHeading':      'Review Summary',
+    'review.export':              'Export',
+    'review.commentsHeading':     'Comments',
+    'review.groupByFile':         'Group by file',
+    'review.column.file':         'File',
+    'review.column.line':         'Line',
+    'review.column.severity':     'Severity',
+    'review.column.comment':      'Comment',
+    'review.column.status':       'Status',
+    'review.compareHeading':      'Compare Reviews',
+    'review.compareChangesIn':    'Changes in',
+    'review.compareSince':        'since',
+    'review.recentReviews':       'Recent Reviews',
+    'review.historyHeading':      'Review History',
+    'review.filterPlaceholder':   'Filter: PR number or text, status:failed repo:api since:7d…',
+    'review.filterHelp':          'combine freely with PR numbers or text',
+    'review.loadOlder':           'Load older reviews',
+    'review.bulkClear':           'Clear',
+    'review.backendProfile':      'Backend profile',
+    'review.switchProfileFailed': 'Could not switch the backend profile: {error}',
+
+    // Review hub (picker)
+    'picker.searchPlaceholder':   'Type to search pull requests…',
+    'picker.selectRepoFirst':     'Select a repository first',
+    'picker.loading':             'Loading pull requests…',
+    'picker.noMatches':           'No matching pull requests',
+    'picker.loadFailed':          'Could not load pull requests: {error}',
+    'picker.untitled':            'PR #{id}',
+    'picker.selectAll':           'Select all active PRs ({count})',
+    'picker.selectRepository':    'Please select a repository.',
+    'picker.selectPullRequest':   'Please select a pull request from the list.',
+    'picker.selected_one':        '{count} pull request selected',
+    'picker.selected_other':      '{count} pull requests selected',
+    'picker.reviewSelected_one':  'Review {count} pull request',
+    'picker.reviewSelected_other': 'Review {count} pull requests',
+
+    // Bulk review
+    'bulk.queued':                'Queued',
+    'bulk.submitting':            'Submitting…',
+    'bulk.submitted':             'Submitted',
+    'bulk.failed':                'Failed',
+    'bulk.failedWithReason':      'Failed: {error}',
+    'bulk.reportPartial':         '{submitted} of {total} reviews submitted, {failed} failed. Failed pull requests stay selected so you can retry.',
+    'bulk.reportSuccess':         'All {total} reviews submitted.',
+
+    // Review panel
+    'panel.latestIteration':      'Latest iteration',
+    'panel.fullPullRequest':      'Full pull request',
+    'panel.changesSince':         'Changes since iteration {id}',
+    'panel.iterationOption':      'Iteration {id}',
+    'panel.iterationOptionWithDescription': 'Iteration {id} — {description}',
+    'panel.resultsContext':       'PR #{id} · {repo} · iteration {range} · from {profile} · viewed {time}',
+    'panel.jobsBackend':          'Reviews from backend profile “{profile}” ({url})',
+    'panel.reviewFailed':         'Review failed: {error}',
+    'panel.unknownServerError':   'Unknown error on the server.',
+    'panel.loadDetailsFailed':    'Could not load job details: {error}',
+    'panel.submitFailed':         'Failed to submit review: {error}',
+    'panel.confirmCancel':        'Cancel the review of PR #{id} (iteration {range})?',
+    'panel.cancelFailed':         'Could not cancel review: {error}',
+    'panel.confirmRerun':         'Run the review of PR #{id} (iteration {range}) again?',
+    'panel.rerunFailed':          'Failed to re-run review: {error}',
+    'panel.compareOption':        'iteration {range} (reviewed {time})',
+    'panel.compareFailed':        'Could not compare reviews: {error}',
+    'panel.backendUnreachable':   'Backend unreachable since {time}, retrying…',
+    'panel.refreshFailed':        'Could not refresh the reviews: {error}',
+    'panel.loadRepositoriesFailed': 'Could not load the repositories: {error}',
+    'finding.new':                'New',
+    'finding.persisting':         'Still present',
+    'finding.resolved':           'Resolved',
+    'finding.count.new':          '{count} new',
+    'finding.count.persisting':   '{count} still present',
+    'finding.count.resolved':     '{count} resolved',
+
+    // Jobs table
+    'jobs.column.iteration':      'Iteration',
+    'jobs.column.status':         'Status',
+    'jobs.column.submitted':      'Submitted',
+    'jobs.column.completed':      'Completed',
+    'jobs.column.actions':        'Actions',
+    'jobs.viewResults':           'View results',
+    'jobs.viewError':             'View error',
+    'jobs.cancel':                'Cancel',
+    'jobs.rerun':                 'Re-run',
+    'jobs.compare':               'Compare',
+    'jobs.showLess':              '▲ Show less',
+    'jobs.moreIterations_one':    '▼ {count} more iteration',
+    'jobs.moreIterations_other':  '▼ {count} more iterations',
+    'jobs.noMatches':             'No PRs match the filter.',
+    'jobs.empty':                 'No reviews submitted yet.',
+    'jobs.filter.unknownStatus':  'Unknown status "{status}" (use {allowed})',
+    'jobs.filter.invalidDate':    'Invalid date "{value}" for {key}: (use e.g. 7d, 12h or 2026-03-01)',
+    'jobs.filter.unknownHas':     'Unknown filter "has:{value}" (use has:failed)',
+
+    // PR tab and menu action
+    'prTab.context':              'PR #{id} · {repo}',
+    'prTab.noPullRequest':        'Could not determine the pull request from the current page.',
+    'prAction.openHub':           'Open Meister ProPR',
+    'prAction.noPullRequest':     'Could not determine the pull request for the AI review.',
+    'prAction.notConfigured':     'Meister ProPR is not configured. Set it up in Project Settings → Meister ProPR.',
+    'prAction.requested':         'AI review requested for PR #{id} (job {jobId}).',
+    'prAction.failed':            'Failed to request AI review: {error}',
+    'context.noLatestIteration':  'Could not determine the latest PR iteration.',
+    'context.invalidBase':        'The base iteration must be older than iteration {id}.',
+
+    // Settings hub
+    'settings.title':             'Meister ProPR — Settings',
+    'settings.profile':           'Backend profile',
+    'settings.newProfile':        'New profile',
+    'settings.deleteProfile':     'Delete',
+    'settings.profileHint':       'Saving makes the profile the one this project uses.',
+    'settings.profileName':       'Profile name',
+    'settings.profileNamePlaceholder': 'prod, staging, local…',
+    'settings.unsavedProfile':    '(new profile)',
+    'settings.activeProfile':     '{name} (used by this project)',
+    'settings.profileNameRequired': 'Enter a profile name.',
+    'settings.profileNameTaken':  'A profile named “{name}” already exists.',
+    'settings.confirmDeleteProfile': 'Delete the backend profile “{name}”? Projects using it switch to another profile.',
+    'settings.profileDeleted':    'Profile deleted.',
+    'settings.overridesHeading':  'Inheritance',
+    'settings.overridesDescription': 'Values come from the collection defaults, overridden by this project, overridden by each user where allowed. Changes here are saved immediately.',
+    'settings.overridesScope':    'Edit values for',
+    'settings.scope.collection':  'Collection defaults',
+    'settings.scope.project':     'This project',
+    'settings.scope.user':        'Only me',
+    'settings.layer.profile':     'Backend profile',
+    'settings.layer.clientId':    'Client ID (billing)',
+    'settings.layer.clientKey':   'Client key',
+    'settings.layer.groupByFile': 'Group review comments by file',
+    'settings.profileFallback':   'First profile ({name})',
+    'settings.source.here':       'Set here.',
+    'settings.source.inherited':  'Inherited from: {scope}.',
+    'settings.source.profile':    'From the profile “{name}”.',
+    'settings.source.default':    'Default.',
+    'settings.source.notAllowed': 'Cannot be set at this level.',
+    'settings.resetToInherited':  'Reset to inherited',
+    'settings.overrideSaved':     'Saved.',
+    'settings.testConnection':    'Test connection',
+    'settings.testing':           'Testing the connection…',
+    'settings.check.url':         'Backend URL',
+    'settings.check.reachable':   'Reachable',
+    'settings.check.tls':         'TLS certificate',
+    'settings.check.cors':        'CORS preflight',
+    'settings.check.clientKey':   'Client key',
+    'settings.check.clientId':    'Client ID',
+    'settings.check.urlInvalid':  'Not a valid http(s) URL.',
+    'settings.check.urlMixedContent': 'This page is served over HTTPS, so the browser blocks a plain HTTP backend. Use https://.',
+    'settings.check.reachable.ok': 'The backend answered.',
+    'settings.check.unreachable': 'No connection to {host}: the host is unknown, the backend is down, a firewall blocks it or its certificate is not trusted.',
+    'settings.check.timeout':     'The backend did not answer within {seconds} s. It is probably overloaded or starting up; try again later.',
+    'settings.check.tlsTrusted':  'The certificate is trusted by this browser.',
+    'settings.check.tlsNone':     'The connection is not encrypted (HTTP).',
+    'settings.check.tlsUntrusted': 'If the backend uses a self-signed certificate (like the testbed), open {url} in a new tab, accept the certificate and test again.',
+    'settings.check.corsAllowed': 'The backend accepts calls from this page.',
+    'settings.check.corsRejected': 'The backend answers but refuses calls from {origin}. Add this origin to its allowed CORS origins.',
+    'settings.check.keyAccepted': 'The backend accepts the key.',
+    'settings.check.keyRejected': 'The backend rejects the key (401).',
+    'settings.check.clientFound': 'Client “{name}”.',
+    'settings.check.clientInactive': 'Client “{name}” is deactivated; reviews will be rejected.',
+    'settings.check.clientNotFound': 'There is no client with this ID.',
+    'settings.check.clientForeign': 'The key belongs to a different client (403).',
+    'settings.check.credentialsMissing': 'Enter the client key and client ID to check them.',
+    'settings.check.skipped':     'Not checked because an earlier step failed.',
+    'settings.adoCredentialsHeading': 'ADO Service Credentials',
+    'settings.adoCredentialsDescription': 'Service principal the backend uses for this client\'s Azure DevOps calls instead of its own identity. Needs the backend admin key, which is only kept while this page is open.',
+    'settings.adminKey':          'Admin Key',
+    'settings.adminKeyPlaceholder': 'X-Admin-Key of the backend',
+    'settings.adoCredentials.tenantId': 'Tenant ID',
+    'settings.adoCredentials.appId': 'Application (client) ID',
+    'settings.adoCredentials.secret': 'Client Secret',
+    'settings.adoCredentials.secretHint': 'The backend never returns the secret. Enter all three values to set or rotate the credentials.',
+    'settings.adoCredentials.save': 'Set Credentials',
+    'settings.adoCredentials.rotate': 'Rotate Credentials',
+    'settings.adoCredentials.clear': 'Remove Credentials',
+    'settings.adoCredentials.needConnection': 'Enter the backend URL and client ID first.',
+    'settings.adoCredentials.needAdminKey': 'Enter the admin key to see whether credentials are set.',
+    'settings.adoCredentials.loading': 'Checking credentials…',
+    'settings.adoCredentials.set': 'Set: {name} uses its own service principal.',
+    'settings.adoCredentials.notSet': 'Not set: the backend uses its global identity for {name}.',
+    'settings.adoCredentials.required': 'Enter the tenant ID, application ID and secret.',
+    'settings.adoCredentials.saved': 'Credentials saved.',
+    'settings.adoCredentials.cleared': 'Credentials removed.',
+    'settings.adoCredentials.confirmClear': 'Remove the ADO service credentials of client {name}? The backend falls back to its global identity.',
+    'settings.adoCredentials.adminKeyRejected': 'The backend rejected the admin key.',
+    'settings.adoCredentials.clientNotFound': 'The backend has no client with this ID.',
+    'settings.adoCredentials.failed': 'Failed: {error}',
+    'settings.backendUrl':        'Backend URL',
+    'settings.clientKey':         'Client Key',
+    'settings.clientKeyPlaceholder': 'Your client key',
+    'settings.clientId':          'Client ID',
+    'settings.crawlHeading':      'Crawl Configuration',
+    'settings.crawlDescription':  'Pull requests of these projects are reviewed automatically. Changes are applied immediately; pausing keeps a configuration.',
+    'settings.crawl.none':        'No crawl configurations yet.',
+    'settings.crawl.column.organization': 'Organization',
+    'settings.crawl.column.project': 'Project',
+    'settings.crawl.column.interval': 'Interval',
+    'settings.crawl.column.state': 'State',
+    'settings.crawl.column.created': 'Created',
+    'settings.crawl.everyMinutes_one': 'every minute',
+    'settings.crawl.everyMinutes_other': 'every {count} minutes',
+    'settings.crawl.everySeconds_one': 'every second',
+    'settings.crawl.everySeconds_other': 'every {count} seconds',
+    'settings.crawl.active':      'Active',
+    'settings.crawl.paused':      'Paused',
+    'settings.crawl.pause':       'Pause',
+    'settings.crawl.resume':      'Resume',
+    'settings.crawl.delete':      'Delete',
+    'settings.crawl.duplicate':   'Duplicate',
+    'settings.crawl.duplicateHint': 'Another configuration crawls the same organization and project.',
+    'settings.crawl.confirmDelete': 'Delete the crawl configuration of {project}? Pause it instead to keep it.',
+    'settings.crawl.interval':    'Crawl interval (minutes)',
+    'settings.crawl.add':         'Crawl this project',
+    'settings.crawl.intervalInvalid': 'Enter the interval as a whole number of minutes, at least 1.',
+    'settings.crawl.alreadyConfigured': 'This project is already crawled. To change its interval, delete its configuration first.',
+    'settings.crawl.added':       'Crawl configuration added.',
+    'settings.crawl.pausedDone':  'Crawl configuration paused.',
+    'settings.crawl.resumedDone': 'Crawl configuration resumed.',
+    'settings.crawl.deleted':     'Crawl configuration deleted.',
+    'settings.crawl.loadFailed':  'Crawl configurations could not be loaded: {error}',
+    'settings.reviewerHeading':   'Reviewer Identity',
+    'settings.reviewerDescription': 'Search for and select the Azure DevOps identity that will be used as the bot reviewer for pull requests in this client. Type at least 2 characters to search.',
+    'settings.reviewerLabel':     'Reviewer Identity',
+    'settings.reviewerPlaceholder': 'Search by display name…',
+    'settings.save':              'Save Settings',
+    'settings.resolvingIdentity': 'Resolving identity…',
+    'settings.identityNotFound':  'Identity not found.',
+    'settings.identityResolveFailed': 'Could not resolve identity.',
+    'settings.configureFirst':    'Configure Backend URL, Client Key, and Client ID first.',
+    'settings.noResults':         'No results found',
+    'settings.identitySearchFailed': 'Could not search identities.',
+    'settings.saving':            'Saving...',
+    'settings.saved':             'Settings saved.',
+    'settings.saveFailed':        'Failed to save: {error}',
+    'settings.unknownError':      'Unknown error',
+    'settings.transferHeading':   'Export / Import',
+    'settings.transferDescription': 'Copy this project\'s settings to other projects: backend profile, reviewer identity and crawl configuration, as a JSON file.',
+    'settings.transfer.includeKey': 'Include the client key',
+    'settings.transfer.includeKeyHint': 'Anyone with the file can then use the client. Without the key, an import keeps the key of the profile with the same name and client ID.',
+    'settings.transfer.export':   'Export',
+    'settings.transfer.import':   'Import file',
+    'settings.transfer.apply':    'Apply Import',
+    'settings.transfer.cancel':   'Cancel',
+    'settings.transfer.exported': 'Settings exported without the client key.',
+    'settings.transfer.exportedWithKey': 'Settings exported including the client key. Keep the file safe.',
+    'settings.transfer.exportFailed': 'Export failed: {error}',
+    'settings.transfer.notJson':  'The file is not valid JSON.',
+    'settings.transfer.newerVersion': 'The file has format version {version}; this extension reads version {supported}. Update the extension first.',
+    'settings.transfer.invalid':  'The file cannot be imported: {errors}',
+    'settings.transfer.readFailed': 'The file could not be read: {error}',
+    'settings.transfer.problem':  '{path} {problem}',
+    'settings.transfer.expected.document': 'The file is not a settings export.',
+    'settings.transfer.expected.version': 'must be {version}',
+    'settings.transfer.expected.known': 'is not a known setting',
+    'settings.transfer.expected.object': 'must be an object',
+    'settings.transfer.expected.objectOrNull': 'must be an object or null',
+    'settings.transfer.expected.string': 'must be a text',
+    'settings.transfer.expected.nonEmpty': 'must not be empty',
+    'settings.transfer.expected.url': 'must be an http(s) URL',
+    'settings.transfer.expected.interval': 'must be a whole number of seconds, at least 1',
+    'settings.transfer.expected.boolean': 'must be true or false',
+    'settings.transfer.column.setting': 'Setting',
+    'settings.transfer.column.current': 'Current',
+    'settings.transfer.column.imported': 'Imported',
+    'settings.transfer.setting.profile': 'New profile',
+    'settings.transfer.setting.backendUrl': 'Backend URL',
+    'settings.transfer.setting.clientId': 'Client ID',
+    'settings.transfer.setting.clientKey': 'Client key',
+    'settings.transfer.setting.activeProfile': 'Profile of this project',
+    'settings.transfer.setting.reviewer': 'Reviewer identity',
+    'settings.transfer.setting.crawl': 'Crawl configuration',
+    'settings.transfer.none':     '(none)',
+    'settings.transfer.hidden':   '(hidden)',
+    'settings.transfer.unknown':  '(could not be loaded)',
+    'settings.transfer.crawlPaused': '{interval}, paused',
+    'settings.transfer.noChanges': 'The file matches the current settings.',
+    'settings.transfer.keyMissing': 'The file has no client key and no saved profile has one for this name and client ID. Only the profile is imported, and it does not become the profile of this project; enter its key, save it and import again to apply the other settings.',
+    'settings.transfer.applying': 'Importing…',
+    'settings.transfer.imported': 'Settings imported.',
+    'settings.transfer.importFailed': 'Import failed: {error}',
+
+    // Admin hub
+    'admin.title':                'Meister ProPR — Backend Administration',
+    'admin.description':          'Manage the clients of a backend and browse the review jobs of all clients. Needs the backend admin key.',
+    'admin.keyHint':              'Only kept while this page is open; never stored in the browser or in Azure DevOps.',
+    'admin.connect':              'Connect',
+    'admin.forgetKey':            'Forget Key',
+    'admin.connectionRequired':   'Enter the backend URL and the admin key.',
+    'admin.connecting':           'Connecting…',
+    'admin.connected':            'Connected to {url}.',
+    'admin.keyForgotten':         'The admin key was removed from this page.',
+    'admin.failed':               'Failed: {error}',
+    'admin.clientsHeading':       'Clients',
+    'admin.noClients':            'No clients registered yet.',
+    'admin.clients.column.name':  'Name',
+    'admin.clients.column.id':    'Client ID',
+    'admin.clients.column.state': 'State',
+    'admin.clients.column.adoCredentials': 'ADO credentials',
+    'admin.clients.column.created': 'Created',
+    'admin.clients.active':       'Active',
+    'admin.clients.inactive':     'Inactive',
+    'admin.clients.yes':          'Yes',
+    'admin.clients.no':           'No',
+    'admin.clients.rename':       'Rename',
+    'admin.clients.renamePrompt': 'New name for {name}:',
+    'admin.clients.renamed':      'Client renamed to {name}.',
+    'admin.clients.activate':     'Activate',
+    'admin.clients.deactivate':   'Deactivate',
+    'admin.clients.activated':    '{name} activated.',
+    'admin.clients.deactivated':  '{name} deactivated; its reviews are rejected until it is activated again.',
+    'admin.clients.delete':       'Delete',
+    'admin.clients.confirmDelete': 'Delete client {name} and all its crawl configurations? Its key stops working.',
+    'admin.clients.deleted':      '{name} deleted.',
+    'admin.clients.required':     'Enter a display name and a client key.',
+    'admin.clients.created':      'Client {name} created. Copy its key now; the backend never shows it again.',
+    'admin.newClient':            'New client',
+    'admin.displayName':          'Display name',
+    'admin.generateKey':          'Generate',
+    'admin.clientKeyHint':        'Give this key to the client\'s project administrators. The backend never shows it again.',
+    'admin.createClient':         'Create Client',
+    'admin.jobsHeading':          'Jobs',
+    'admin.jobs.status':          'Status',
+    'admin.jobs.allStatuses':     'All',
+    'admin.jobs.none':            'No jobs.',
+    'admin.jobs.column.submitted': 'Submitted',
+    'admin.jobs.column.client':   'Client',
+    'admin.jobs.column.project':  'Project',
+    'admin.jobs.column.pullRequest': 'Pull request',
+    'admin.jobs.column.status':   'Status',
+    'admin.jobs.column.completed': 'Completed',
+    'admin.jobs.column.result':   'Result',
+    'admin.jobs.pullRequest':     '{repository} #{id}, iteration {iteration}',
+    'admin.jobs.page':            '{from}–{to} of {total}',
+    'admin.jobs.previous':        'Previous',
+    'admin.jobs.next':            'Next',
+    'admin.jobs.loadFailed':      'Jobs could not be loaded: {error}',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
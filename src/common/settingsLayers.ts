@@ -0,0 +1,84 @@
+/**
+ * Layered settings: collection defaults, overridden per project, overridden per user.
+ * Pure resolution only; storage is in `extensionSettings.ts`.
+ */
+
+export type SettingScope = 'collection' | 'project' | 'user';
+
+/** Lowest to highest precedence. */
+export const SCOPES: readonly SettingScope[] = ['collection', 'project', 'user'];
+
+export interface LayeredSettings {
+    /** Backend profile the project's pages use. */
+    profile: string;
+    /** Backend client the project's reviews are billed to; used with `clientKey` only, else the profile's pair. */
+    clientId: string;
+    /** Key of `clientId`; empty uses the profile's client ID and key. */
+    clientKey: string;
+    /** Review comments are grouped by file when results open. */
+    groupByFile: boolean;
+}
+
+export type SettingKey = keyof LayeredSettings;
+
+/** Values a scope sets explicitly; missing keys are inherited. */
+export type SettingLayer = Partial<LayeredSettings>;
+
+export type SettingLayers = Record<SettingScope, SettingLayer>;
+
+/** Scopes that may set each value. Connection values are admin settings; users may only set preferences. */
+export const SETTING_SCOPES: Record<SettingKey, readonly SettingScope[]> = {
+    profile:     ['collection', 'project'],
+    clientId:    ['project'],
+    clientKey:   ['project'],
+    groupByFile: ['collection', 'project', 'user'],
+};
+
+/** Values when no scope sets them; empty connection values fall back to the profile. */
+export const SETTING_DEFAULTS: LayeredSettings = {
+    profile:     '',
+    clientId:    '',
+    clientKey:   '',
+    groupByFile: false,
+};
+
+export interface ResolvedSetting<T> {
+    value: T;
+    /** Scope the value comes from; `null` for the built-in default. */
+    source: SettingScope | null;
+}
+
+export type ResolvedSettings = { [K in SettingKey]: ResolvedSetting<LayeredSettings[K]> };
+
+export function emptyLayers(): SettingLayers {
+    return { collection: {}, project: {}, user: {} };
+}
+
+/**
+ * Effective value of `key` as seen from `upTo` (default: the user): the value of the highest
+ * scope at or below `upTo` that sets it. Values set by scopes that may not set the key are ignored.
+ */
+export function resolveSetting<K extends SettingKey>(
+    layers: SettingLayers, key: K, upTo: SettingScope = 'user',
+): ResolvedSetting<LayeredSettings[K]> {
+    const allowed = SETTING_SCOPES[key];
+    const visible = SCOPES.slice(0, SCOPES.indexOf(upTo) + 1);
+    for (const scope of [...visible].reverse()) {
+        const value = layers[scope][key];
+        if (value !== undefined && allowed.includes(scope)) {
+            return { value: value as LayeredSettings[K], source: scope };
+        }
+    }
+    return { value: SETTING_DEFAULTS[key], source: null };
+}
+
+export function resolveSettings(layers: SettingLayers): ResolvedSettings {
+    const keys = Object.keys(SETTING_DEFAULTS) as SettingKey[];
+    return Object.fromEntries(keys.map(key => [key, resolveSetting(layers, key)])) as ResolvedSettings;
+}
+
+/** Copy of `layer` without `key`, so the scope inherits it again. */
+export function withoutSetting(layer: SettingLayer, key: SettingKey): SettingLayer {
+    const { [key]: _removed, ...rest } = layer;
+    return rest;
+}
@@ -0,0 +1,88 @@
+import type { ReviewJob } from '../api/models';
+import { t } from '../common/i18n';
+
+/** Reviews submitted at the same time; keeps the backend and ADO from being flooded. */
+export const BULK_CONCURRENCY = 3;
+
+export type BulkItemState = 'queued' | 'submitting' | 'submitted' | 'failed';
+
+export interface BulkItem {
+    pullRequestId: number;
+    title: string;
+    state: BulkItemState;
+    jobId?: string;
+    error?: string;
+}
+
+/** Runs `worker` for every item, with at most `limit` workers in flight at once. */
+export async function runQueue<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    async function lane(): Promise<void> {
+        while (next < items.length) await worker(items[next++]);
+    }
+    await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, lane));
+}
+
+/**
+ * Submits a review for every item through a concurrency-limited queue. Item states are
+ * updated in place and `onUpdate` fires after each change; failures never abort the batch.
+ */
+export async function submitBulkReviews(
+    items: BulkItem[],
+    submit: (pullRequestId: number) => Promise<ReviewJob>,
+    onUpdate: () => void,
+    limit = BULK_CONCURRENCY,
+): Promise<BulkItem[]> {
+    await runQueue(items, limit, async (item) => {
+        item.state = 'submitting';
+        onUpdate();
+        try {
+            item.jobId = (await submit(item.pullRequestId)).jobId;
+            item.state = 'submitted';
+        } catch (err) {
+            item.error = (err as Error).message;
+            item.state = 'failed';
+        }
+        onUpdate();
+    });
+    return items;
+}
+
+/** Per-PR progress list; once no item is queued or submitting, a success/failure report is added. */
+export function renderBulkProgress(container: HTMLElement, items: BulkItem[]): void {
+    container.innerHTML = '';
+
+    const list = document.createElement('ul');
+    list.className = 'bulk-progress-list';
+    for (const item of items) {
+        const li = document.createElement('li');
+        li.setAttribute('data-pr-id', String(item.pullRequestId));
+        li.setAttribute('data-state', item.state);
+
+        const name = document.createElement('span');
+        name.className = 'bulk-progress-pr';
+        name.textContent = t('common.prTitle', { id: item.pullRequestId, title: item.title });
+
+        const state = document.createElement('span');
+        state.className = 'bulk-progress-state';
+        state.textContent = item.state === 'failed' && item.error
+            ? t('bulk.failedWithReason', { error: item.error })
+            : t(`bulk.${item.state}`);
+
+        li.append(name, state);
+        list.appendChild(li);
+    }
+    container.appendChild(list);
+
+    if (items.some(i => i.state === 'queued' || i.state === 'submitting')) return;
+
+    const submitted = items.filter(i => i.state === 'submitted').length;
+    const failed = items.length - submitted;
+    const report = document.createElement('p');
+    report.className = 'bulk-report';
+    report.setAttribute('data-outcome', failed ? 'partial' : 'success');
+    report.textContent = failed
+        ? t('bulk.reportPartial', { submitted, total: items.length, failed })
+        : t('bulk.reportSuccess', { total: items.length });
+    container.appendChild(report);
+}
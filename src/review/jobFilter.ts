@@ -0,0 +1,131 @@
+import type { ReviewJobStatus, ReviewListItem } from '../api/models';
+import { t } from '../common/i18n';
+import { prGroupKey } from './reviewGroups';
+
+/** Criteria for the jobs overview; all given criteria must match. */
+export interface JobFilter {
+    /** Any of these statuses; empty = any status. */
+    statuses: ReviewJobStatus[];
+    /** Case-insensitive fragments of the repository name (or ID); any may match. */
+    repositories: string[];
+    /** Inclusive bounds on `submittedAt`. */
+    since: Date | null;
+    until: Date | null;
+    /** Only PRs with at least one failed job in their history. */
+    hasFailedIterations: boolean;
+    /** Free-text terms matched against the PR number and repository name; all must match. */
+    text: string[];
+}
+
+export interface ParsedJobQuery {
+    filter: JobFilter;
+    /** Human-readable problems with individual terms; those terms are ignored. */
+    errors: string[];
+}
+
+const STATUSES: ReviewJobStatus[] = ['pending', 'processing', 'completed', 'failed'];
+
+const UNIT_MS: Record<string, number> = {
+    m: 60_000,
+    h: 3_600_000,
+    d: 86_400_000,
+    w: 604_800_000,
+};
+
+export function emptyJobFilter(): JobFilter {
+    return { statuses: [], repositories: [], since: null, until: null, hasFailedIterations: false, text: [] };
+}
+
+export function isEmptyJobFilter(filter: JobFilter): boolean {
+    return !filter.statuses.length && !filter.repositories.length && !filter.since && !filter.until
+        && !filter.hasFailedIterations && !filter.text.length;
+}
+
+/**
+ * Parses a relative age (`30m`, `12h`, `7d`, `2w`) or a calendar date (`2026-03-01`).
+ * Calendar dates are local days; `endOfDay` moves them to the last millisecond of that day.
+ */
+function parseDate(value: string, now: Date, endOfDay: boolean): Date | null {
+    const relative = value.match(/^(\d+)([mhdw])$/i);
+    if (relative) return new Date(now.getTime() - Number(relative[1]) * UNIT_MS[relative[2].toLowerCase()]);
+
+    const calendar = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!calendar) return null;
+    const date = new Date(Number(calendar[1]), Number(calendar[2]) - 1, Number(calendar[3]));
+    if (isNaN(date.getTime())) return null;
+    if (endOfDay) date.setHours(23, 59, 59, 999);
+    return date;
+}
+
+/**
+ * Parses the jobs filter syntax: `status:failed` (comma-separated for several),
+ * `repo:api`, `since:7d`, `until:2026-03-31`, `has:failed`. Values may be quoted
+ * (`repo:"my repo"`); everything else is free text.
+ */
+export function parseJobQuery(query: string, now: Date = new Date()): ParsedJobQuery {
+    const filter = emptyJobFilter();
+    const errors: string[] = [];
+    const tokens = query.match(/[a-z]+:"[^"]*"|"[^"]*"|\S+/gi) ?? [];
+
+    for (const token of tokens) {
+        const field = token.match(/^([a-z]+):(.*)$/i);
+        const key = field?.[1].toLowerCase();
+        const value = (field ? field[2] : token).replace(/^"(.*)"$/, '$1');
+
+        switch (key) {
+            case 'status':
+                for (const status of value.toLowerCase().split(',').filter(Boolean)) {
+                    if (STATUSES.includes(status as ReviewJobStatus)) filter.statuses.push(status as ReviewJobStatus);
+                    else errors.push(t('jobs.filter.unknownStatus', { status, allowed: STATUSES.join(', ') }));
+                }
+                break;
+            case 'repo':
+                if (value) filter.repositories.push(value.toLowerCase());
+                break;
+            case 'since':
+            case 'until': {
+                const date = parseDate(value, now, key === 'until');
+                if (date) filter[key] = date;
+                else errors.push(t('jobs.filter.invalidDate', { value, key }));
+                break;
+            }
+            case 'has':
+                if (value.toLowerCase() === 'failed') filter.hasFailedIterations = true;
+                else errors.push(t('jobs.filter.unknownHas', { value }));
+                break;
+            default:
+                if (value) filter.text.push(value.toLowerCase());
+        }
+    }
+    return { filter, errors };
+}
+
+/** Jobs matching every criterion of `filter`; `has:failed` looks at each PR's full job history. */
+export function filterJobs(
+    jobs: ReviewListItem[],
+    filter: JobFilter,
+    repoNameMap: Map<string, string>,
+): ReviewListItem[] {
+    const failedPrs = filter.hasFailedIterations
+        ? new Set(jobs.filter(j => j.status === 'failed').map(prGroupKey))
+        : null;
+
+    return jobs.filter(job => {
+        if (filter.statuses.length && !filter.statuses.includes(job.status)) return false;
+
+        const repoName = (repoNameMap.get(job.repositoryId) ?? job.repositoryId).toLowerCase();
+        if (filter.repositories.length && !filter.repositories.some(r =>
+            repoName.includes(r) || job.repositoryId.toLowerCase() === r)) return false;
+
+        const submitted = new Date(job.submittedAt).getTime();
+        if (filter.since && submitted < filter.since.getTime()) return false;
+        if (filter.until && submitted > filter.until.getTime()) return false;
+
+        if (failedPrs && !failedPrs.has(prGroupKey(job))) return false;
+
+        return filter.text.every(term => {
+            const prTerm = term.replace(/^#/, '');
+            return (prTerm !== '' && String(job.pullRequestId).includes(prTerm)) || repoName.includes(term);
+        });
+    });
+}
@@ -0,0 +1,100 @@
+export interface JobsPollerOptions {
+    /** Interval while at least one job is pending or processing. */
+    activeIntervalMs: number;
+    /** First interval once nothing is in flight; doubles on every idle poll. */
+    idleIntervalMs: number;
+    /** Upper bound of the idle back-off. */
+    maxIdleIntervalMs: number;
+}
+
+export interface JobsPoller {
+    start(): Promise<void>;
+    /** Polls now and resets the back-off, e.g. after a submission. */
+    poke(): Promise<void>;
+    stop(): void;
+}
+
+export const DEFAULT_POLLER_OPTIONS: JobsPollerOptions = {
+    activeIntervalMs:  5_000,
+    idleIntervalMs:    15_000,
+    maxIdleIntervalMs: 120_000,
+};
+
+/**
+ * Schedules `poll` adaptively: `poll` resolves to `true` while jobs are in flight.
+ * Polling pauses while the document is hidden and resumes immediately when it becomes
+ * visible again or the window regains focus.
+ */
+export function createJobsPoller(
+    poll: () => Promise<boolean>,
+    options: JobsPollerOptions = DEFAULT_POLLER_OPTIONS,
+    doc: Document = document,
+): JobsPoller {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let idleInterval = options.idleIntervalMs;
+    let running: Promise<void> | null = null;
+    let stopped = true;
+
+    function clearTimer(): void {
+        if (timer !== null) clearTimeout(timer);
+        timer = null;
+    }
+
+    function schedule(delay: number): void {
+        clearTimer();
+        if (stopped || doc.hidden) return; // resumed by the visibility/focus listeners
+        timer = setTimeout(() => void tick(), delay);
+    }
+
+    function tick(): Promise<void> {
+        // Never run two polls at once; a poke during a poll joins the running one
+        if (running) return running;
+        clearTimer();
+        running = (async () => {
+            let busy = false;
+            try {
+                busy = await poll();
+            } catch {
+                // A failed poll counts as idle so an unreachable backend is not hammered
+            }
+            if (busy) {
+                idleInterval = options.idleIntervalMs;
+                schedule(options.activeIntervalMs);
+            } else {
+                schedule(idleInterval);
+                idleInterval = Math.min(idleInterval * 2, options.maxIdleIntervalMs);
+            }
+        })().finally(() => { running = null; });
+        return running;
+    }
+
+    function poke(): Promise<void> {
+        idleInterval = options.idleIntervalMs;
+        return running ? running.then(tick) : tick();
+    }
+
+    function onVisibilityChange(): void {
+        if (doc.hidden) clearTimer();
+        else void poke();
+    }
+
+    function onFocus(): void {
+        if (!doc.hidden) void poke();
+    }
+
+    function start(): Promise<void> {
+        stopped = false;
+        doc.addEventListener('visibilitychange', onVisibilityChange);
+        doc.defaultView?.addEventListener('focus', onFocus);
+        return tick();
+    }
+
+    function stop(): void {
+        stopped = true;
+        clearTimer();
+        doc.removeEventListener('visibilitychange', onVisibilityChange);
+        doc.defaultView?.removeEventListener('focus', onFocus);
+    }
+
+    return { start, poke, stop };
+}
@@ -0,0 +1,69 @@
+import * as SDK from 'azure-devops-extension-sdk';
+import { CommonServiceIds, IGlobalMessagesService, IHostNavigationService } from 'azure-devops-extension-api';
+import { setLocale, t } from '../common/i18n';
+import { loadReviewContext, requestReview } from './reviewContext';
+
+/** Must match `registeredObjectId` of the `request-review-action` contribution in vss-extension.json. */
+const ACTION_OBJECT_ID = 'request-ai-review-action';
+const TOAST_DURATION_MS = 8_000;
+
+/**
+ * Action context passed by the PR page menu (`{ pullRequest }`) and the PR list row
+ * menu (the pull request itself). Only the fields used here are declared.
+ */
+interface PullRequestActionContext {
+    pullRequest?: PullRequestActionContext;
+    pullRequestId?: number;
+    repository?: { id?: string };
+}
+
+function getActionTarget(
+    actionContext: PullRequestActionContext | undefined,
+): { repositoryId: string; pullRequestId: number } | null {
+    const pr = actionContext?.pullRequest ?? actionContext;
+    const repositoryId = pr?.repository?.id;
+    const pullRequestId = pr?.pullRequestId;
+    if (!repositoryId || !pullRequestId) return null;
+    return { repositoryId, pullRequestId };
+}
+
+function reviewHubUrl(orgUrl: string): string {
+    const projectName = SDK.getPageContext().webContext.project.name;
+    return `${orgUrl}${encodeURIComponent(projectName)}/_apps/hub/${SDK.getExtensionContext().id}.review-hub`;
+}
+
+async function execute(actionContext: PullRequestActionContext): Promise<void> {
+    const messages = await SDK.getService<IGlobalMessagesService>(CommonServiceIds.GlobalMessagesService);
+    const toast = (message: string, hubUrl?: string) => messages.addToast({
+        message,
+        duration: TOAST_DURATION_MS,
+        ...(hubUrl && {
+            callToAction: t('prAction.openHub'),
+            onCallToActionClick: async () => {
+                const navService = await SDK.getService<IHostNavigationService>(CommonServiceIds.HostNavigationService);
+                navService.navigate(hubUrl);
+            },
+        }),
+    });
+
+    const target = getActionTarget(actionContext);
+    if (!target) {
+        toast(t('prAction.noPullRequest'));
+        return;
+    }
+
+    try {
+        const context = await loadReviewContext();
+        if (!context) {
+            toast(t('prAction.notConfigured'));
+            return;
+        }
+        const job = await requestReview(context, target.repositoryId, target.pullRequestId);
+        toast(t('prAction.requested', { id: target.pullRequestId, jobId: job.jobId }), reviewHubUrl(context.orgUrl));
+    } catch (err) {
+        toast(t('prAction.failed', { error: (err as Error).message }));
+    }
+}
+
+SDK.register(ACTION_OBJECT_ID, () => ({ execute }));
+SDK.init().then(() => setLocale(SDK.getPageContext().globalization?.culture));
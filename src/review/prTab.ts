@@ -0,0 +1,79 @@
+import * as SDK from 'azure-devops-extension-sdk';
+import { CommonServiceIds, IHostNavigationService } from 'azure-devops-extension-api';
+import { GitServiceIds, IVersionControlRepositoryService } from 'azure-devops-extension-api/Git';
+import { localizeDocument, setLocale, t } from '../common/i18n';
+import { initReviewPanel, el } from './reviewPanel';
+import './review.css';
+
+interface PullRequestContext {
+    repositoryId: string;
+    repositoryName: string;
+    pullRequestId: number;
+    /** Iteration selected in the PR page URL (`?iteration=`), preselected in the iteration selector. */
+    iterationId: number | null;
+}
+
+/** Reads the repository, pull request and iteration of the PR page hosting this tab. */
+async function getPullRequestContext(): Promise<PullRequestContext> {
+    const [repoService, navService] = await Promise.all([
+        SDK.getService<IVersionControlRepositoryService>(GitServiceIds.VersionControlRepositoryService),
+        SDK.getService<IHostNavigationService>(CommonServiceIds.HostNavigationService),
+    ]);
+    const [repository, route, queryParams] = await Promise.all([
+        repoService.getCurrentGitRepository(),
+        navService.getPageRoute(),
+        navService.getQueryParams(),
+    ]);
+
+    // The PR details route carries the pull request ID in its `parameters` value
+    const pullRequestId = parseInt(route.routeValues['parameters'] ?? '', 10);
+    if (!repository?.id || !pullRequestId) {
+        throw new Error(t('prTab.noPullRequest'));
+    }
+
+    const iterationId = parseInt(queryParams['iteration'] ?? '', 10);
+    return {
+        repositoryId:   repository.id,
+        repositoryName: repository.name ?? repository.id,
+        pullRequestId,
+        iterationId:    iterationId > 0 ? iterationId : null,
+    };
+}
+
+async function main(): Promise<void> {
+    await SDK.init({ loaded: false });
+    setLocale(SDK.getPageContext().globalization?.culture);
+    localizeDocument();
+
+    const prContextText = el<HTMLParagraphElement>('pr-context');
+    const reviewBtn     = el<HTMLButtonElement>('review-btn');
+
+    let pr: PullRequestContext;
+    try {
+        pr = await getPullRequestContext();
+    } catch (err) {
+        const errorDiv = el<HTMLDivElement>('error-message');
+        errorDiv.textContent = (err as Error).message;
+        errorDiv.style.display = '';
+        reviewBtn.disabled = true;
+        SDK.notifyLoadSucceeded();
+        return;
+    }
+
+    const panel = await initReviewPanel({
+        pullRequest: { repositoryId: pr.repositoryId, pullRequestId: pr.pullRequestId },
+    });
+    if (!panel) {
+        SDK.notifyLoadSucceeded();
+        return;
+    }
+
+    prContextText.textContent = t('prTab.context', { id: pr.pullRequestId, repo: pr.repositoryName });
+    await panel.selectPullRequest(pr.repositoryId, pr.pullRequestId, pr.iterationId);
+
+    reviewBtn.addEventListener('click', () => panel.submit(pr.repositoryId, pr.pullRequestId));
+
+    SDK.notifyLoadSucceeded();
+}
+
+main();
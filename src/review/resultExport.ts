@@ -0,0 +1,125 @@
+import type { ReviewComment, ReviewStatusResponse } from '../api/models';
+import { toSarif } from './sarif';
+
+export type ExportFormat = 'markdown' | 'csv' | 'json' | 'sarif';
+
+export interface ExportedFile {
+    fileName: string;
+    mimeType: string;
+    content: string;
+}
+
+const SEVERITY_LABELS: Record<ReviewComment['severity'], string> = {
+    error:      'Error',
+    warning:    'Warning',
+    suggestion: 'Suggestion',
+    info:       'Info',
+};
+
+function iterationLabel(review: ReviewStatusResponse): string {
+    return review.baseIterationId != null
+        ? `iterations ${review.baseIterationId}–${review.iterationId}`
+        : `iteration ${review.iterationId}`;
+}
+
+function byLine(a: ReviewComment, b: ReviewComment): number {
+    return (a.lineNumber ?? 0) - (b.lineNumber ?? 0);
+}
+
+/** GitHub-flavoured Markdown: summary first, then comments grouped by file (general comments last). */
+export function toMarkdown(review: ReviewStatusResponse, repoName = review.repositoryId): string {
+    const comments = review.result?.comments ?? [];
+    const lines = [
+        `# AI review — PR #${review.pullRequestId}`,
+        '',
+        `Repository: ${repoName} · ${iterationLabel(review)}` +
+            (review.completedAt ? ` · completed ${review.completedAt}` : ''),
+        '',
+        '## Summary',
+        '',
+        review.result?.summary ?? '',
+        '',
+        `## Comments (${comments.length})`,
+    ];
+
+    const byFile = new Map<string, ReviewComment[]>();
+    for (const comment of comments) {
+        if (!comment.filePath) continue;
+        byFile.set(comment.filePath, [...(byFile.get(comment.filePath) ?? []), comment]);
+    }
+    const general = comments.filter(c => !c.filePath);
+
+    for (const filePath of [...byFile.keys()].sort()) {
+        lines.push('', `### \`${filePath}\``, '');
+        for (const c of byFile.get(filePath)!.sort(byLine)) {
+            const where = c.lineNumber != null ? ` (line ${c.lineNumber})` : '';
+            lines.push(`- **${SEVERITY_LABELS[c.severity] ?? c.severity}**${where}: ${c.message}`);
+        }
+    }
+    if (general.length) {
+        lines.push('', '### General', '');
+        for (const c of general) {
+            lines.push(`- **${SEVERITY_LABELS[c.severity] ?? c.severity}**: ${c.message}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+/** Quotes where needed; cells that spreadsheets would read as a formula get a leading `'`. */
+function csvField(value: string): string {
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with one row per comment. */
+export function toCsv(review: ReviewStatusResponse): string {
+    const rows = [['File', 'Line', 'Severity', 'Message']];
+    for (const c of review.result?.comments ?? []) {
+        rows.push([
+            c.filePath ?? '',
+            c.lineNumber != null ? String(c.lineNumber) : '',
+            c.severity,
+            c.message,
+        ]);
+    }
+    return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/** The raw review result together with the job metadata it belongs to. */
+export function toJson(review: ReviewStatusResponse): string {
+    const document = {
+        jobId:           review.jobId,
+        status:          review.status,
+        organizationUrl: review.organizationUrl,
+        projectId:       review.projectId,
+        repositoryId:    review.repositoryId,
+        pullRequestId:   review.pullRequestId,
+        iterationId:     review.iterationId,
+        baseIterationId: review.baseIterationId ?? null,
+        submittedAt:     review.submittedAt,
+        completedAt:     review.completedAt,
+        result:          review.result ?? null,
+    };
+    return JSON.stringify(document, null, 2) + '\n';
+}
+
+export function exportReview(review: ReviewStatusResponse, format: ExportFormat, repoName?: string): ExportedFile {
+    const iterations = review.baseIterationId != null
+        ? `${review.baseIterationId}-${review.iterationId}`
+        : String(review.iterationId);
+    const baseName = `review-pr${review.pullRequestId}-iteration${iterations}`;
+    switch (format) {
+        case 'markdown':
+            return { fileName: `${baseName}.md`, mimeType: 'text/markdown', content: toMarkdown(review, repoName) };
+        case 'csv':
+            return { fileName: `${baseName}.csv`, mimeType: 'text/csv', content: toCsv(review) };
+        case 'json':
+            return { fileName: `${baseName}.json`, mimeType: 'application/json', content: toJson(review) };
+        case 'sarif':
+            return {
+                fileName: `${baseName}.sarif`,
+                mimeType: 'application/sarif+json',
+                content:  JSON.stringify(toSarif(review), null, 2) + '\n',
+            };
+    }
+}
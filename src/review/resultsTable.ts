@@ -0,0 +1,187 @@
+import type { ReviewComment } from '../api/models';
+import { t, tn } from '../common/i18n';
+
+export type Severity = ReviewComment['severity'];
+export type SortKey = 'file' | 'line' | 'severity' | 'message';
+
+/** Most severe first; also the order of the severity chips. */
+export const SEVERITY_ORDER: Severity[] = ['error', 'warning', 'suggestion', 'info'];
+
+export function severityLabel(severity: Severity): string {
+    return SEVERITY_ORDER.includes(severity) ? t(`severity.${severity}`) : severity;
+}
+
+/** View options of the results table; kept by the panel across reviews and refreshes. */
+export interface ResultsViewState {
+    hiddenSeverities: Set<Severity>;
+    /** `null` keeps the backend order. */
+    sort: { key: SortKey; descending: boolean } | null;
+    groupByFile: boolean;
+    /** File groups (see `fileGroupKey`) the user has collapsed. */
+    collapsedFiles: Set<string>;
+}
+
+export function createResultsViewState(): ResultsViewState {
+    return { hiddenSeverities: new Set(), sort: null, groupByFile: false, collapsedFiles: new Set() };
+}
+
+export interface FileGroup {
+    /** File path, or `null` for general comments. */
+    filePath: string | null;
+    comments: ReviewComment[];
+}
+
+export function fileGroupKey(filePath: string | null | undefined): string {
+    return filePath ?? '';
+}
+
+export function countBySeverity(comments: ReviewComment[]): Record<Severity, number> {
+    const counts: Record<Severity, number> = { error: 0, warning: 0, suggestion: 0, info: 0 };
+    for (const c of comments) {
+        if (c.severity in counts) counts[c.severity]++;
+    }
+    return counts;
+}
+
+function severityRank(severity: Severity): number {
+    const rank = SEVERITY_ORDER.indexOf(severity);
+    return rank === -1 ? SEVERITY_ORDER.length : rank;
+}
+
+const COMPARATORS: Record<SortKey, (a: ReviewComment, b: ReviewComment) => number> = {
+    file:     (a, b) => (a.filePath ?? '').localeCompare(b.filePath ?? '') || (a.lineNumber ?? 0) - (b.lineNumber ?? 0),
+    line:     (a, b) => (a.lineNumber ?? 0) - (b.lineNumber ?? 0),
+    severity: (a, b) => severityRank(a.severity) - severityRank(b.severity),
+    message:  (a, b) => a.message.localeCompare(b.message),
+};
+
+/** Stable sort; ties keep the backend order. Ascending severity means most severe first. */
+export function sortComments(comments: ReviewComment[], sort: ResultsViewState['sort']): ReviewComment[] {
+    if (!sort) return [...comments];
+    const compare = COMPARATORS[sort.key];
+    const direction = sort.descending ? -1 : 1;
+    return comments
+        .map((comment, index) => ({ comment, index }))
+        .sort((a, b) => direction * compare(a.comment, b.comment) || a.index - b.index)
+        .map(entry => entry.comment);
+}
+
+/** Groups comments by file, ordered by path; general comments form the last group. */
+export function groupCommentsByFile(comments: ReviewComment[]): FileGroup[] {
+    const byFile = new Map<string, ReviewComment[]>();
+    const general: ReviewComment[] = [];
+    for (const comment of comments) {
+        if (!comment.filePath) {
+            general.push(comment);
+            continue;
+        }
+        byFile.set(comment.filePath, [...(byFile.get(comment.filePath) ?? []), comment]);
+    }
+    const groups: FileGroup[] = [...byFile.keys()].sort()
+        .map(filePath => ({ filePath, comments: byFile.get(filePath)! }));
+    if (general.length) groups.push({ filePath: null, comments: general });
+    return groups;
+}
+
+function severityTally(comments: ReviewComment[]): HTMLSpanElement {
+    const tally = document.createElement('span');
+    tally.className = 'severity-tally';
+    const counts = countBySeverity(comments);
+    for (const severity of SEVERITY_ORDER) {
+        if (!counts[severity]) continue;
+        const span = document.createElement('span');
+        span.setAttribute('data-severity', severity);
+        span.textContent = tn(`severity.tally.${severity}`, counts[severity]);
+        tally.appendChild(span);
+    }
+    return tally;
+}
+
+/** Toggle chips, one per severity, with the number of comments of that severity. */
+export function renderSeverityChips(
+    container: HTMLElement,
+    comments: ReviewComment[],
+    state: ResultsViewState,
+    onChange: () => void,
+): void {
+    container.innerHTML = '';
+    const counts = countBySeverity(comments);
+    for (const severity of SEVERITY_ORDER) {
+        const chip = document.createElement('button');
+        chip.className = 'severity-chip';
+        chip.setAttribute('data-severity', severity);
+        chip.setAttribute('aria-pressed', String(!state.hiddenSeverities.has(severity)));
+        chip.disabled = counts[severity] === 0;
+        chip.textContent = `${severityLabel(severity)} ${counts[severity]}`;
+        chip.addEventListener('click', () => {
+            if (state.hiddenSeverities.has(severity)) state.hiddenSeverities.delete(severity);
+            else state.hiddenSeverities.add(severity);
+            onChange();
+        });
+        container.appendChild(chip);
+    }
+}
+
+/**
+ * Renders the comment rows into `tbody`, sorted and optionally grouped by file.
+ * Rows come from `renderRow`; severity filtering reads their `data-severity` attribute.
+ */
+export function renderResultsTable(
+    tbody: HTMLTableSectionElement,
+    comments: ReviewComment[],
+    state: ResultsViewState,
+    renderRow: (comment: ReviewComment) => HTMLTableRowElement,
+    onChange: () => void,
+): void {
+    tbody.innerHTML = '';
+
+    const appendRows = (list: ReviewComment[], collapsed: boolean): HTMLTableRowElement[] =>
+        sortComments(list, state.sort).map(comment => {
+            const tr = renderRow(comment);
+            const filtered = state.hiddenSeverities.has(tr.getAttribute('data-severity') as Severity);
+            if (filtered || collapsed) tr.style.display = 'none';
+            tbody.appendChild(tr);
+            return tr;
+        });
+
+    if (!state.groupByFile) {
+        appendRows(comments, false);
+        return;
+    }
+
+    for (const group of groupCommentsByFile(comments)) {
+        const key = fileGroupKey(group.filePath);
+        const collapsed = state.collapsedFiles.has(key);
+
+        const headerRow = document.createElement('tr');
+        headerRow.className = 'file-group-row';
+        const td = document.createElement('td');
+        td.colSpan = 4;
+
+        const toggle = document.createElement('button');
+        toggle.className = 'btn-link file-group-toggle';
+        toggle.setAttribute('aria-expanded', String(!collapsed));
+        toggle.textContent = `${collapsed ? '▶' : '▼'} ${group.filePath ?? t('common.generalComment')} (${group.comments.length})`;
+        toggle.addEventListener('click', () => {
+            if (state.collapsedFiles.has(key)) state.collapsedFiles.delete(key);
+            else state.collapsedFiles.add(key);
+            onChange();
+        });
+
+        td.append(toggle, severityTally(group.comments));
+        headerRow.appendChild(td);
+        tbody.appendChild(headerRow);
+
+        appendRows(group.comments, collapsed);
+        // Hide files whose comments are all filtered out
+        if (group.comments.every(c => state.hiddenSeverities.has(c.severity))) headerRow.style.display = 'none';
+    }
+}
+
+/** Reflects the current sort on the `th[data-sort-key]` headers via `aria-sort`. */
+export function renderSortHeaders(thead: HTMLTableSectionElement, sort: ResultsViewState['sort']): void {
+    for (const th of Array.from(thead.querySelectorAll<HTMLElement>('th[data-sort-key]'))) {
+        const active = sort?.key === th.getAttribute('data-sort-key');
+        th.setAttribute('aria-sort', active ? (sort!.descending ? 'descending' : 'ascending') : 'none');
+    }
+}
@@ -1,120 +1,91 @@
 import * as SDK from 'azure-devops-extension-sdk';
-import { getClient } from 'azure-devops-extension-api';
-import { GitRestClient, GitPullRequestSearchCriteria, PullRequestStatus } from 'azure-devops-extension-api/Git';
-import { loadSettings } from '../common/extensionSettings';
-import { submitReview, getReviewStatus, listReviews } from '../api/reviewClient';
-import type { ReviewComment, ReviewRequest } from '../api/models';
-import { renderJobsGroups, formatTime } from './reviewGroups';
+import { GitPullRequestSearchCriteria, PullRequestStatus } from 'azure-devops-extension-api/Git';
+import { loadProfiles, saveActiveProfileName } from '../common/extensionSettings';
+import { localizeDocument, setLocale, t, tn } from '../common/i18n';
+import { initReviewPanel, el, show, hide } from './reviewPanel';
+import { requestReview } from './reviewContext';
+import { BulkItem, renderBulkProgress, submitBulkReviews } from './bulkReview';
 import './review.css';
 
-function el<T extends HTMLElement>(id: string): T {
-    return document.getElementById(id) as T;
-}
-function show(element: HTMLElement): void { element.style.display = ''; }
-function hide(element: HTMLElement): void { element.style.display = 'none'; }
-
-function severityLabel(severity: ReviewComment['severity']): string {
-    const map: Record<ReviewComment['severity'], string> = {
-        info:       'Info',
-        warning:    'Warning',
-        error:      'Error',
-        suggestion: 'Suggestion',
-    };
-    return map[severity] ?? severity;
+interface PrItem {
+    pullRequestId: number;
+    title: string;
 }
 
-function renderCommentRow(comment: ReviewComment): HTMLTableRowElement {
-    const tr = document.createElement('tr');
-    tr.setAttribute('data-severity', comment.severity);
-    const cells = [
-        comment.filePath   ?? '(general)',
-        comment.lineNumber != null ? String(comment.lineNumber) : '—',
-        severityLabel(comment.severity),
-        comment.message,
-    ];
-    for (const text of cells) {
-        const td = document.createElement('td');
-        td.textContent = text;
-        tr.appendChild(td);
+/**
+ * Lets the user switch the project's active backend profile. The panel is bound to the backend
+ * it was built with, so a switch reloads the page.
+ */
+async function initProfileSwitcher(projectId: string, activeName: string, showError: (message: string) => void): Promise<void> {
+    const switcher      = el<HTMLDivElement>('profile-switcher');
+    const profileSelect = el<HTMLSelectElement>('profile-select');
+
+    const profiles = await loadProfiles();
+    if (profiles.length < 2) return;
+    for (const profile of profiles) {
+        const opt = document.createElement('option');
+        opt.value = profile.name;
+        opt.textContent = `${profile.name} — ${profile.backendUrl}`;
+        profileSelect.appendChild(opt);
     }
-    return tr;
-}
+    profileSelect.value = activeName;
+    show(switcher);
 
-
-const JOBS_REFRESH_MS = 5_000;
-
-interface PrItem {
-    pullRequestId: number;
-    title: string;
+    profileSelect.addEventListener('change', async () => {
+        profileSelect.disabled = true;
+        try {
+            await saveActiveProfileName(projectId, profileSelect.value);
+            window.location.reload();
+        } catch (err) {
+            profileSelect.value = activeName;
+            profileSelect.disabled = false;
+            showError(t('review.switchProfileFailed', { error: (err as Error).message }));
+        }
+    });
 }
 
 async function main(): Promise<void> {
     await SDK.init({ loaded: false });
+    setLocale(SDK.getPageContext().globalization?.culture);
+    localizeDocument();
 
-    const configWarning  = el<HTMLDivElement>('config-warning');
-    const inputSection   = el<HTMLDivElement>('input-section');
     const repoSelect     = el<HTMLSelectElement>('repo-select');
     const prSearch       = el<HTMLInputElement>('pr-search');
     const prDropdown     = el<HTMLUListElement>('pr-dropdown');
     const reviewBtn      = el<HTMLButtonElement>('review-btn');
-    const loadingDiv     = el<HTMLDivElement>('loading');
-    const resultsSection = el<HTMLDivElement>('results-section');
-    const resultsContext = el<HTMLParagraphElement>('results-context');
-    const reviewSummary  = el<HTMLDivElement>('review-summary');
-    const resultsBody    = el<HTMLTableSectionElement>('results-body');
-    const errorDiv       = el<HTMLDivElement>('error-message');
-    const jobsSection    = el<HTMLDivElement>('jobs-section');
-    const jobsGroups     = el<HTMLDivElement>('jobs-groups');
-    const prFilter       = el<HTMLInputElement>('pr-filter');
-
-    const settings = await loadSettings();
-    const { backendUrl, clientKey } = settings;
-
-    if (!backendUrl || !clientKey) {
-        show(configWarning);
-        hide(inputSection);
+    const bulkSelectionBar = el<HTMLDivElement>('bulk-selection');
+    const bulkSelectionCount = el<HTMLSpanElement>('bulk-selection-count');
+    const bulkClearBtn   = el<HTMLButtonElement>('bulk-clear-btn');
+    const bulkProgress   = el<HTMLDivElement>('bulk-progress');
+
+    const panel = await initReviewPanel();
+    if (!panel) {
         SDK.notifyLoadSucceeded();
         return;
     }
-
-    // --- ADO context ---
-    const pageContext = SDK.getPageContext();
-    const orgName     = SDK.getHost().name;
-    const orgUrl      = `https://dev.azure.com/${orgName}/`;
-    const projectId   = pageContext.webContext.project.id;
-    const gitClient   = getClient(GitRestClient);
-    const adoToken    = await SDK.getAccessToken();
-
-    // Repo ID → name map (used by the jobs table)
-    const repoNameMap = new Map<string, string>();
+    const { projectId, gitClient, repositories, profileName } = panel.context;
+    await initProfileSwitcher(projectId, profileName, panel.showError);
 
     // --- Populate repository dropdown ---
-    try {
-        const repos = await gitClient.getRepositories(projectId);
-        for (const repo of repos ?? []) {
-            if (!repo.id || !repo.name) continue;
-            repoNameMap.set(repo.id, repo.name);
-            const opt = document.createElement('option');
-            opt.value    = repo.id;
-            opt.textContent = repo.name;
-            repoSelect.appendChild(opt);
-        }
-        if (repos?.length === 1 && repos[0].id) {
-            repoSelect.value = repos[0].id;
-            prSearch.disabled     = false;
-            prSearch.placeholder  = 'Type to search pull requests…';
-        }
-    } catch {
-        // Repo list is informational; continue without it
+    for (const repo of repositories) {
+        if (!repo.id || !repo.name) continue;
+        const opt = document.createElement('option');
+        opt.value    = repo.id;
+        opt.textContent = repo.name;
+        repoSelect.appendChild(opt);
+    }
+    if (repositories.length === 1 && repositories[0].id) {
+        repoSelect.value = repositories[0].id;
+        prSearch.disabled     = false;
+        prSearch.placeholder  = t('picker.searchPlaceholder');
     }
-
-    const expandedGroups = new Set<string>();
-    let lastJobList: import('../api/models').ReviewListItem[] = [];
 
     let selectedPrId: number | null = null;
     let prCache: PrItem[] | null    = null;
     let prCacheRepoId: string | null = null;
     let dropdownFocusIndex = -1;
+    // PRs ticked for bulk review (ID → title); takes precedence over the single selection
+    const bulkSelection = new Map<number, string>();
     let prSearchDebounce: ReturnType<typeof setTimeout> | undefined;
 
     function getDropdownItems(): HTMLElement[] {
@@ -132,42 +103,86 @@ async function main(): Promise<void> {
         }
     }
 
+    function renderBulkSelection(): void {
+        const count = bulkSelection.size;
+        bulkSelectionCount.textContent = tn('picker.selected', count);
+        if (count) show(bulkSelectionBar); else hide(bulkSelectionBar);
+        reviewBtn.textContent = count ? tn('picker.reviewSelected', count) : t('review.submitButton');
+        for (const checkbox of Array.from(prDropdown.querySelectorAll<HTMLInputElement>('input[data-pr-id]'))) {
+            checkbox.checked = bulkSelection.has(Number(checkbox.getAttribute('data-pr-id')));
+        }
+    }
+
+    function toggleBulk(pr: PrItem): void {
+        if (bulkSelection.has(pr.pullRequestId)) bulkSelection.delete(pr.pullRequestId);
+        else bulkSelection.set(pr.pullRequestId, pr.title);
+        renderBulkSelection();
+    }
+
+    function clearBulkSelection(): void {
+        bulkSelection.clear();
+        renderBulkSelection();
+    }
+
     function selectPr(prId: number, title: string): void {
         selectedPrId    = prId;
-        prSearch.value  = `#${prId} — ${title}`;
+        prSearch.value  = t('common.prTitle', { id: prId, title });
+        clearBulkSelection();
         closeDropdown();
+        void panel!.selectPullRequest(repoSelect.value, prId);
     }
 
-    function renderDropdownItems(items: PrItem[], isLoading: boolean): void {
+    function renderDropdownStatus(text: string): void {
         prDropdown.innerHTML = '';
         dropdownFocusIndex   = -1;
+        const li = document.createElement('li');
+        li.className   = 'autocomplete-status';
+        li.textContent = text;
+        prDropdown.appendChild(li);
+        openDropdown();
+    }
 
+    function renderDropdownItems(items: PrItem[], isLoading: boolean): void {
         if (isLoading) {
-            const li = document.createElement('li');
-            li.className   = 'autocomplete-status';
-            li.textContent = 'Loading pull requests…';
-            prDropdown.appendChild(li);
-            openDropdown();
+            renderDropdownStatus(t('picker.loading'));
             return;
         }
-
         if (!items.length) {
-            const li = document.createElement('li');
-            li.className   = 'autocomplete-status';
-            li.textContent = 'No matching pull requests';
-            prDropdown.appendChild(li);
-            openDropdown();
+            renderDropdownStatus(t('picker.noMatches'));
             return;
         }
 
+        prDropdown.innerHTML = '';
+        dropdownFocusIndex   = -1;
+
+        // "Select all" always covers every active PR of the repo, not just the filtered ones
+        const selectAll = document.createElement('li');
+        selectAll.className   = 'autocomplete-select-all';
+        selectAll.textContent = t('picker.selectAll', { count: prCache?.length ?? items.length });
+        selectAll.addEventListener('mousedown', (e) => {
+            e.preventDefault();
+            for (const pr of prCache ?? items) bulkSelection.set(pr.pullRequestId, pr.title);
+            renderBulkSelection();
+        });
+        prDropdown.appendChild(selectAll);
+
         for (const pr of items) {
             const li = document.createElement('li');
             li.setAttribute('data-pr-id',    String(pr.pullRequestId));
             li.setAttribute('data-pr-title', pr.title);
-            li.textContent = `#${pr.pullRequestId} — ${pr.title}`;
+
+            // Ticking the checkbox adds the PR to the bulk selection; clicking the label selects it alone
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.tabIndex = -1;
+            checkbox.setAttribute('data-pr-id', String(pr.pullRequestId));
+            checkbox.checked = bulkSelection.has(pr.pullRequestId);
+
+            li.append(checkbox, t('common.prTitle', { id: pr.pullRequestId, title: pr.title }));
             li.addEventListener('mousedown', (e) => {
                 e.preventDefault(); // keep input focused; prevents blur before click
-                selectPr(pr.pullRequestId, pr.title);
+                if (e.target === checkbox) toggleBulk(pr);
+                else selectPr(pr.pullRequestId, pr.title);
             });
             prDropdown.appendChild(li);
         }
@@ -190,12 +205,15 @@ async function main(): Promise<void> {
                     if (pr.pullRequestId != null) {
                         prCache.push({
                             pullRequestId: pr.pullRequestId,
-                            title: pr.title ?? `PR #${pr.pullRequestId}`,
+                            title: pr.title ?? t('picker.untitled', { id: pr.pullRequestId }),
                         });
                     }
                 }
-            } catch {
-                // Empty cache; will show "No matching pull requests"
+            } catch (err) {
+                // Fetched again on the next focus or keystroke
+                prCache = null;
+                renderDropdownStatus(t('picker.loadFailed', { error: (err as Error).message }));
+                return;
             }
         }
 
@@ -214,6 +232,7 @@ async function main(): Promise<void> {
     // Debounced filter on typing
     prSearch.addEventListener('input', () => {
         selectedPrId = null; // typed text ≠ confirmed selection
+        panel.clearPullRequest();
         clearTimeout(prSearchDebounce);
         prSearchDebounce = setTimeout(() => filterAndRender(prSearch.value), 300);
     });
@@ -241,6 +260,15 @@ async function main(): Promise<void> {
                 dropdownFocusIndex = Math.max(dropdownFocusIndex - 1, 0);
                 updateDropdownFocus();
                 break;
+            case ' ':
+                // Space ticks the focused PR for bulk review; otherwise it is typed as usual
+                if (dropdownFocusIndex < 0) break;
+                e.preventDefault();
+                toggleBulk({
+                    pullRequestId: parseInt(items[dropdownFocusIndex].getAttribute('data-pr-id')!, 10),
+                    title:         items[dropdownFocusIndex].getAttribute('data-pr-title') ?? '',
+                });
+                break;
             case 'Enter':
                 e.preventDefault();
                 if (dropdownFocusIndex >= 0) {
@@ -260,113 +288,55 @@ async function main(): Promise<void> {
     // Reset PR state when repo changes
     repoSelect.addEventListener('change', () => {
         selectedPrId = null;
+        panel.clearPullRequest();
+        clearBulkSelection();
         prSearch.value = '';
         closeDropdown();
         prDropdown.innerHTML = '';
         const hasRepo        = !!repoSelect.value;
         prSearch.disabled    = !hasRepo;
-        prSearch.placeholder = hasRepo ? 'Type to search pull requests…' : 'Select a repository first';
+        prSearch.placeholder = t(hasRepo ? 'picker.searchPlaceholder' : 'picker.selectRepoFirst');
     });
 
-    function rerender(): void {
-        renderJobsGroups(jobsGroups, lastJobList, repoNameMap, expandedGroups, prFilter.value);
-    }
+    bulkClearBtn.addEventListener('click', clearBulkSelection);
 
-    async function doRefreshJobs(): Promise<void> {
+    async function submitBulk(repoId: string): Promise<void> {
+        const items: BulkItem[] = [...bulkSelection].map(([pullRequestId, title]) =>
+            ({ pullRequestId, title, state: 'queued' }));
+        reviewBtn.disabled = true;
+        show(bulkProgress);
         try {
-            lastJobList = await listReviews(backendUrl!, clientKey!, adoToken, orgUrl);
-        } catch {
-            // Non-critical — backend may be temporarily unreachable
+            // Each PR is reviewed at its latest iteration; the iteration selectors apply to single reviews only
+            await submitBulkReviews(
+                items,
+                prId => requestReview(panel!.context, repoId, prId),
+                () => renderBulkProgress(bulkProgress, items),
+            );
+        } finally {
+            reviewBtn.disabled = false;
         }
-        rerender();
-    }
-
-    prFilter.addEventListener('input', rerender);
-
-    // View job details via event delegation (buttons are re-created on each refresh)
-    jobsGroups.addEventListener('click', (e) => {
-        const btn = (e.target as HTMLElement).closest<HTMLElement>('[data-job-id]');
-        if (btn) onViewJobDetails(btn.getAttribute('data-job-id')!);
-    });
-
-    async function onViewJobDetails(jobId: string): Promise<void> {
-        try {
-            const response = await getReviewStatus(backendUrl!, clientKey!, adoToken, orgUrl, jobId);
-            hide(errorDiv);
-
-            if (response.status === 'completed' && response.result) {
-                const repoName = repoNameMap.get(response.repositoryId) ?? response.repositoryId;
-                resultsContext.textContent =
-                    `PR #${response.pullRequestId} · ${repoName} · viewed at ${formatTime(new Date().toISOString())}`;
-                reviewSummary.textContent = response.result.summary;
-                resultsBody.innerHTML = '';
-                for (const comment of response.result.comments) {
-                    resultsBody.appendChild(renderCommentRow(comment));
-                }
-                show(resultsSection);
-                resultsSection.scrollIntoView({ behavior: 'smooth', block: 'start' });
-            } else if (response.status === 'failed') {
-                errorDiv.textContent = `Review failed: ${response.error ?? 'Unknown error on the server.'}`;
-                show(errorDiv);
-            }
-        } catch (err) {
-            errorDiv.textContent = `Could not load job details: ${(err as Error).message}`;
-            show(errorDiv);
+        for (const item of items) {
+            if (item.state === 'submitted') bulkSelection.delete(item.pullRequestId);
         }
+        renderBulkSelection();
+        await panel!.refreshJobs();
     }
 
-    // Start continuous background polling immediately
-    await doRefreshJobs();
-    show(jobsSection);
-    setInterval(doRefreshJobs, JOBS_REFRESH_MS);
-
     reviewBtn.addEventListener('click', async () => {
-        hide(errorDiv);
-
         const repoId = repoSelect.value;
         if (!repoId) {
-            errorDiv.textContent = 'Please select a repository.';
-            show(errorDiv);
+            panel.showError(t('picker.selectRepository'));
             return;
         }
-        if (!selectedPrId) {
-            errorDiv.textContent = 'Please select a pull request from the list.';
-            show(errorDiv);
+        if (bulkSelection.size) {
+            await submitBulk(repoId);
             return;
         }
-        const prId = selectedPrId;
-
-        reviewBtn.disabled      = true;
-        loadingDiv.textContent  = 'Submitting review…';
-        show(loadingDiv);
-
-        try {
-            const iterations = await gitClient.getPullRequestIterations(repoId, prId, projectId);
-
-            const latestIteration = iterations?.at(-1);
-            if (!latestIteration?.id) {
-                throw new Error('Could not determine the latest PR iteration.');
-            }
-
-            const request: ReviewRequest = {
-                organizationUrl: orgUrl,
-                projectId,
-                repositoryId:    repoId,
-                pullRequestId:   prId,
-                iterationId:     latestIteration.id,
-            };
-
-            await submitReview(backendUrl!, clientKey!, adoToken, orgUrl, request);
-            // Immediate refresh so the new job appears without waiting for the next tick
-            await doRefreshJobs();
-            jobsSection.scrollIntoView({ behavior: 'smooth', block: 'start' });
-        } catch (err) {
-            errorDiv.textContent = `Failed to submit review: ${(err as Error).message}`;
-            show(errorDiv);
-        } finally {
-            hide(loadingDiv);
-            reviewBtn.disabled = false;
+        if (!selectedPrId) {
+            panel.showError(t('picker.selectPullRequest'));
+            return;
         }
+        await panel.submit(repoId, selectedPrId);
     });
 
     SDK.notifyLoadSucceeded();
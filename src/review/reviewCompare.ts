@@ -0,0 +1,102 @@
+import type { ReviewComment } from '../api/models';
+
+export type FindingStatus = 'new' | 'resolved' | 'persisting';
+
+export interface ComparedFinding {
+    status: FindingStatus;
+    /** The comment from the newer review; for resolved findings, the comment from the older one. */
+    comment: ReviewComment;
+    /** For persisting findings: the matching comment from the older review. */
+    previous?: ReviewComment;
+}
+
+export interface ReviewComparison {
+    findings: ComparedFinding[];
+    counts: Record<FindingStatus, number>;
+}
+
+export interface CompareOptions {
+    /** Maximum line distance for two comments to count as the same finding (code moves between pushes). */
+    lineTolerance?: number;
+    /** Minimum message similarity (0–1) for two comments to count as the same finding. */
+    minSimilarity?: number;
+}
+
+const DEFAULT_LINE_TOLERANCE = 10;
+const DEFAULT_MIN_SIMILARITY = 0.5;
+
+function tokens(message: string): Set<string> {
+    return new Set(message.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(t => t.length > 1));
+}
+
+/** Jaccard similarity of the messages' word sets. */
+export function messageSimilarity(a: string, b: string): number {
+    const ta = tokens(a);
+    const tb = tokens(b);
+    if (!ta.size && !tb.size) return a.trim() === b.trim() ? 1 : 0;
+    let shared = 0;
+    for (const t of ta) if (tb.has(t)) shared++;
+    return shared / (ta.size + tb.size - shared);
+}
+
+/**
+ * Scores how likely two comments describe the same finding; `null` when they cannot match.
+ * Comments must be on the same file (or both general) and on nearby lines.
+ */
+function matchScore(before: ReviewComment, after: ReviewComment, lineTolerance: number, minSimilarity: number): number | null {
+    if ((before.filePath ?? null) !== (after.filePath ?? null)) return null;
+
+    let lineDistance = 0;
+    if (before.lineNumber != null && after.lineNumber != null) {
+        lineDistance = Math.abs(before.lineNumber - after.lineNumber);
+        if (lineDistance > lineTolerance) return null;
+    }
+
+    const similarity = messageSimilarity(before.message, after.message);
+    if (similarity < minSimilarity) return null;
+
+    // Similarity dominates; line distance only breaks ties between similar candidates
+    return similarity - lineDistance / (lineTolerance + 1) * 0.1;
+}
+
+/**
+ * Classifies the comments of two reviews of the same PR: `new` (only in `after`),
+ * `resolved` (only in `before`) and `persisting` (matched in both). Matching is greedy
+ * on the best-scoring pairs so each comment is matched at most once.
+ */
+export function compareReviews(
+    before: ReviewComment[], after: ReviewComment[], options: CompareOptions = {},
+): ReviewComparison {
+    const lineTolerance = options.lineTolerance ?? DEFAULT_LINE_TOLERANCE;
+    const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+
+    const candidates: { b: number; a: number; score: number }[] = [];
+    before.forEach((bc, b) => after.forEach((ac, a) => {
+        const score = matchScore(bc, ac, lineTolerance, minSimilarity);
+        if (score !== null) candidates.push({ b, a, score });
+    }));
+    candidates.sort((x, y) => y.score - x.score);
+
+    const matchedBefore = new Map<number, number>();
+    const matchedAfter = new Map<number, number>();
+    for (const { b, a } of candidates) {
+        if (matchedBefore.has(b) || matchedAfter.has(a)) continue;
+        matchedBefore.set(b, a);
+        matchedAfter.set(a, b);
+    }
+
+    const findings: ComparedFinding[] = [];
+    after.forEach((comment, a) => {
+        const b = matchedAfter.get(a);
+        findings.push(b === undefined
+            ? { status: 'new', comment }
+            : { status: 'persisting', comment, previous: before[b] });
+    });
+    before.forEach((comment, b) => {
+        if (!matchedBefore.has(b)) findings.push({ status: 'resolved', comment });
+    });
+
+    const counts: Record<FindingStatus, number> = { new: 0, resolved: 0, persisting: 0 };
+    for (const f of findings) counts[f.status]++;
+    return { findings, counts };
+}
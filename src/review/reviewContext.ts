@@ -0,0 +1,85 @@
+import * as SDK from 'azure-devops-extension-sdk';
+import { getClient } from 'azure-devops-extension-api';
+import { GitRestClient } from 'azure-devops-extension-api/Git';
+import { createAccessTokenProvider } from '../common/accessToken';
+import { resolveOrgUrl } from '../common/hostUrl';
+import { loadActiveProfile, loadSettingLayers } from '../common/extensionSettings';
+import { resolveSetting } from '../common/settingsLayers';
+import { t } from '../common/i18n';
+import { BackendClient, createBackendClient } from '../api/backendClient';
+import { submitReview } from '../api/reviewClient';
+import type { ReviewJob, ReviewRequest } from '../api/models';
+
+/** Backend connection and ADO context needed to submit and query reviews. */
+export interface ReviewContext {
+    backend: BackendClient;
+    /** Name of the backend profile `backend` was built from. */
+    profileName: string;
+    /** Effective UI preferences (collection, project and user layers). */
+    preferences: { groupByFile: boolean };
+    orgUrl: string;
+    projectId: string;
+    gitClient: GitRestClient;
+}
+
+/** Builds the review context for the current page; `null` when the extension is not configured yet. */
+export async function loadReviewContext(): Promise<ReviewContext | null> {
+    const projectId = SDK.getPageContext().webContext.project.id;
+    const [profile, layers] = await Promise.all([loadActiveProfile(projectId), loadSettingLayers(projectId)]);
+    if (!profile?.backendUrl || !profile.clientKey) return null;
+
+    const orgUrl = await resolveOrgUrl();
+    const { backendUrl, clientKey, clientId } = profile;
+    const backend = createBackendClient(
+        { backendUrl, clientKey, clientId },
+        { ado: { orgUrl, tokens: createAccessTokenProvider() } },
+    );
+    return {
+        backend,
+        profileName: profile.name,
+        preferences: { groupByFile: resolveSetting(layers, 'groupByFile').value },
+        orgUrl,
+        projectId,
+        gitClient: getClient(GitRestClient),
+    };
+}
+
+export async function getLatestIterationId(
+    context: ReviewContext, repositoryId: string, pullRequestId: number,
+): Promise<number> {
+    const iterations = await context.gitClient.getPullRequestIterations(repositoryId, pullRequestId, context.projectId);
+    const latestIteration = iterations?.at(-1);
+    if (!latestIteration?.id) {
+        throw new Error(t('context.noLatestIteration'));
+    }
+    return latestIteration.id;
+}
+
+export interface IterationSelection {
+    /** Iteration to review; defaults to the latest one. */
+    iterationId?: number;
+    /** When set, only the changes since this iteration are reviewed. */
+    baseIterationId?: number;
+}
+
+/** Submits a review job for the PR; resolves the latest iteration when none is given. */
+export async function requestReview(
+    context: ReviewContext, repositoryId: string, pullRequestId: number, selection: IterationSelection = {},
+): Promise<ReviewJob> {
+    const iterationId = selection.iterationId
+        ?? await getLatestIterationId(context, repositoryId, pullRequestId);
+    const { baseIterationId } = selection;
+    if (baseIterationId != null && baseIterationId >= iterationId) {
+        throw new Error(t('context.invalidBase', { id: iterationId }));
+    }
+
+    const request: ReviewRequest = {
+        organizationUrl: context.orgUrl,
+        projectId:       context.projectId,
+        repositoryId,
+        pullRequestId,
+        iterationId,
+        ...(baseIterationId != null && { baseIterationId }),
+    };
+    return submitReview(context.backend, request);
+}
@@ -1,4 +1,6 @@
 import type { ReviewListItem } from '../api/models';
+import { normalizeOrgUrl } from '../common/hostUrl';
+import { formatDateTime, formatRelativeTime, t, tn } from '../common/i18n';
 
 export interface PrGroup {
     /** Stable group identity: `${orgUrl}|${projectId}|${repoId}|${prId}` */
@@ -10,6 +12,44 @@ export interface PrGroup {
     latestActivity: string | null;
 }
 
+/** Builds the stable identity shared by all jobs for one pull request; spellings of the same org URL share it. */
+export function prGroupKey(job: ReviewListItem): string {
+    const orgUrl = job.organizationUrl ? normalizeOrgUrl(job.organizationUrl).toLowerCase() : '';
+    return `${orgUrl}|${job.projectId}|${job.repositoryId}|${job.pullRequestId}`;
+}
+
+/** ADO web URL of the job's pull request; `null` when the job lacks org or project information. */
+export function buildPrUrl(job: ReviewListItem): string | null {
+    const orgUrl = job.organizationUrl ? normalizeOrgUrl(job.organizationUrl) : '';
+    return orgUrl && job.projectId
+        ? `${orgUrl}${job.projectId}/_git/${job.repositoryId}/pullrequest/${job.pullRequestId}`
+        : null;
+}
+
+/**
+ * URL of a file in the PR's Files view, at the iteration (range) the job reviewed and,
+ * when given, with `lineNumber` selected.
+ */
+export function buildFileUrl(job: ReviewListItem, filePath: string, lineNumber?: number | null): string | null {
+    const prUrl = buildPrUrl(job);
+    if (!prUrl) return null;
+
+    const params = new URLSearchParams({
+        _a:        'files',
+        path:      filePath.startsWith('/') ? filePath : `/${filePath}`,
+        iteration: String(job.iterationId),
+        base:      String(job.baseIterationId ?? 0),
+    });
+    if (lineNumber != null) {
+        params.set('line',            String(lineNumber));
+        params.set('lineEnd',         String(lineNumber));
+        params.set('lineStartColumn', '1');
+        params.set('lineEndColumn',   '1');
+        params.set('lineStyle',       'plain');
+    }
+    return `${prUrl}?${params.toString()}`;
+}
+
 export function buildPrGroups(
     jobs: ReviewListItem[],
     repoNameMap: Map<string, string>,
@@ -17,19 +57,14 @@ export function buildPrGroups(
     const groupMap = new Map<string, PrGroup>();
 
     for (const job of jobs) {
-        const key = `${job.organizationUrl}|${job.projectId}|${job.repositoryId}|${job.pullRequestId}`;
+        const key = prGroupKey(job);
 
         if (!groupMap.has(key)) {
-            const orgUrl = job.organizationUrl?.replace(/\/$/, '') ?? '';
-            const prUrl = orgUrl && job.projectId
-                ? `${orgUrl}/${job.projectId}/_git/${job.repositoryId}/pullrequest/${job.pullRequestId}`
-                : null;
-
             groupMap.set(key, {
                 key,
                 pullRequestId: job.pullRequestId,
                 repoName: repoNameMap.get(job.repositoryId) ?? job.repositoryId,
-                prUrl,
+                prUrl: buildPrUrl(job),
                 entries: [],
                 latestActivity: null,
             });
@@ -64,144 +99,173 @@ export function buildPrGroups(
     });
 }
 
+/** "3" for a full review, "1 → 3" for an incremental review of the changes since iteration 1. */
+export function formatIterationRange(job: ReviewListItem): string {
+    return job.baseIterationId != null
+        ? `${job.baseIterationId} → ${job.iterationId}`
+        : String(job.iterationId);
+}
+
+/** Relative time in the user's locale ("3 hr. ago"); '—' when the job has not got there yet. */
 export function formatTime(iso: string | null): string {
     if (!iso) return '—';
-    return new Date(iso).toLocaleTimeString();
+    return formatRelativeTime(iso);
+}
+
+/** Table cell showing the relative time, with the full date and time as tooltip. */
+function timeCell(iso: string | null): HTMLTableCellElement {
+    const td = document.createElement('td');
+    td.textContent = formatTime(iso);
+    if (iso) td.title = formatDateTime(iso);
+    return td;
+}
+
+function actionButton(attribute: string, jobId: string, label: string): HTMLButtonElement {
+    const btn = document.createElement('button');
+    btn.className = 'btn-link';
+    btn.setAttribute(attribute, jobId);
+    btn.textContent = label;
+    return btn;
+}
+
+/** One PR group: header, entry table and, for several entries, the expand/collapse toggle. */
+export function renderPrGroup(group: PrGroup, expandedGroups: Set<string>): HTMLDivElement {
+    const groupDiv = document.createElement('div');
+    groupDiv.className = 'pr-group';
+
+    // Header
+    const header = document.createElement('div');
+    header.className = 'pr-group-header';
+
+    if (group.prUrl) {
+        const link = document.createElement('a');
+        link.className = 'pr-group-link';
+        link.href = group.prUrl;
+        link.target = '_blank';
+        link.rel = 'noopener noreferrer';
+        link.textContent = `#${group.pullRequestId}`;
+        header.appendChild(link);
+    } else {
+        const prSpan = document.createElement('span');
+        prSpan.textContent = `#${group.pullRequestId}`;
+        header.appendChild(prSpan);
+    }
+
+    const repoSpan = document.createElement('span');
+    repoSpan.className = 'pr-group-repo';
+    repoSpan.textContent = group.repoName;
+    header.appendChild(repoSpan);
+    groupDiv.appendChild(header);
+
+    // Entry table
+    const table = document.createElement('table');
+    table.className = 'pr-group-table';
+
+    const thead = document.createElement('thead');
+    const headRow = document.createElement('tr');
+    for (const col of ['iteration', 'status', 'submitted', 'completed', 'actions'] as const) {
+        const th = document.createElement('th');
+        th.textContent = t(`jobs.column.${col}`);
+        headRow.appendChild(th);
+    }
+    thead.appendChild(headRow);
+    table.appendChild(thead);
+
+    const tbody = document.createElement('tbody');
+    const extraRows: HTMLTableRowElement[] = [];
+    const isExpanded = expandedGroups.has(group.key);
+    const completed = group.entries.filter(e => e.status === 'completed');
+
+    for (let i = 0; i < group.entries.length; i++) {
+        const job = group.entries[i];
+        const tr = document.createElement('tr');
+
+        const iterTd = document.createElement('td');
+        iterTd.textContent = formatIterationRange(job);
+
+        const statusTd = document.createElement('td');
+        statusTd.textContent = t(`status.${job.status}`);
+        statusTd.setAttribute('data-status', job.status);
+
+        const submittedTd = timeCell(job.submittedAt);
+        const completedTd = timeCell(job.completedAt);
+
+        const actionsTd = document.createElement('td');
+        if (job.status === 'pending' || job.status === 'processing') {
+            actionsTd.appendChild(actionButton('data-cancel-job-id', job.jobId, t('jobs.cancel')));
+        } else {
+            actionsTd.appendChild(actionButton('data-job-id', job.jobId,
+                t(job.status === 'completed' ? 'jobs.viewResults' : 'jobs.viewError')));
+            actionsTd.appendChild(actionButton('data-rerun-job-id', job.jobId, t('jobs.rerun')));
+        }
+        // Comparison needs an older completed review of the same PR as its baseline
+        if (job.status === 'completed' && completed.some(e => e.submittedAt < job.submittedAt)) {
+            actionsTd.appendChild(actionButton('data-compare-job-id', job.jobId, t('jobs.compare')));
+        }
+
+        tr.append(iterTd, statusTd, submittedTd, completedTd, actionsTd);
+        tbody.appendChild(tr);
+
+        if (i > 0) {
+            if (!isExpanded) tr.style.display = 'none';
+            extraRows.push(tr);
+        }
+    }
+
+    table.appendChild(tbody);
+    groupDiv.appendChild(table);
+
+    // Expand/collapse toggle for groups with more than one entry
+    if (extraRows.length > 0) {
+        const toggle = document.createElement('button');
+        toggle.className = 'btn-link pr-group-toggle';
+        const count = extraRows.length;
+        const label = (expanded: boolean) =>
+            expanded ? t('jobs.showLess') : tn('jobs.moreIterations', count);
+        toggle.textContent = label(isExpanded);
+        toggle.addEventListener('click', () => {
+            const nowExpanded = !expandedGroups.has(group.key);
+            if (nowExpanded) {
+                expandedGroups.add(group.key);
+            } else {
+                expandedGroups.delete(group.key);
+            }
+            extraRows.forEach(r => { r.style.display = nowExpanded ? '' : 'none'; });
+            toggle.textContent = label(nowExpanded);
+        });
+        groupDiv.appendChild(toggle);
+    }
+
+    return groupDiv;
 }
 
+/**
+ * Renders `jobs` grouped by PR. When `jobs` is already filtered (see `filterJobs`),
+ * `totalJobs` is the unfiltered count, which picks the right empty-state message.
+ */
 export function renderJobsGroups(
     container: HTMLElement,
     jobs: ReviewListItem[],
     repoNameMap: Map<string, string>,
     expandedGroups: Set<string> = new Set(),
-    filterText = '',
+    totalJobs = jobs.length,
 ): void {
     const savedScroll = container.scrollTop;
     container.innerHTML = '';
 
-    const allGroups = buildPrGroups(jobs, repoNameMap);
-    const filter = filterText.trim();
-    const groups = filter
-        ? allGroups.filter(g => String(g.pullRequestId).includes(filter))
-        : allGroups;
+    const groups = buildPrGroups(jobs, repoNameMap);
 
     if (!groups.length) {
         const p = document.createElement('p');
         p.className = 'jobs-empty';
-        p.textContent = allGroups.length
-            ? 'No PRs match the filter.'
-            : 'No reviews submitted yet.';
+        p.textContent = t(totalJobs ? 'jobs.noMatches' : 'jobs.empty');
         container.appendChild(p);
         container.scrollTop = savedScroll;
         return;
     }
 
     for (const group of groups) {
-        const groupDiv = document.createElement('div');
-        groupDiv.className = 'pr-group';
-
-        // Header
-        const header = document.createElement('div');
-        header.className = 'pr-group-header';
-
-        if (group.prUrl) {
-            const link = document.createElement('a');
-            link.className = 'pr-group-link';
-            link.href = group.prUrl;
-            link.target = '_blank';
-            link.rel = 'noopener noreferrer';
-            link.textContent = `#${group.pullRequestId}`;
-            header.appendChild(link);
-        } else {
-            const prSpan = document.createElement('span');
-            prSpan.textContent = `#${group.pullRequestId}`;
-            header.appendChild(prSpan);
-        }
-
-        const repoSpan = document.createElement('span');
-        repoSpan.className = 'pr-group-repo';
-        repoSpan.textContent = group.repoName;
-        header.appendChild(repoSpan);
-        groupDiv.appendChild(header);
-
-        // Entry table
-        const table = document.createElement('table');
-        table.className = 'pr-group-table';
-
-        const thead = document.createElement('thead');
-        const headRow = document.createElement('tr');
-        for (const col of ['Iteration', 'Status', 'Submitted', 'Completed', 'Actions']) {
-            const th = document.createElement('th');
-            th.textContent = col;
-            headRow.appendChild(th);
-        }
-        thead.appendChild(headRow);
-        table.appendChild(thead);
-
-        const tbody = document.createElement('tbody');
-        const extraRows: HTMLTableRowElement[] = [];
-        const isExpanded = expandedGroups.has(group.key);
-
-        for (let i = 0; i < group.entries.length; i++) {
-            const job = group.entries[i];
-            const tr = document.createElement('tr');
-
-            const iterTd = document.createElement('td');
-            iterTd.textContent = String(job.iterationId);
-
-            const statusTd = document.createElement('td');
-            statusTd.textContent = job.status;
-            statusTd.setAttribute('data-status', job.status);
-
-            const submittedTd = document.createElement('td');
-            submittedTd.textContent = formatTime(job.submittedAt);
-
-            const completedTd = document.createElement('td');
-            completedTd.textContent = formatTime(job.completedAt);
-
-            const actionsTd = document.createElement('td');
-            if (job.status === 'completed' || job.status === 'failed') {
-                const btn = document.createElement('button');
-                btn.className = 'btn-link';
-                btn.setAttribute('data-job-id', job.jobId);
-                btn.textContent = job.status === 'completed' ? 'View results' : 'View error';
-                actionsTd.appendChild(btn);
-            }
-
-            tr.append(iterTd, statusTd, submittedTd, completedTd, actionsTd);
-            tbody.appendChild(tr);
-
-            if (i > 0) {
-                if (!isExpanded) tr.style.display = 'none';
-                extraRows.push(tr);
-            }
-        }
-
-        table.appendChild(tbody);
-        groupDiv.appendChild(table);
-
-        // Expand/collapse toggle for groups with more than one entry
-        if (extraRows.length > 0) {
-            const toggle = document.createElement('button');
-            toggle.className = 'btn-link pr-group-toggle';
-            const count = extraRows.length;
-            const label = (expanded: boolean) =>
-                expanded ? '▲ Show less' : `▼ ${count} more iteration${count > 1 ? 's' : ''}`;
-            toggle.textContent = label(isExpanded);
-            toggle.addEventListener('click', () => {
-                const nowExpanded = !expandedGroups.has(group.key);
-                if (nowExpanded) {
-                    expandedGroups.add(group.key);
-                } else {
-                    expandedGroups.delete(group.key);
-                }
-                extraRows.forEach(r => { r.style.display = nowExpanded ? '' : 'none'; });
-                toggle.textContent = label(nowExpanded);
-            });
-            groupDiv.appendChild(toggle);
-        }
-
-        container.appendChild(groupDiv);
+        container.appendChild(renderPrGroup(group, expandedGroups));
     }
 
     container.scrollTop = savedScroll;
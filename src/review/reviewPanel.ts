@@ -0,0 +1,561 @@
+import * as SDK from 'azure-devops-extension-sdk';
+import { CommonServiceIds, IHostNavigationService } from 'azure-devops-extension-api';
+import type { GitRepository } from 'azure-devops-extension-api/Git';
+import { cancelReview, getReviewStatus, listReviews, resubmitReview, ReviewListCache } from '../api/reviewClient';
+import type { ReviewComment, ReviewListItem, ReviewStatusResponse } from '../api/models';
+import { downloadFile } from '../common/download';
+import { formatClock, formatDateTime, t } from '../common/i18n';
+import { loadReviewContext, requestReview, ReviewContext } from './reviewContext';
+import { exportReview, ExportFormat } from './resultExport';
+import { compareReviews, FindingStatus } from './reviewCompare';
+import {
+    createResultsViewState, renderResultsTable, renderSeverityChips, renderSortHeaders, severityLabel, SortKey,
+} from './resultsTable';
+import { createJobsPoller } from './jobsPoller';
+import { filterJobs, parseJobQuery } from './jobFilter';
+import { createVirtualJobsList } from './virtualJobsList';
+import { formatTime, formatIterationRange, prGroupKey, buildFileUrl } from './reviewGroups';
+
+export function el<T extends HTMLElement>(id: string): T {
+    return document.getElementById(id) as T;
+}
+export function show(element: HTMLElement): void { element.style.display = ''; }
+export function hide(element: HTMLElement): void { element.style.display = 'none'; }
+
+// The extension runs in an iframe; file links must navigate the host page instead
+async function openInHost(url: string): Promise<void> {
+    const navService = await SDK.getService<IHostNavigationService>(CommonServiceIds.HostNavigationService);
+    navService.navigate(url);
+}
+
+/** Jobs per page of the history; the first page is what the poller refreshes. */
+const JOBS_PAGE_SIZE = 50;
+// Pages a single-PR view loads by itself; older ones are left to "Load more"
+const PR_HISTORY_PAGES = 4;
+
+const FINDING_ORDER: FindingStatus[] = ['new', 'persisting', 'resolved'];
+
+function renderCommentRow(comment: ReviewComment, job: ReviewListItem): HTMLTableRowElement {
+    const tr = document.createElement('tr');
+    tr.setAttribute('data-severity', comment.severity);
+    const cells = [
+        comment.filePath   ?? t('common.generalComment'),
+        comment.lineNumber != null ? String(comment.lineNumber) : t('common.noLineNumber'),
+        severityLabel(comment.severity),
+        comment.message,
+    ];
+    for (const text of cells) {
+        const td = document.createElement('td');
+        td.textContent = text;
+        tr.appendChild(td);
+    }
+
+    const fileUrl = comment.filePath ? buildFileUrl(job, comment.filePath, comment.lineNumber) : null;
+    if (fileUrl) {
+        const link = document.createElement('a');
+        link.className = 'comment-file-link';
+        link.href = fileUrl;
+        link.target = '_top';
+        link.textContent = comment.filePath!;
+        link.addEventListener('click', (e) => {
+            if (e.ctrlKey || e.metaKey || e.shiftKey || e.button !== 0) return; // let the browser open a new tab
+            e.preventDefault();
+            void openInHost(fileUrl);
+        });
+        tr.cells[0].textContent = '';
+        tr.cells[0].appendChild(link);
+    }
+    return tr;
+}
+
+/** Review context plus the project's repositories, shared by every review page (hub, PR tab). */
+export interface ReviewPanelContext extends ReviewContext {
+    repositories: GitRepository[];
+    /** Repo ID → name map (used by the jobs table) */
+    repoNameMap: Map<string, string>;
+}
+
+export interface ReviewPanelOptions {
+    /** Restricts the jobs list to a single pull request, e.g. on the PR tab. */
+    pullRequest?: { repositoryId: string; pullRequestId: number };
+}
+
+export interface ReviewPanel {
+    context: ReviewPanelContext;
+    refreshJobs(): Promise<void>;
+    /** Loads the PR's iterations into the iteration selectors, preselecting `iterationId` (default: latest). */
+    selectPullRequest(repositoryId: string, pullRequestId: number, iterationId?: number | null): Promise<void>;
+    clearPullRequest(): void;
+    /** Submits a review for the given PR using the iteration range chosen in the selectors. */
+    submit(repositoryId: string, pullRequestId: number): Promise<void>;
+    showError(message: string): void;
+}
+
+/**
+ * Wires up the parts of the review page that do not depend on how the pull request
+ * was chosen: configuration check, results view, jobs history polling and submission.
+ * Returns `null` when the extension is not configured yet.
+ */
+export async function initReviewPanel(options: ReviewPanelOptions = {}): Promise<ReviewPanel | null> {
+    const configWarning  = el<HTMLDivElement>('config-warning');
+    const inputSection   = el<HTMLDivElement>('input-section');
+    const iterationSelect     = el<HTMLSelectElement>('iteration-select');
+    const baseIterationSelect = el<HTMLSelectElement>('base-iteration-select');
+    const reviewBtn      = el<HTMLButtonElement>('review-btn');
+    const loadingDiv     = el<HTMLDivElement>('loading');
+    const resultsSection = el<HTMLDivElement>('results-section');
+    const resultsContext = el<HTMLParagraphElement>('results-context');
+    const reviewSummary  = el<HTMLDivElement>('review-summary');
+    const resultsTable   = el<HTMLTableElement>('results-table');
+    const resultsBody    = el<HTMLTableSectionElement>('results-body');
+    const severityChips  = el<HTMLDivElement>('severity-chips');
+    const groupByFile    = el<HTMLInputElement>('group-by-file');
+    const exportMenu     = el<HTMLDetailsElement>('export-menu');
+    const compareSection = el<HTMLDivElement>('compare-section');
+    const compareTarget  = el<HTMLSpanElement>('compare-target');
+    const compareBaseSelect = el<HTMLSelectElement>('compare-base-select');
+    const compareCounts  = el<HTMLParagraphElement>('compare-counts');
+    const compareBody    = el<HTMLTableSectionElement>('compare-body');
+    const errorDiv       = el<HTMLDivElement>('error-message');
+    const backendStatus  = el<HTMLDivElement>('backend-status');
+    const jobsSection    = el<HTMLDivElement>('jobs-section');
+    const jobsGroups     = el<HTMLDivElement>('jobs-groups');
+    const loadMoreBtn    = el<HTMLButtonElement>('jobs-load-more');
+    const jobsBackend    = el<HTMLParagraphElement>('jobs-backend');
+    const prFilter       = document.getElementById('pr-filter') as HTMLInputElement | null; // hub only
+    const prFilterErrors = document.getElementById('pr-filter-errors'); // hub only
+
+    const reviewContext = await loadReviewContext();
+    if (!reviewContext) {
+        show(configWarning);
+        hide(inputSection);
+        return null;
+    }
+    const { backend, profileName, projectId, gitClient } = reviewContext;
+    // Every listed job comes from the backend of the active profile
+    jobsBackend.textContent = t('panel.jobsBackend', { profile: profileName, url: backend.settings.backendUrl });
+
+    const repoNameMap = new Map<string, string>();
+    let repositories: GitRepository[] = [];
+    try {
+        repositories = (await gitClient.getRepositories(projectId)) ?? [];
+        for (const repo of repositories) {
+            if (repo.id && repo.name) repoNameMap.set(repo.id, repo.name);
+        }
+    } catch (err) {
+        // Repo list is informational; continue without it
+        showError(t('panel.loadRepositoriesFailed', { error: (err as Error).message }));
+    }
+
+    const context: ReviewPanelContext = { ...reviewContext, repositories, repoNameMap };
+
+    const scope = options.pullRequest;
+    const expandedGroups = new Set<string>();
+    let lastJobList: ReviewListItem[] = [];
+
+    function showError(message: string): void {
+        errorDiv.textContent = message;
+        show(errorDiv);
+    }
+
+    function rerender(): void {
+        const jobs = scope
+            ? lastJobList.filter(j =>
+                j.repositoryId === scope.repositoryId && j.pullRequestId === scope.pullRequestId)
+            : lastJobList;
+        // A single-PR view always shows its full iteration history
+        if (scope) jobs.forEach(j => expandedGroups.add(prGroupKey(j)));
+
+        const { filter, errors } = parseJobQuery(prFilter?.value ?? '');
+        if (prFilterErrors) {
+            prFilterErrors.textContent = errors.join(' · ');
+            if (errors.length) show(prFilterErrors); else hide(prFilterErrors);
+        }
+        jobsList.update(filterJobs(jobs, filter, repoNameMap), jobs.length);
+        loadMoreBtn.hidden = !hasMoreJobs;
+    }
+
+    // --- Paged job history ---
+    // The poller refreshes the first page; older pages are appended on demand and kept
+    let olderJobs: ReviewListItem[] = [];
+    let hasMoreJobs = false;
+    let loadingMore = false;
+
+    // Conditional-request state of the first page: unchanged lists come back as 304 without a body
+    const listCache: ReviewListCache = {};
+
+    function mergeJobs(firstPage: ReviewListItem[], older: ReviewListItem[]): ReviewListItem[] {
+        const seen = new Set(firstPage.map(j => j.jobId));
+        return [...firstPage, ...older.filter(j => !seen.has(j.jobId))];
+    }
+
+    async function doRefreshJobs(): Promise<boolean> {
+        try {
+            const firstPage = await listReviews(backend, listCache, { limit: JOBS_PAGE_SIZE, offset: 0 });
+            if (!olderJobs.length) hasMoreJobs = firstPage.length === JOBS_PAGE_SIZE;
+            lastJobList = mergeJobs(firstPage, olderJobs);
+        } catch (err) {
+            // During an outage the banner explains the stale list. Polling at the active rate is
+            // cheap then: while the circuit is open calls fail without a request, and a trial call
+            // goes out once per cool-down.
+            if (backend.breaker.unreachableSince) return true;
+            showError(t('panel.refreshFailed', { error: (err as Error).message }));
+            return false;
+        }
+        rerender();
+        if (scope) void loadPrHistory();
+        return lastJobList.some(j => j.status === 'pending' || j.status === 'processing');
+    }
+
+    /** Loads the next older page; `false` when there was none or it failed. */
+    async function loadMoreJobs(): Promise<boolean> {
+        if (!hasMoreJobs || loadingMore) return false;
+        let loaded = false;
+        loadingMore = true;
+        loadMoreBtn.disabled = true;
+        try {
+            // New jobs shift the offsets; duplicates are dropped, so at worst a page adds fewer jobs
+            const page = await listReviews(backend, undefined, { limit: JOBS_PAGE_SIZE, offset: lastJobList.length });
+            const known = new Set(lastJobList.map(j => j.jobId));
+            const added = page.filter(j => !known.has(j.jobId));
+            olderJobs = [...olderJobs, ...added];
+            // A page of jobs already listed would only be requested again: treat it as the end
+            hasMoreJobs = page.length === JOBS_PAGE_SIZE && added.length > 0;
+            lastJobList = [...lastJobList, ...added];
+            loaded = true;
+        } catch {
+            // Keep the button so the user can retry
+        } finally {
+            loadingMore = false;
+            loadMoreBtn.disabled = false;
+        }
+        rerender();
+        return loaded;
+    }
+
+    // The list holds the jobs of the whole client, so a PR's older jobs can be on any page: a single-PR
+    // view loads a few pages once, later refreshes only reload the first one
+    let prHistoryLoaded = false;
+    async function loadPrHistory(): Promise<void> {
+        if (prHistoryLoaded) return;
+        prHistoryLoaded = true;
+        for (let pages = 1; pages < PR_HISTORY_PAGES && await loadMoreJobs(); pages++) { /* next page */ }
+    }
+
+    const jobsList = createVirtualJobsList(jobsGroups, repoNameMap, expandedGroups, () => void loadMoreJobs());
+    loadMoreBtn.addEventListener('click', () => void loadMoreJobs());
+
+    const poller = createJobsPoller(doRefreshJobs);
+
+    function refreshJobs(): Promise<void> {
+        return poller.poke();
+    }
+
+    // Outage banner: shown while the circuit is open or half-open, i.e. until a call succeeds again
+    function renderBackendStatus(): void {
+        const since = backend.breaker.unreachableSince;
+        if (backend.breaker.state === 'closed' || !since) {
+            hide(backendStatus);
+            return;
+        }
+        backendStatus.textContent = t('panel.backendUnreachable', { time: formatClock(since) });
+        show(backendStatus);
+    }
+    backend.breaker.subscribe(renderBackendStatus);
+
+    prFilter?.addEventListener('input', rerender);
+
+    // Job actions via event delegation (buttons are re-created on each refresh)
+    jobsGroups.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const cancelBtn = target.closest<HTMLElement>('[data-cancel-job-id]');
+        if (cancelBtn) {
+            onCancelJob(cancelBtn.getAttribute('data-cancel-job-id')!);
+            return;
+        }
+        const rerunBtn = target.closest<HTMLElement>('[data-rerun-job-id]');
+        if (rerunBtn) {
+            onRerunJob(rerunBtn.getAttribute('data-rerun-job-id')!);
+            return;
+        }
+        const compareBtn = target.closest<HTMLElement>('[data-compare-job-id]');
+        if (compareBtn) {
+            onCompare(compareBtn.getAttribute('data-compare-job-id')!);
+            return;
+        }
+        const btn = target.closest<HTMLElement>('[data-job-id]');
+        if (btn) onViewJobDetails(btn.getAttribute('data-job-id')!);
+    });
+
+    async function onCancelJob(jobId: string): Promise<void> {
+        const job = lastJobList.find(j => j.jobId === jobId);
+        if (!job) return;
+        if (!window.confirm(t('panel.confirmCancel', { id: job.pullRequestId, range: formatIterationRange(job) }))) return;
+        hide(errorDiv);
+        try {
+            await cancelReview(backend, jobId);
+        } catch (err) {
+            showError(t('panel.cancelFailed', { error: (err as Error).message }));
+        }
+        await refreshJobs();
+    }
+
+    async function onRerunJob(jobId: string): Promise<void> {
+        const job = lastJobList.find(j => j.jobId === jobId);
+        if (!job) return;
+        if (!window.confirm(t('panel.confirmRerun', { id: job.pullRequestId, range: formatIterationRange(job) }))) return;
+        hide(errorDiv);
+        try {
+            await resubmitReview(backend, job);
+        } catch (err) {
+            showError(t('panel.rerunFailed', { error: (err as Error).message }));
+        }
+        await refreshJobs();
+    }
+
+    // --- Review comparison ---
+    // Results of completed jobs never change, so they are fetched once per job
+    const completedReviews = new Map<string, Promise<ReviewStatusResponse>>();
+    let compareJobId: string | null = null;
+
+    function loadCompletedReview(jobId: string): Promise<ReviewStatusResponse> {
+        if (!completedReviews.has(jobId)) {
+            const request = getReviewStatus(backend, jobId);
+            request.catch(() => completedReviews.delete(jobId));
+            completedReviews.set(jobId, request);
+        }
+        return completedReviews.get(jobId)!;
+    }
+
+    async function onCompare(jobId: string): Promise<void> {
+        const job = lastJobList.find(j => j.jobId === jobId);
+        if (!job) return;
+
+        const olderReviews = lastJobList
+            .filter(j => j.status === 'completed' && prGroupKey(j) === prGroupKey(job) && j.submittedAt < job.submittedAt)
+            .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+        if (!olderReviews.length) return;
+
+        compareJobId = jobId;
+        compareTarget.textContent = t('common.iteration', { range: formatIterationRange(job) });
+        compareBaseSelect.innerHTML = '';
+        for (const older of olderReviews) {
+            const opt = document.createElement('option');
+            opt.value = older.jobId;
+            opt.textContent = t('panel.compareOption', { range: formatIterationRange(older), time: formatTime(older.completedAt) });
+            compareBaseSelect.appendChild(opt);
+        }
+        await renderComparison();
+        compareSection.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+
+    async function renderComparison(): Promise<void> {
+        if (!compareJobId) return;
+        hide(errorDiv);
+        try {
+            const [after, before] = await Promise.all([
+                loadCompletedReview(compareJobId),
+                loadCompletedReview(compareBaseSelect.value),
+            ]);
+            const { findings, counts } = compareReviews(before.result?.comments ?? [], after.result?.comments ?? []);
+
+            compareCounts.innerHTML = '';
+            for (const status of FINDING_ORDER) {
+                const span = document.createElement('span');
+                span.setAttribute('data-finding-status', status);
+                span.textContent = t(`finding.count.${status}`, { count: counts[status] });
+                compareCounts.appendChild(span);
+            }
+
+            compareBody.innerHTML = '';
+            const sorted = [...findings].sort((a, b) =>
+                FINDING_ORDER.indexOf(a.status) - FINDING_ORDER.indexOf(b.status));
+            for (const finding of sorted) {
+                const tr = document.createElement('tr');
+                tr.setAttribute('data-finding-status', finding.status);
+                const { comment } = finding;
+                const cells = [
+                    t(`finding.${finding.status}`),
+                    comment.filePath ?? t('common.generalComment'),
+                    comment.lineNumber != null ? String(comment.lineNumber) : t('common.noLineNumber'),
+                    severityLabel(comment.severity),
+                    comment.message,
+                ];
+                for (const text of cells) {
+                    const td = document.createElement('td');
+                    td.textContent = text;
+                    tr.appendChild(td);
+                }
+                compareBody.appendChild(tr);
+            }
+            show(compareSection);
+        } catch (err) {
+            showError(t('panel.compareFailed', { error: (err as Error).message }));
+        }
+    }
+
+    compareBaseSelect.addEventListener('change', () => void renderComparison());
+
+    // Review currently shown in the results section (source of the export menu)
+    let shownReview: ReviewStatusResponse | null = null;
+
+    exportMenu.addEventListener('click', (e) => {
+        const btn = (e.target as HTMLElement).closest<HTMLElement>('[data-export-format]');
+        if (!btn || !shownReview) return;
+        const format = btn.getAttribute('data-export-format') as ExportFormat;
+        downloadFile(exportReview(shownReview, format, repoNameMap.get(shownReview.repositoryId)));
+        exportMenu.open = false;
+    });
+
+    // Filter, sort and grouping choices persist while the user switches between reviews
+    const resultsView = createResultsViewState();
+    resultsView.groupByFile = groupByFile.checked = reviewContext.preferences.groupByFile;
+
+    function renderResults(): void {
+        if (!shownReview?.result) return;
+        const review = shownReview;
+        const comments = review.result!.comments;
+        renderSeverityChips(severityChips, comments, resultsView, renderResults);
+        renderResultsTable(resultsBody, comments, resultsView, c => renderCommentRow(c, review), renderResults);
+        renderSortHeaders(resultsTable.tHead!, resultsView.sort);
+    }
+
+    resultsTable.tHead!.addEventListener('click', (e) => {
+        const th = (e.target as HTMLElement).closest<HTMLElement>('th[data-sort-key]');
+        if (!th) return;
+        const key = th.getAttribute('data-sort-key') as SortKey;
+        resultsView.sort = resultsView.sort?.key === key
+            ? { key, descending: !resultsView.sort.descending }
+            : { key, descending: false };
+        renderResults();
+    });
+
+    groupByFile.addEventListener('change', () => {
+        resultsView.groupByFile = groupByFile.checked;
+        renderResults();
+    });
+
+    async function onViewJobDetails(jobId: string): Promise<void> {
+        try {
+            const response = await getReviewStatus(backend, jobId);
+            hide(errorDiv);
+
+            if (response.status === 'completed' && response.result) {
+                shownReview = response;
+                const repoName = repoNameMap.get(response.repositoryId) ?? response.repositoryId;
+                resultsContext.textContent = t('panel.resultsContext', {
+                    id:      response.pullRequestId,
+                    repo:    repoName,
+                    range:   formatIterationRange(response),
+                    profile: profileName,
+                    time:    formatDateTime(new Date().toISOString()),
+                });
+                reviewSummary.textContent = response.result.summary;
+                resultsView.collapsedFiles.clear();
+                renderResults();
+                show(resultsSection);
+                resultsSection.scrollIntoView({ behavior: 'smooth', block: 'start' });
+            } else if (response.status === 'failed') {
+                showError(t('panel.reviewFailed', { error: response.error ?? t('panel.unknownServerError') }));
+            }
+        } catch (err) {
+            showError(t('panel.loadDetailsFailed', { error: (err as Error).message }));
+        }
+    }
+
+    // --- Iteration selection ---
+    let iterations: { id: number; description?: string }[] = [];
+    let iterationsFor: string | null = null;
+
+    function addOption(select: HTMLSelectElement, value: string, text: string): void {
+        const opt = document.createElement('option');
+        opt.value = value;
+        opt.textContent = text;
+        select.appendChild(opt);
+    }
+
+    // Only iterations older than the reviewed one can serve as the base of an incremental review
+    function renderBaseIterationOptions(): void {
+        const reviewed = Number(iterationSelect.value);
+        const previous = baseIterationSelect.value;
+        baseIterationSelect.innerHTML = '';
+        addOption(baseIterationSelect, '', t('panel.fullPullRequest'));
+        for (const it of iterations) {
+            if (it.id < reviewed) addOption(baseIterationSelect, String(it.id), t('panel.changesSince', { id: it.id }));
+        }
+        baseIterationSelect.value =
+            Array.from(baseIterationSelect.options).some(o => o.value === previous) ? previous : '';
+        baseIterationSelect.disabled = baseIterationSelect.options.length <= 1;
+    }
+
+    function clearPullRequest(): void {
+        iterations    = [];
+        iterationsFor = null;
+        iterationSelect.innerHTML = '';
+        addOption(iterationSelect, '', t('panel.latestIteration'));
+        iterationSelect.disabled = true;
+        renderBaseIterationOptions();
+    }
+
+    async function selectPullRequest(
+        repositoryId: string, pullRequestId: number, iterationId?: number | null,
+    ): Promise<void> {
+        const key = `${repositoryId}|${pullRequestId}`;
+        clearPullRequest();
+        iterationsFor = key;
+        try {
+            const raw = await gitClient.getPullRequestIterations(repositoryId, pullRequestId, projectId);
+            if (iterationsFor !== key) return; // another PR was selected meanwhile
+            iterations = (raw ?? [])
+                .filter(it => it.id != null)
+                .map(it => ({ id: it.id!, description: it.description }));
+        } catch {
+            // Leave the selector on "Latest iteration"; submit resolves it itself
+            return;
+        }
+        if (!iterations.length) return;
+
+        iterationSelect.innerHTML = '';
+        for (const it of [...iterations].reverse()) {
+            addOption(iterationSelect, String(it.id),
+                it.description
+                    ? t('panel.iterationOptionWithDescription', { id: it.id, description: it.description })
+                    : t('panel.iterationOption', { id: it.id }));
+        }
+        const preselect = iterations.some(it => it.id === iterationId) ? iterationId! : iterations.at(-1)!.id;
+        iterationSelect.value    = String(preselect);
+        iterationSelect.disabled = false;
+        renderBaseIterationOptions();
+    }
+
+    iterationSelect.addEventListener('change', renderBaseIterationOptions);
+    clearPullRequest();
+
+    async function submit(repositoryId: string, pullRequestId: number): Promise<void> {
+        hide(errorDiv);
+        reviewBtn.disabled      = true;
+        loadingDiv.textContent  = t('review.submitting');
+        show(loadingDiv);
+
+        try {
+            await requestReview(context, repositoryId, pullRequestId, {
+                iterationId:     iterationSelect.value ? Number(iterationSelect.value) : undefined,
+                baseIterationId: baseIterationSelect.value ? Number(baseIterationSelect.value) : undefined,
+            });
+            // Immediate refresh so the new job appears without waiting for the next tick (also ends any idle back-off)
+            await refreshJobs();
+            jobsSection.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        } catch (err) {
+            showError(t('panel.submitFailed', { error: (err as Error).message }));
+        } finally {
+            hide(loadingDiv);
+            reviewBtn.disabled = false;
+        }
+    }
+
+    // Start background polling immediately; it slows down while idle and pauses while hidden
+    await poller.start();
+    show(jobsSection);
+
+    return { context, refreshJobs, selectPullRequest, clearPullRequest, submit, showError };
+}
@@ -0,0 +1,126 @@
+import type { ReviewComment, ReviewStatusResponse } from '../api/models';
+import { normalizeOrgUrl } from '../common/hostUrl';
+
+/*
+ * Minimal SARIF 2.1.0 object model — only the properties this emitter writes.
+ * Spec: https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+
+export type SarifLevel = 'none' | 'note' | 'warning' | 'error';
+
+export interface SarifMessage {
+    text: string;
+}
+
+export interface SarifPhysicalLocation {
+    artifactLocation: { uri: string; uriBaseId?: string };
+    region?: { startLine: number };
+}
+
+export interface SarifResult {
+    ruleId: string;
+    ruleIndex: number;
+    level: SarifLevel;
+    message: SarifMessage;
+    locations?: { physicalLocation: SarifPhysicalLocation }[];
+}
+
+export interface SarifRule {
+    id: string;
+    name: string;
+    shortDescription: SarifMessage;
+    defaultConfiguration: { level: SarifLevel };
+}
+
+export interface SarifRun {
+    tool: { driver: { name: string; informationUri?: string; rules: SarifRule[] } };
+    automationDetails: { id: string };
+    versionControlProvenance?: { repositoryUri: string }[];
+    results: SarifResult[];
+    properties: Record<string, unknown>;
+}
+
+export interface SarifLog {
+    $schema: string;
+    version: '2.1.0';
+    runs: SarifRun[];
+}
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_NAME = 'Meister ProPR';
+
+/** One rule per review severity so dashboards can filter on `ruleId`. */
+const RULES: Record<ReviewComment['severity'], SarifRule> = {
+    error: {
+        id: 'meister-propr/error',
+        name: 'ReviewError',
+        shortDescription: { text: 'AI review finding that must be fixed' },
+        defaultConfiguration: { level: 'error' },
+    },
+    warning: {
+        id: 'meister-propr/warning',
+        name: 'ReviewWarning',
+        shortDescription: { text: 'AI review finding that should be addressed' },
+        defaultConfiguration: { level: 'warning' },
+    },
+    suggestion: {
+        id: 'meister-propr/suggestion',
+        name: 'ReviewSuggestion',
+        shortDescription: { text: 'AI review improvement suggestion' },
+        defaultConfiguration: { level: 'note' },
+    },
+    info: {
+        id: 'meister-propr/info',
+        name: 'ReviewInfo',
+        shortDescription: { text: 'AI review informational remark' },
+        defaultConfiguration: { level: 'none' },
+    },
+};
+const RULE_ORDER: ReviewComment['severity'][] = ['error', 'warning', 'suggestion', 'info'];
+
+function toSarifResult(comment: ReviewComment): SarifResult {
+    const severity = RULES[comment.severity] ? comment.severity : 'info';
+    const rule = RULES[severity];
+    const result: SarifResult = {
+        ruleId:    rule.id,
+        ruleIndex: RULE_ORDER.indexOf(severity),
+        level:     rule.defaultConfiguration.level,
+        message:   { text: comment.message },
+    };
+    if (comment.filePath) {
+        const physicalLocation: SarifPhysicalLocation = {
+            // SARIF URIs are relative to the source root; ADO paths start with '/'
+            artifactLocation: { uri: comment.filePath.replace(/^\/+/, ''), uriBaseId: '%SRCROOT%' },
+        };
+        if (comment.lineNumber != null && comment.lineNumber >= 1) {
+            physicalLocation.region = { startLine: comment.lineNumber };
+        }
+        result.locations = [{ physicalLocation }];
+    }
+    return result;
+}
+
+/** Converts a review job into a SARIF 2.1.0 log with a single run. General comments have no location. */
+export function toSarif(review: ReviewStatusResponse): SarifLog {
+    const orgUrl = review.organizationUrl ? normalizeOrgUrl(review.organizationUrl) : '';
+    const run: SarifRun = {
+        tool: { driver: { name: TOOL_NAME, rules: RULE_ORDER.map(s => RULES[s]) } },
+        automationDetails: { id: `meister-propr/pr-${review.pullRequestId}/${review.jobId}` },
+        results: (review.result?.comments ?? []).map(toSarifResult),
+        properties: {
+            jobId:           review.jobId,
+            pullRequestId:   review.pullRequestId,
+            iterationId:     review.iterationId,
+            baseIterationId: review.baseIterationId ?? null,
+            submittedAt:     review.submittedAt,
+            completedAt:     review.completedAt,
+            summary:         review.result?.summary ?? '',
+        },
+    };
+    if (orgUrl && review.projectId) {
+        run.versionControlProvenance = [
+            { repositoryUri: `${orgUrl}${review.projectId}/_git/${review.repositoryId}` },
+        ];
+    }
+    return { $schema: SARIF_SCHEMA, version: '2.1.0', runs: [run] };
+}
@@ -0,0 +1,113 @@
+import type { ReviewListItem } from '../api/models';
+import { buildPrGroups, PrGroup, renderJobsGroups, renderPrGroup } from './reviewGroups';
+
+/** Height assumed for groups that have not been rendered yet (collapsed group with one entry). */
+const ESTIMATED_GROUP_HEIGHT = 130;
+/** Extra pixels rendered above and below the viewport so fast scrolling does not show gaps. */
+const OVERSCAN_PX = 600;
+/** Distance from the end of the list at which `onNearEnd` fires. */
+const NEAR_END_PX = 400;
+
+export interface VirtualJobsList {
+    update(jobs: ReviewListItem[], totalJobs?: number): void;
+    destroy(): void;
+}
+
+/**
+ * Renders PR groups into the scrollable `container`, creating DOM nodes only for the
+ * groups in (or near) the viewport; spacers stand in for the rest. Group heights are
+ * measured once rendered and estimated before that. `onNearEnd` fires when the user
+ * scrolls close to the end of the list (infinite scroll).
+ *
+ * Without layout (`clientHeight` 0, e.g. while the section is hidden) every group is rendered.
+ */
+export function createVirtualJobsList(
+    container: HTMLElement,
+    repoNameMap: Map<string, string>,
+    expandedGroups: Set<string>,
+    onNearEnd: () => void,
+): VirtualJobsList {
+    let groups: PrGroup[] = [];
+    const heights = new Map<string, number>();
+    let frame: number | null = null;
+
+    function heightOf(group: PrGroup): number {
+        return heights.get(group.key) ?? ESTIMATED_GROUP_HEIGHT;
+    }
+
+    function renderWindow(): void {
+        const viewTop = container.scrollTop;
+        const viewHeight = container.clientHeight;
+
+        let first = 0;
+        let last = groups.length - 1;
+        let top = 0;
+        if (viewHeight) {
+            while (first < groups.length && top + heightOf(groups[first]) < viewTop - OVERSCAN_PX) {
+                top += heightOf(groups[first]);
+                first++;
+            }
+            last = first;
+            let bottom = top;
+            while (last < groups.length && bottom < viewTop + viewHeight + OVERSCAN_PX) {
+                bottom += heightOf(groups[last]);
+                last++;
+            }
+            last--;
+        }
+        const below = groups.slice(last + 1).reduce((sum, g) => sum + heightOf(g), 0);
+
+        const topSpacer = document.createElement('div');
+        topSpacer.className = 'jobs-spacer';
+        topSpacer.style.height = `${top}px`;
+        const bottomSpacer = document.createElement('div');
+        bottomSpacer.className = 'jobs-spacer';
+        bottomSpacer.style.height = `${below}px`;
+
+        const rendered = groups.slice(first, last + 1).map(g => renderPrGroup(g, expandedGroups));
+        container.replaceChildren(topSpacer, ...rendered, bottomSpacer);
+        container.scrollTop = viewTop;
+
+        // Heights include the gap between groups: distance to the next node's top edge
+        const nodes: HTMLElement[] = [...rendered, bottomSpacer];
+        rendered.forEach((node, i) => {
+            const height = nodes[i + 1].offsetTop - node.offsetTop;
+            if (height > 0) heights.set(groups[first + i].key, height);
+        });
+
+        if (viewHeight && container.scrollHeight - (viewTop + viewHeight) < NEAR_END_PX) onNearEnd();
+    }
+
+    function scheduleRender(): void {
+        if (frame !== null) return;
+        frame = requestAnimationFrame(() => {
+            frame = null;
+            renderWindow();
+        });
+    }
+
+    // Expanding or collapsing a group changes its height
+    function onClick(e: Event): void {
+        if ((e.target as HTMLElement).closest('.pr-group-toggle')) scheduleRender();
+    }
+
+    container.addEventListener('scroll', scheduleRender);
+    container.addEventListener('click', onClick);
+
+    function update(jobs: ReviewListItem[], totalJobs = jobs.length): void {
+        groups = buildPrGroups(jobs, repoNameMap);
+        if (!groups.length) {
+            renderJobsGroups(container, [], repoNameMap, expandedGroups, totalJobs);
+            return;
+        }
+        renderWindow();
+    }
+
+    function destroy(): void {
+        container.removeEventListener('scroll', scheduleRender);
+        container.removeEventListener('click', onClick);
+        if (frame !== null) cancelAnimationFrame(frame);
+    }
+
+    return { update, destroy };
+}
@@ -0,0 +1,127 @@
+import { createBackendClient } from '../api/backendClient';
+import { clearAdoCredentials, getClient, setAdoCredentials } from '../api/clientAdminClient';
+import { NotFoundError, UnauthorizedError } from '../api/errors';
+import { t } from '../common/i18n';
+
+export interface AdoCredentialsElements {
+    adminKey: HTMLInputElement;
+    status: HTMLElement;
+    tenantId: HTMLInputElement;
+    appId: HTMLInputElement;
+    secret: HTMLInputElement;
+    saveBtn: HTMLButtonElement;
+    clearBtn: HTMLButtonElement;
+    message: HTMLElement;
+}
+
+export interface AdoCredentialsOptions {
+    /** Backend and client currently in the form. */
+    connection(): { backendUrl: string; clientId: string };
+}
+
+export interface AdoCredentialsSection {
+    /** Reloads the status, e.g. after another profile was picked. */
+    refresh(): Promise<void>;
+}
+
+function errorText(err: unknown): string {
+    if (err instanceof UnauthorizedError) return t('settings.adoCredentials.adminKeyRejected');
+    if (err instanceof NotFoundError) return t('settings.adoCredentials.clientNotFound');
+    return t('settings.adoCredentials.failed', { error: (err as Error)?.message || t('settings.unknownError') });
+}
+
+/**
+ * "ADO service credentials" section. The admin key lives only in its input, so it is gone when the
+ * page closes; the secret is write-only and the fields are emptied once the backend accepted them.
+ */
+export function initAdoCredentials(elements: AdoCredentialsElements, options: AdoCredentialsOptions): AdoCredentialsSection {
+    const { adminKey, status, tenantId, appId, secret, saveBtn, clearBtn, message } = elements;
+    let hasCredentials = false;
+
+    function adminBackend() {
+        const { backendUrl, clientId } = options.connection();
+        const key = adminKey.value.trim();
+        if (!backendUrl || !clientId || !key) return null;
+        return { backend: createBackendClient({ backendUrl, clientKey: '', clientId }, { adminKey: key }), clientId };
+    }
+
+    function showMessage(text: string, className: string): void {
+        message.textContent = text;
+        message.className = `input-hint ${className}`.trim();
+    }
+
+    function setButtons(enabled: boolean): void {
+        saveBtn.disabled = !enabled;
+        clearBtn.disabled = !enabled || !hasCredentials;
+        saveBtn.textContent = t(hasCredentials ? 'settings.adoCredentials.rotate' : 'settings.adoCredentials.save');
+    }
+
+    async function refresh(): Promise<void> {
+        hasCredentials = false;
+        const target = adminBackend();
+        if (!target) {
+            status.textContent = t(options.connection().clientId
+                ? 'settings.adoCredentials.needAdminKey'
+                : 'settings.adoCredentials.needConnection');
+            status.className = 'input-hint';
+            setButtons(false);
+            return;
+        }
+        status.textContent = t('settings.adoCredentials.loading');
+        status.className = 'input-hint';
+        setButtons(false);
+        try {
+            const client = await getClient(target.backend, target.clientId);
+            hasCredentials = client.hasAdoCredentials === true;
+            const name = client.displayName || target.clientId;
+            status.textContent = t(hasCredentials ? 'settings.adoCredentials.set' : 'settings.adoCredentials.notSet', { name });
+            status.className = hasCredentials ? 'input-hint status-success' : 'input-hint';
+            setButtons(true);
+        } catch (err) {
+            status.textContent = errorText(err);
+            status.className = 'input-hint status-error';
+        }
+    }
+
+    saveBtn.addEventListener('click', async () => {
+        const target = adminBackend();
+        const request = { tenantId: tenantId.value.trim(), clientId: appId.value.trim(), secret: secret.value };
+        if (!target) return;
+        if (!request.tenantId || !request.clientId || !request.secret) {
+            showMessage(t('settings.adoCredentials.required'), 'status-error');
+            return;
+        }
+        saveBtn.disabled = true;
+        try {
+            await setAdoCredentials(target.backend, target.clientId, request);
+            tenantId.value = appId.value = secret.value = '';
+            showMessage(t('settings.adoCredentials.saved'), 'status-success');
+            await refresh();
+        } catch (err) {
+            showMessage(errorText(err), 'status-error');
+            saveBtn.disabled = false;
+        }
+    });
+
+    clearBtn.addEventListener('click', async () => {
+        const target = adminBackend();
+        if (!target || !confirm(t('settings.adoCredentials.confirmClear', { name: target.clientId }))) return;
+        clearBtn.disabled = true;
+        try {
+            await clearAdoCredentials(target.backend, target.clientId);
+            showMessage(t('settings.adoCredentials.cleared'), 'status-success');
+            await refresh();
+        } catch (err) {
+            showMessage(errorText(err), 'status-error');
+            clearBtn.disabled = false;
+        }
+    });
+
+    adminKey.addEventListener('change', () => {
+        showMessage('', '');
+        void refresh();
+    });
+
+    void refresh();
+    return { refresh };
+}
@@ -0,0 +1,425 @@
+import { BackendClient, createBackendClient } from '../api/backendClient';
+import {
+    createCrawlConfig, deleteCrawlConfig, listCrawlConfigs, patchCrawlConfig,
+} from '../api/crawlConfigClient';
+import { resolveIdentity, setReviewerIdentity } from '../api/reviewerIdentityClient';
+import {
+    loadReviewerDisplayName, saveActiveProfileName, saveProfiles, saveReviewerDisplayName, BackendProfile,
+} from '../common/extensionSettings';
+import { downloadFile } from '../common/download';
+import { t } from '../common/i18n';
+import { formatCrawlInterval, isCrawlConfigFor } from './crawlConfigEditor';
+
+/** Format version written by this extension; files with another version are rejected. */
+export const CONFIG_EXPORT_VERSION = 1;
+
+export interface CrawlSettings {
+    intervalSeconds: number;
+    isActive: boolean;
+}
+
+/** Exported settings of one project, as written to the JSON file. */
+export interface ConfigExport {
+    version: typeof CONFIG_EXPORT_VERSION;
+    exportedAt?: string;
+    profile: {
+        name: string;
+        backendUrl: string;
+        clientId: string;
+        /** Only present when the user chose to include it. */
+        clientKey?: string;
+    };
+    /** `null`: no reviewer identity; an import leaves the current one. */
+    reviewerDisplayName: string | null;
+    /** Crawl configuration of the project; `null`: not crawled, an import leaves the current one. */
+    crawl: CrawlSettings | null;
+}
+
+export interface ParsedConfigImport {
+    /** `null` when the file has errors. */
+    config: ConfigExport | null;
+    /** Human-readable problems, prefixed with the path of the offending value. */
+    errors: string[];
+}
+
+/** What an import would replace. `crawl` is `'unknown'` when it could not be loaded. */
+export interface CurrentConfig {
+    /** Saved profile with the imported name, if any. */
+    profile: BackendProfile | null;
+    activeProfile: string | null;
+    reviewerDisplayName: string;
+    crawl: CrawlSettings | null | 'unknown';
+}
+
+export type ConfigSetting = 'profile' | 'backendUrl' | 'clientId' | 'clientKey' | 'activeProfile' | 'reviewer' | 'crawl';
+
+export interface ConfigChange {
+    setting: ConfigSetting;
+    from: string;
+    to: string;
+}
+
+export function buildConfigExport(
+    profile: BackendProfile, reviewerDisplayName: string, crawl: CrawlSettings | null, includeClientKey: boolean,
+): ConfigExport {
+    return {
+        version: CONFIG_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        profile: {
+            name: profile.name,
+            backendUrl: profile.backendUrl,
+            clientId: profile.clientId,
+            ...(includeClientKey ? { clientKey: profile.clientKey } : {}),
+        },
+        reviewerDisplayName: reviewerDisplayName || null,
+        crawl,
+    };
+}
+
+export function configFileName(profileName: string): string {
+    return `meister-propr-${profileName.replace(/[^\w.-]+/g, '-') || 'settings'}.json`;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function isHttpUrl(value: string): boolean {
+    try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+}
+
+/** Checks `text` against the export format; unknown properties are errors so typos do not go unnoticed. */
+export function parseConfigImport(text: string): ParsedConfigImport {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        return { config: null, errors: [t('settings.transfer.notJson')] };
+    }
+
+    const errors: string[] = [];
+    const problem = (path: string, message: string) => errors.push(t('settings.transfer.problem', { path, problem: message }));
+    const checkKeys = (object: Record<string, unknown>, path: string, allowed: string[]) => {
+        for (const key of Object.keys(object)) {
+            if (!allowed.includes(key)) problem(path ? `${path}.${key}` : key, t('settings.transfer.expected.known'));
+        }
+    };
+    const checkText = (object: Record<string, unknown>, key: string, path: string, required: boolean) => {
+        const field = object[key];
+        if (typeof field !== 'string') problem(path, t('settings.transfer.expected.string'));
+        else if (required && !field.trim()) problem(path, t('settings.transfer.expected.nonEmpty'));
+    };
+
+    if (!isObject(value)) return { config: null, errors: [t('settings.transfer.expected.document')] };
+    if (typeof value.version === 'number' && value.version > CONFIG_EXPORT_VERSION) {
+        return { config: null, errors: [t('settings.transfer.newerVersion', { version: value.version, supported: CONFIG_EXPORT_VERSION })] };
+    }
+    if (value.version !== CONFIG_EXPORT_VERSION) problem('version', t('settings.transfer.expected.version', { version: CONFIG_EXPORT_VERSION }));
+    checkKeys(value, '', ['version', 'exportedAt', 'profile', 'reviewerDisplayName', 'crawl']);
+    if (value.exportedAt !== undefined) checkText(value, 'exportedAt', 'exportedAt', false);
+
+    const profile = value.profile;
+    if (!isObject(profile)) {
+        problem('profile', t('settings.transfer.expected.object'));
+    } else {
+        checkKeys(profile, 'profile', ['name', 'backendUrl', 'clientId', 'clientKey']);
+        checkText(profile, 'name', 'profile.name', true);
+        checkText(profile, 'clientId', 'profile.clientId', true);
+        if (profile.clientKey !== undefined) checkText(profile, 'clientKey', 'profile.clientKey', true);
+        if (typeof profile.backendUrl !== 'string' || !isHttpUrl(profile.backendUrl)) {
+            problem('profile.backendUrl', t('settings.transfer.expected.url'));
+        }
+    }
+
+    if (value.reviewerDisplayName !== null) checkText(value, 'reviewerDisplayName', 'reviewerDisplayName', false);
+
+    const crawl = value.crawl;
+    if (crawl !== null) {
+        if (!isObject(crawl)) {
+            problem('crawl', t('settings.transfer.expected.objectOrNull'));
+        } else {
+            checkKeys(crawl, 'crawl', ['intervalSeconds', 'isActive']);
+            const interval = crawl.intervalSeconds;
+            if (typeof interval !== 'number' || !Number.isInteger(interval) || interval < 1) {
+                problem('crawl.intervalSeconds', t('settings.transfer.expected.interval'));
+            }
+            if (typeof crawl.isActive !== 'boolean') problem('crawl.isActive', t('settings.transfer.expected.boolean'));
+        }
+    }
+
+    return errors.length ? { config: null, errors } : { config: value as unknown as ConfigExport, errors };
+}
+
+function formatCrawlSettings(crawl: CrawlSettings | null | 'unknown'): string {
+    if (crawl === 'unknown') return t('settings.transfer.unknown');
+    if (!crawl) return t('settings.transfer.none');
+    const interval = formatCrawlInterval(crawl.intervalSeconds);
+    return crawl.isActive ? interval : t('settings.transfer.crawlPaused', { interval });
+}
+
+/** Settings an import of `imported` would change, in the order they appear in the settings hub. */
+export function diffConfig(current: CurrentConfig, imported: ConfigExport): ConfigChange[] {
+    const changes: ConfigChange[] = [];
+    const none = t('settings.transfer.none');
+    const hidden = t('settings.transfer.hidden');
+    const change = (setting: ConfigSetting, from: string | undefined, to: string) => {
+        if ((from ?? '') !== to) changes.push({ setting, from: from || none, to });
+    };
+
+    const { profile } = imported;
+    if (!current.profile) changes.push({ setting: 'profile', from: none, to: profile.name });
+    change('backendUrl', current.profile?.backendUrl, profile.backendUrl);
+    change('clientId', current.profile?.clientId, profile.clientId);
+    if (profile.clientKey !== undefined && profile.clientKey !== current.profile?.clientKey) {
+        changes.push({ setting: 'clientKey', from: current.profile?.clientKey ? hidden : none, to: hidden });
+    }
+    change('activeProfile', current.activeProfile ?? undefined, profile.name);
+    if (imported.reviewerDisplayName) change('reviewer', current.reviewerDisplayName, imported.reviewerDisplayName);
+
+    const crawl = imported.crawl;
+    const currentCrawl = current.crawl;
+    if (crawl && (currentCrawl === 'unknown' || !currentCrawl
+        || currentCrawl.intervalSeconds !== crawl.intervalSeconds || currentCrawl.isActive !== crawl.isActive)) {
+        changes.push({ setting: 'crawl', from: formatCrawlSettings(currentCrawl), to: formatCrawlSettings(crawl) });
+    }
+    return changes;
+}
+
+export interface ConfigTransferElements {
+    includeKey: HTMLInputElement;
+    exportBtn: HTMLButtonElement;
+    importFile: HTMLInputElement;
+    preview: HTMLElement;
+    applyBtn: HTMLButtonElement;
+    cancelBtn: HTMLButtonElement;
+    status: HTMLElement;
+}
+
+export interface ConfigTransferOptions {
+    projectId: string;
+    orgUrl: string;
+    projectName: string;
+    /** Profile and reviewer name currently in the form. */
+    form(): { profile: BackendProfile; reviewerDisplayName: string };
+    /** Profiles as last saved. */
+    profiles(): BackendProfile[];
+    activeProfileName(): string | null;
+    /**
+     * Runs after an import saved `profiles`, also when a later step failed. `activated`: `profile` became the
+     * active one; `reviewerDisplayName` is only set when the reviewer identity was saved.
+     */
+    onImported(profiles: BackendProfile[], profile: BackendProfile, activated: boolean, reviewerDisplayName: string | null): void;
+}
+
+/**
+ * "Export / import" section. Export writes the form's profile, the reviewer name and the crawl
+ * configuration of this project; import validates a file, previews the changes and applies them.
+ */
+/** Key an import uses: the file's, else the saved profile's if it is for the same client. */
+function importedClientKey(config: ConfigExport, existing: BackendProfile | null): string {
+    if (config.profile.clientKey !== undefined) return config.profile.clientKey;
+    return existing?.clientId === config.profile.clientId ? existing.clientKey : '';
+}
+
+/** Settings an import without a client key leaves alone. */
+const NEEDS_KEY: ConfigSetting[] = ['activeProfile', 'reviewer', 'crawl'];
+
+export function initConfigTransfer(elements: ConfigTransferElements, options: ConfigTransferOptions): void {
+    const { includeKey, exportBtn, importFile, preview, applyBtn, cancelBtn, status } = elements;
+    let pending: ConfigExport | null = null;
+
+    function showStatus(text: string, className = ''): void {
+        status.textContent = text;
+        status.className = `input-hint ${className}`.trim();
+    }
+
+    const errorText = (err: unknown) => (err as Error)?.message || t('settings.unknownError');
+
+    async function loadCrawl(backend: BackendClient): Promise<CrawlSettings | null> {
+        const config = (await listCrawlConfigs(backend))
+            .find(c => isCrawlConfigFor(c, options.orgUrl, options.projectName));
+        return config ? { intervalSeconds: config.crawlIntervalSeconds ?? 0, isActive: config.isActive !== false } : null;
+    }
+
+    function closePreview(): void {
+        pending = null;
+        preview.innerHTML = '';
+        preview.hidden = true;
+        applyBtn.hidden = cancelBtn.hidden = true;
+        importFile.value = '';
+    }
+
+    function renderPreview(changes: ConfigChange[], notes: string[]): void {
+        preview.innerHTML = '';
+        preview.hidden = false;
+        if (changes.length === 0) {
+            const same = document.createElement('p');
+            same.className = 'input-hint';
+            same.textContent = t('settings.transfer.noChanges');
+            preview.appendChild(same);
+        } else {
+            const table = document.createElement('table');
+            table.className = 'transfer-table';
+            const head = table.createTHead().insertRow();
+            for (const key of ['setting', 'current', 'imported'] as const) {
+                const th = document.createElement('th');
+                th.textContent = t(`settings.transfer.column.${key}`);
+                head.appendChild(th);
+            }
+            const body = table.createTBody();
+            for (const change of changes) {
+                const row = body.insertRow();
+                row.setAttribute('data-setting', change.setting);
+                row.insertCell().textContent = t(`settings.transfer.setting.${change.setting}`);
+                row.insertCell().textContent = change.from;
+                row.insertCell().textContent = change.to;
+            }
+            preview.appendChild(table);
+        }
+        for (const note of notes) {
+            const p = document.createElement('p');
+            p.className = 'input-hint status-error';
+            p.textContent = note;
+            preview.appendChild(p);
+        }
+        applyBtn.hidden = changes.length === 0;
+        cancelBtn.hidden = false;
+    }
+
+    exportBtn.addEventListener('click', async () => {
+        const { profile, reviewerDisplayName } = options.form();
+        exportBtn.disabled = true;
+        try {
+            const complete = profile.backendUrl && profile.clientKey && profile.clientId;
+            const crawl = complete ? await loadCrawl(createBackendClient(profile)) : null;
+            const config = buildConfigExport(profile, reviewerDisplayName, crawl, includeKey.checked);
+            downloadFile({
+                fileName: configFileName(profile.name),
+                mimeType: 'application/json',
+                content:  JSON.stringify(config, null, 2) + '\n',
+            });
+            showStatus(t(includeKey.checked ? 'settings.transfer.exportedWithKey' : 'settings.transfer.exported'), 'status-success');
+        } catch (err) {
+            showStatus(t('settings.transfer.exportFailed', { error: errorText(err) }), 'status-error');
+        } finally {
+            exportBtn.disabled = false;
+        }
+    });
+
+    async function previewImport(file: File): Promise<void> {
+        const { config, errors } = parseConfigImport(await file.text());
+        if (!config) {
+            closePreview();
+            showStatus(t('settings.transfer.invalid', { errors: errors.join('; ') }), 'status-error');
+            return;
+        }
+
+        const existing = options.profiles().find(p => p.name === config.profile.name) ?? null;
+        const clientKey = importedClientKey(config, existing);
+        const notes: string[] = [];
+        let crawl: CurrentConfig['crawl'] = null;
+        if (!clientKey) {
+            notes.push(t('settings.transfer.keyMissing'));
+        } else if (config.crawl) {
+            try {
+                crawl = await loadCrawl(createBackendClient({ ...config.profile, clientKey }));
+            } catch {
+                crawl = 'unknown';
+            }
+        }
+        const changes = diffConfig({
+            profile: existing,
+            activeProfile: options.activeProfileName(),
+            reviewerDisplayName: await loadReviewerDisplayName(),
+            crawl,
+        }, config).filter(change => clientKey || !NEEDS_KEY.includes(change.setting));
+        pending = config;
+        renderPreview(changes, notes);
+    }
+
+    importFile.addEventListener('change', async () => {
+        const file = importFile.files?.[0];
+        if (!file) return;
+        showStatus('');
+        try {
+            await previewImport(file);
+        } catch (err) {
+            closePreview();
+            showStatus(t('settings.transfer.readFailed', { error: errorText(err) }), 'status-error');
+        }
+    });
+
+    cancelBtn.addEventListener('click', closePreview);
+
+    applyBtn.addEventListener('click', async () => {
+        const config = pending;
+        if (!config) return;
+        const existing = options.profiles().find(p => p.name === config.profile.name) ?? null;
+        const profile: BackendProfile = {
+            name:       config.profile.name,
+            backendUrl: config.profile.backendUrl,
+            clientId:   config.profile.clientId,
+            clientKey:  importedClientKey(config, existing),
+        };
+        const profiles = existing
+            ? options.profiles().map(p => p.name === profile.name ? profile : p)
+            : [...options.profiles(), profile];
+
+        applyBtn.disabled = true;
+        showStatus(t('settings.transfer.applying'));
+        let saved = false;
+        let activated = false;
+        let reviewerSaved = false;
+        try {
+            await saveProfiles(profiles);
+            saved = true;
+
+            // A profile without a key cannot reach the backend, so it does not replace the project's profile
+            if (profile.clientKey) {
+                await saveActiveProfileName(options.projectId, profile.name);
+                activated = true;
+                const backend = createBackendClient(profile);
+                if (config.crawl) await applyCrawl(backend, config.crawl);
+                if (config.reviewerDisplayName) {
+                    const reviewerId = await resolveIdentity(backend, options.orgUrl, config.reviewerDisplayName);
+                    if (!reviewerId) throw new Error(t('settings.identityNotFound'));
+                    await setReviewerIdentity(backend, reviewerId);
+                    await saveReviewerDisplayName(config.reviewerDisplayName);
+                    reviewerSaved = true;
+                }
+            }
+            closePreview();
+            showStatus(t('settings.transfer.imported'), 'status-success');
+        } catch (err) {
+            showStatus(t('settings.transfer.importFailed', { error: errorText(err) }), 'status-error');
+        } finally {
+            applyBtn.disabled = false;
+            if (saved) {
+                options.onImported(profiles, profile, activated, reviewerSaved ? config.reviewerDisplayName : null);
+            }
+        }
+    });
+
+    async function applyCrawl(backend: BackendClient, crawl: CrawlSettings): Promise<void> {
+        let config = (await listCrawlConfigs(backend))
+            .find(c => isCrawlConfigFor(c, options.orgUrl, options.projectName));
+        // The API cannot change an interval, so a different one replaces the configuration
+        if (config && config.crawlIntervalSeconds !== crawl.intervalSeconds) {
+            await deleteCrawlConfig(backend, config.id!);
+            config = undefined;
+        }
+        config ??= await createCrawlConfig(backend, {
+            organizationUrl: options.orgUrl,
+            projectId: options.projectName,
+            crawlIntervalSeconds: crawl.intervalSeconds,
+        });
+        if ((config.isActive !== false) !== crawl.isActive) {
+            await patchCrawlConfig(backend, config.id!, { isActive: crawl.isActive });
+        }
+    }
+
+    closePreview();
+}
@@ -0,0 +1,137 @@
+import type { ExtensionSettings } from '../common/extensionSettings';
+import { createBackendClient } from '../api/backendClient';
+import { NetworkError, NotFoundError, TimeoutError, UnauthorizedError } from '../api/errors';
+import { getClientProfile } from '../api/reviewerIdentityClient';
+import { t } from '../common/i18n';
+
+export type ConnectionCheck = 'url' | 'reachable' | 'tls' | 'cors' | 'clientKey' | 'clientId';
+
+export type CheckOutcome = 'pass' | 'fail' | 'warn' | 'skip';
+
+export interface CheckResult {
+    check: ConnectionCheck;
+    outcome: CheckOutcome;
+    message: string;
+}
+
+/** Connection test calls are not retried and give up sooner than regular calls. */
+const TEST_TIMEOUT_MS = 10_000;
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Request that is not subject to CORS: it resolves whenever the server answers at all and
+ * rejects only when no connection (DNS, TCP or TLS) can be made.
+ */
+export async function noCorsProbe(url: string): Promise<void> {
+    await fetch(url, { mode: 'no-cors', cache: 'no-store', signal: AbortSignal.timeout(TEST_TIMEOUT_MS) });
+}
+
+/**
+ * Checks the connection step by step and reports each result through `onResult` as soon as it
+ * is known. Browsers do not tell a refused connection from an untrusted certificate, so a failed
+ * probe to an HTTPS backend fails both the reachability and the TLS check.
+ */
+export async function runConnectionTest(
+    settings: ExtensionSettings,
+    onResult: (result: CheckResult) => void,
+    probe: (url: string) => Promise<void> = noCorsProbe,
+    pageProtocol: string = window.location.protocol,
+): Promise<CheckResult[]> {
+    const results: CheckResult[] = [];
+    const report = (check: ConnectionCheck, outcome: CheckOutcome, message: string) => {
+        const result = { check, outcome, message };
+        results.push(result);
+        onResult(result);
+    };
+    const skipRest = (from: ConnectionCheck[], reason: string) => from.forEach(check => report(check, 'skip', reason));
+
+    let url: URL;
+    try {
+        url = new URL(settings.backendUrl);
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error(url.protocol);
+    } catch {
+        report('url', 'fail', t('settings.check.urlInvalid'));
+        skipRest(['reachable', 'tls', 'cors', 'clientKey', 'clientId'], t('settings.check.skipped'));
+        return results;
+    }
+    // HTTPS pages may not call plain HTTP backends; browsers make an exception for the local machine
+    if (url.protocol === 'http:' && pageProtocol === 'https:' && !LOCAL_HOSTS.includes(url.hostname)) {
+        report('url', 'fail', t('settings.check.urlMixedContent'));
+        skipRest(['reachable', 'tls', 'cors', 'clientKey', 'clientId'], t('settings.check.skipped'));
+        return results;
+    }
+    report('url', 'pass', url.origin);
+
+    const https = url.protocol === 'https:';
+    const reportTls = () => report('tls', https ? 'pass' : 'warn', t(https ? 'settings.check.tlsTrusted' : 'settings.check.tlsNone'));
+    const timedOut = t('settings.check.timeout', { seconds: TEST_TIMEOUT_MS / 1000 });
+    try {
+        await probe(settings.backendUrl);
+    } catch (err) {
+        // A slow server is reachable in principle; do not send the admin after DNS, firewall or certificate
+        if ((err as Error)?.name === 'TimeoutError') {
+            report('reachable', 'fail', timedOut);
+            skipRest(['tls', 'cors', 'clientKey', 'clientId'], t('settings.check.skipped'));
+            return results;
+        }
+        report('reachable', 'fail', t('settings.check.unreachable', { host: url.host }));
+        if (https) report('tls', 'fail', t('settings.check.tlsUntrusted', { url: url.origin }));
+        else report('tls', 'warn', t('settings.check.tlsNone'));
+        skipRest(['cors', 'clientKey', 'clientId'], t('settings.check.skipped'));
+        return results;
+    }
+
+    if (!settings.clientKey || !settings.clientId) {
+        report('reachable', 'pass', t('settings.check.reachable.ok'));
+        reportTls();
+        skipRest(['cors', 'clientKey', 'clientId'], t('settings.check.credentialsMissing'));
+        return results;
+    }
+
+    // The profile call carries X-Client-Key, so the browser sends a preflight before it. Reachability is
+    // reported after it, as a call that times out means the backend is too slow, not that CORS is wrong
+    const client = createBackendClient(settings, { timeoutMs: TEST_TIMEOUT_MS, retry: false });
+    try {
+        const profile = await getClientProfile(client);
+        report('reachable', 'pass', t('settings.check.reachable.ok'));
+        reportTls();
+        report('cors', 'pass', t('settings.check.corsAllowed'));
+        report('clientKey', 'pass', t('settings.check.keyAccepted'));
+        if (profile.isActive === false) {
+            report('clientId', 'warn', t('settings.check.clientInactive', { name: profile.displayName ?? settings.clientId }));
+        } else {
+            report('clientId', 'pass', t('settings.check.clientFound', { name: profile.displayName ?? settings.clientId }));
+        }
+    } catch (err) {
+        if (err instanceof TimeoutError) {
+            report('reachable', 'fail', timedOut);
+            reportTls();
+            skipRest(['cors', 'clientKey', 'clientId'], t('settings.check.skipped'));
+            return results;
+        }
+        report('reachable', 'pass', t('settings.check.reachable.ok'));
+        reportTls();
+        if (err instanceof NetworkError) {
+            // The server answered the probe, so a failing call means the preflight was refused
+            report('cors', 'fail', t('settings.check.corsRejected', { origin: window.location.origin }));
+            skipRest(['clientKey', 'clientId'], t('settings.check.skipped'));
+            return results;
+        }
+        report('cors', 'pass', t('settings.check.corsAllowed'));
+        if (err instanceof UnauthorizedError && err.status === 401) {
+            report('clientKey', 'fail', t('settings.check.keyRejected'));
+            report('clientId', 'skip', t('settings.check.skipped'));
+        } else if (err instanceof UnauthorizedError) {
+            report('clientKey', 'pass', t('settings.check.keyAccepted'));
+            report('clientId', 'fail', t('settings.check.clientForeign'));
+        } else if (err instanceof NotFoundError) {
+            report('clientKey', 'pass', t('settings.check.keyAccepted'));
+            report('clientId', 'fail', t('settings.check.clientNotFound'));
+        } else {
+            report('clientKey', 'fail', (err as Error).message);
+            report('clientId', 'skip', t('settings.check.skipped'));
+        }
+    }
+    return results;
+}
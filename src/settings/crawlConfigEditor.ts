@@ -0,0 +1,191 @@
+import type { BackendClient } from '../api/backendClient';
+import {
+    createCrawlConfig, deleteCrawlConfig, listCrawlConfigs, patchCrawlConfig, DEFAULT_CRAWL_INTERVAL_SECONDS,
+} from '../api/crawlConfigClient';
+import type { CrawlConfigResponse } from '../generated/models/CrawlConfigResponse';
+import { normalizeOrgUrl, sameOrgUrl } from '../common/hostUrl';
+import { formatDateTime, t, tn } from '../common/i18n';
+
+export interface CrawlConfigEditorElements {
+    list: HTMLElement;
+    /** Interval in minutes for new configurations. */
+    interval: HTMLInputElement;
+    addBtn: HTMLButtonElement;
+    status: HTMLElement;
+}
+
+export interface CrawlConfigEditorOptions {
+    orgUrl: string;
+    projectName: string;
+    /** Client for the connection in the form; `null` while it is incomplete. */
+    backend(): BackendClient | null;
+}
+
+export interface CrawlConfigEditor {
+    /** Reloads the configurations, e.g. after the connection in the form changed. */
+    refresh(): Promise<void>;
+}
+
+function configKey(config: CrawlConfigResponse): string {
+    return `${normalizeOrgUrl(config.organizationUrl ?? '').toLowerCase()}|${(config.projectId ?? '').toLowerCase()}`;
+}
+
+/** IDs of configurations that crawl the same organization and project as another one. */
+export function findDuplicateCrawlConfigs(configs: CrawlConfigResponse[]): Set<string> {
+    const counts = new Map<string, number>();
+    for (const config of configs) counts.set(configKey(config), (counts.get(configKey(config)) ?? 0) + 1);
+    return new Set(configs.filter(c => counts.get(configKey(c))! > 1).map(c => c.id!));
+}
+
+/** Whether `config` crawls the given project of the given organization. */
+export function isCrawlConfigFor(config: CrawlConfigResponse, orgUrl: string, projectName: string): boolean {
+    return sameOrgUrl(config.organizationUrl, orgUrl) && config.projectId === projectName;
+}
+
+export function formatCrawlInterval(seconds: number): string {
+    return seconds % 60 === 0
+        ? tn('settings.crawl.everyMinutes', seconds / 60)
+        : tn('settings.crawl.everySeconds', seconds);
+}
+
+/**
+ * Lists every crawl configuration of the client in the form, with pause / resume and delete, and adds
+ * configurations for the current project. Changes are applied immediately.
+ */
+export function initCrawlConfigEditor(
+    elements: CrawlConfigEditorElements, options: CrawlConfigEditorOptions,
+): CrawlConfigEditor {
+    const { list, interval, addBtn, status } = elements;
+    let configs: CrawlConfigResponse[] = [];
+    interval.value = String(DEFAULT_CRAWL_INTERVAL_SECONDS / 60);
+
+    function showStatus(text: string, className = ''): void {
+        status.textContent = text;
+        status.className = `input-hint ${className}`.trim();
+    }
+
+    const isCurrentProject = (config: CrawlConfigResponse) =>
+        isCrawlConfigFor(config, options.orgUrl, options.projectName);
+
+    async function apply(action: (backend: BackendClient) => Promise<unknown>, done: string): Promise<void> {
+        const backend = options.backend();
+        if (!backend) return;
+        try {
+            await action(backend);
+            showStatus(done, 'status-success');
+        } catch (err) {
+            showStatus(t('settings.saveFailed', { error: (err as Error).message || t('settings.unknownError') }), 'status-error');
+        }
+        await refresh();
+    }
+
+    function actionButton(label: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'btn-link';
+        button.textContent = label;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+
+    function cell(row: HTMLTableRowElement, text: string): HTMLTableCellElement {
+        const td = row.insertCell();
+        td.textContent = text;
+        return td;
+    }
+
+    function render(): void {
+        list.innerHTML = '';
+        if (configs.length === 0) {
+            const empty = document.createElement('p');
+            empty.className = 'input-hint';
+            empty.textContent = t('settings.crawl.none');
+            list.appendChild(empty);
+            return;
+        }
+
+        const duplicates = findDuplicateCrawlConfigs(configs);
+        const table = document.createElement('table');
+        table.className = 'crawl-table';
+        const head = table.createTHead().insertRow();
+        for (const key of ['organization', 'project', 'interval', 'state', 'created'] as const) {
+            const th = document.createElement('th');
+            th.textContent = t(`settings.crawl.column.${key}`);
+            head.appendChild(th);
+        }
+        head.appendChild(document.createElement('th'));
+
+        const body = table.createTBody();
+        for (const config of configs) {
+            const row = body.insertRow();
+            row.className = 'crawl-row';
+            if (isCurrentProject(config)) row.classList.add('crawl-row--current');
+            row.setAttribute('data-config-id', config.id!);
+
+            cell(row, config.organizationUrl ?? '');
+            const project = cell(row, config.projectId ?? '');
+            if (duplicates.has(config.id!)) {
+                const badge = document.createElement('span');
+                badge.className = 'crawl-duplicate';
+                badge.textContent = t('settings.crawl.duplicate');
+                badge.title = t('settings.crawl.duplicateHint');
+                project.append(' ', badge);
+            }
+            cell(row, formatCrawlInterval(config.crawlIntervalSeconds ?? DEFAULT_CRAWL_INTERVAL_SECONDS));
+            const active = config.isActive !== false;
+            cell(row, t(active ? 'settings.crawl.active' : 'settings.crawl.paused'))
+                .className = active ? 'status-success' : 'crawl-paused';
+            cell(row, config.createdAt ? formatDateTime(config.createdAt) : '');
+
+            const actions = row.insertCell();
+            actions.className = 'crawl-actions';
+            actions.appendChild(actionButton(t(active ? 'settings.crawl.pause' : 'settings.crawl.resume'), () => void apply(
+                backend => patchCrawlConfig(backend, config.id!, { isActive: !active }),
+                t(active ? 'settings.crawl.pausedDone' : 'settings.crawl.resumedDone'),
+            )));
+            actions.appendChild(actionButton(t('settings.crawl.delete'), () => {
+                if (!confirm(t('settings.crawl.confirmDelete', { project: config.projectId ?? '' }))) return;
+                void apply(backend => deleteCrawlConfig(backend, config.id!), t('settings.crawl.deleted'));
+            }));
+        }
+        list.appendChild(table);
+    }
+
+    async function refresh(): Promise<void> {
+        const backend = options.backend();
+        configs = [];
+        addBtn.disabled = !backend;
+        if (!backend) {
+            list.innerHTML = '';
+            return;
+        }
+        try {
+            configs = await listCrawlConfigs(backend);
+        } catch (err) {
+            list.innerHTML = '';
+            showStatus(t('settings.crawl.loadFailed', { error: (err as Error).message || t('settings.unknownError') }), 'status-error');
+            return;
+        }
+        render();
+    }
+
+    addBtn.addEventListener('click', () => {
+        const minutes = Number(interval.value);
+        if (!Number.isInteger(minutes) || minutes < 1) {
+            showStatus(t('settings.crawl.intervalInvalid'), 'status-error');
+            return;
+        }
+        // The API cannot change an interval, so a second configuration would only crawl the project twice
+        if (configs.some(isCurrentProject)) {
+            showStatus(t('settings.crawl.alreadyConfigured'), 'status-error');
+            return;
+        }
+        addBtn.disabled = true;
+        void apply(backend => createCrawlConfig(backend, {
+            organizationUrl: options.orgUrl,
+            projectId: options.projectName,
+            crawlIntervalSeconds: minutes * 60,
+        }), t('settings.crawl.added'));
+    });
+
+    return { refresh };
+}
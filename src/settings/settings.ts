@@ -1,10 +1,22 @@
 import * as SDK from 'azure-devops-extension-sdk';
 import { IdentityServiceIds, IVssIdentityService } from 'azure-devops-extension-api/Identities';
-import { loadSettings, saveSettings, loadReviewerDisplayName, saveReviewerDisplayName, ExtensionSettings } from '../common/extensionSettings';
-import { listCrawlConfigs, createCrawlConfig, deleteCrawlConfig, DEFAULT_CRAWL_INTERVAL_SECONDS } from '../api/crawlConfigClient';
+import {
+    loadProfiles, saveProfiles, loadActiveProfile, saveActiveProfileName,
+    loadReviewerDisplayName, saveReviewerDisplayName, renameProfileReferences, clearProfileReferences, BackendProfile, DEFAULT_PROFILE_NAME,
+} from '../common/extensionSettings';
+import { createBackendClient } from '../api/backendClient';
 import { setReviewerIdentity, resolveIdentity } from '../api/reviewerIdentityClient';
+import { resolveOrgUrl } from '../common/hostUrl';
+import { localizeDocument, setLocale, t } from '../common/i18n';
+import { initSettingsOverrides } from './settingsOverrides';
+import { CheckOutcome, CheckResult, runConnectionTest } from './connectionTest';
+import { initAdoCredentials } from './adoCredentials';
+import { initCrawlConfigEditor } from './crawlConfigEditor';
+import { initConfigTransfer } from './configTransfer';
 import './settings.css';
 
+const CHECK_ICONS: Record<CheckOutcome, string> = { pass: '✓', fail: '✗', warn: '!', skip: '–' };
+
 // T016: module-level reviewer identity state
 let selectedReviewerId: string | null = null;
 let debounceTimer: ReturnType<typeof setTimeout> | undefined;
@@ -19,46 +31,127 @@ function el<T extends HTMLElement>(id: string): T {
 
 async function main(): Promise<void> {
     await SDK.init({ loaded: false });
+    setLocale(SDK.getPageContext().globalization?.culture);
+    localizeDocument();
 
+    const profileSelect     = el<HTMLSelectElement>('profile-select');
+    const profileNewBtn     = el<HTMLButtonElement>('profile-new-btn');
+    const profileDeleteBtn  = el<HTMLButtonElement>('profile-delete-btn');
+    const profileNameInput  = el<HTMLInputElement>('profile-name');
     const backendUrlInput   = el<HTMLInputElement>('backend-url');
     const clientKeyInput    = el<HTMLInputElement>('client-key');
     const clientIdInput     = el<HTMLInputElement>('client-id');
-    const crawlEnabledInput = el<HTMLInputElement>('crawl-enabled');
+    const testConnectionBtn = el<HTMLButtonElement>('test-connection-btn');
+    const connectionResults = el<HTMLUListElement>('connection-results');
     const crawlHint         = el<HTMLDivElement>('crawl-hint');
     const reviewerSearchInput = el<HTMLInputElement>('reviewer-search');
     const reviewerDropdown  = el<HTMLUListElement>('reviewer-dropdown');
     const reviewerHint      = el<HTMLDivElement>('reviewer-hint');
     const saveBtn           = el<HTMLButtonElement>('save-btn');
     const statusMsg         = el<HTMLDivElement>('status-message');
+    const overridesScope    = el<HTMLSelectElement>('overrides-scope');
+    const overridesList     = el<HTMLDivElement>('settings-overrides');
+    const overridesStatus   = el<HTMLDivElement>('overrides-status');
 
     const context  = SDK.getPageContext();
-    const orgName  = SDK.getHost().name;
-    const orgUrl   = `https://dev.azure.com/${orgName}/`;
+    const orgUrl   = await resolveOrgUrl();
+    const projectId   = context.webContext.project.id;
     const projectName = context.webContext.project.name;
 
-    const settings = await loadSettings();
-    backendUrlInput.value = settings.backendUrl ?? '';
-    clientKeyInput.value  = settings.clientKey  ?? '';
-    clientIdInput.value   = settings.clientId   ?? '';
+    // Profiles as last saved; `editingName` is the saved name of the profile in the form (null: a new one)
+    let profiles: BackendProfile[] = await loadProfiles();
+    let activeName = (await loadActiveProfile(projectId))?.name ?? null;
+    let editingName: string | null = activeName;
+
+    function renderProfileSelect(): void {
+        profileSelect.innerHTML = '';
+        for (const profile of profiles) {
+            const opt = document.createElement('option');
+            opt.value = profile.name;
+            opt.textContent = profile.name === activeName ? t('settings.activeProfile', { name: profile.name }) : profile.name;
+            profileSelect.appendChild(opt);
+        }
+        if (editingName === null) {
+            const opt = document.createElement('option');
+            opt.value = '';
+            opt.textContent = t('settings.unsavedProfile');
+            profileSelect.appendChild(opt);
+        }
+        profileSelect.value = editingName ?? '';
+        profileDeleteBtn.disabled = editingName === null;
+    }
+
+    function fillForm(profile: BackendProfile | null): void {
+        editingName = profile?.name ?? null;
+        profileNameInput.value = profile?.name ?? (profiles.length ? '' : DEFAULT_PROFILE_NAME);
+        backendUrlInput.value  = profile?.backendUrl ?? '';
+        clientKeyInput.value   = profile?.clientKey  ?? '';
+        clientIdInput.value    = profile?.clientId   ?? '';
+        renderProfileSelect();
+    }
+
+    fillForm(profiles.find(p => p.name === activeName) ?? null);
+
+    // Helper: client for the values currently in the form (they may differ from the saved ones)
+    function backendFromInputs() {
+        return createBackendClient({
+            backendUrl: backendUrlInput.value.trim(),
+            clientKey:  clientKeyInput.value.trim(),
+            clientId:   clientIdInput.value.trim(),
+        });
+    }
+
+    function renderCheck(result: CheckResult): void {
+        const item = document.createElement('li');
+        item.className = `connection-check connection-check--${result.outcome}`;
+        item.setAttribute('data-check', result.check);
+        const icon = document.createElement('span');
+        icon.className = 'connection-check__icon';
+        icon.textContent = CHECK_ICONS[result.outcome];
+        const label = document.createElement('span');
+        label.className = 'connection-check__label';
+        label.textContent = t(`settings.check.${result.check}`);
+        const message = document.createElement('span');
+        message.textContent = result.message;
+        item.append(icon, label, message);
+        connectionResults.appendChild(item);
+    }
+
+    // Tests the values in the form, so a profile can be checked before it is saved
+    testConnectionBtn.addEventListener('click', async () => {
+        testConnectionBtn.disabled = true;
+        testConnectionBtn.textContent = t('settings.testing');
+        connectionResults.innerHTML = '';
+        connectionResults.hidden = false;
+        try {
+            await runConnectionTest({
+                backendUrl: backendUrlInput.value.trim(),
+                clientKey:  clientKeyInput.value.trim(),
+                clientId:   clientIdInput.value.trim(),
+            }, renderCheck);
+        } finally {
+            testConnectionBtn.disabled = false;
+            testConnectionBtn.textContent = t('settings.testConnection');
+        }
+    });
 
     // Helper: resolve display name to VSS GUID via backend, store in selectedReviewerId
     async function resolveAndSetId(displayName: string): Promise<void> {
         selectedReviewerId = null;
-        reviewerHint.textContent = 'Resolving identity…';
+        reviewerHint.textContent = t('settings.resolvingIdentity');
         reviewerHint.className = 'input-hint';
         try {
-            const id = await resolveIdentity(
-                backendUrlInput.value.trim(), clientKeyInput.value.trim(), orgUrl, displayName);
+            const id = await resolveIdentity(backendFromInputs(), orgUrl, displayName);
             if (id) {
                 selectedReviewerId = id;
                 reviewerHint.textContent = '';
                 reviewerHint.className = 'input-hint';
             } else {
-                reviewerHint.textContent = 'Identity not found.';
+                reviewerHint.textContent = t('settings.identityNotFound');
                 reviewerHint.className = 'input-hint status-error';
             }
         } catch {
-            reviewerHint.textContent = 'Could not resolve identity.';
+            reviewerHint.textContent = t('settings.identityResolveFailed');
             reviewerHint.className = 'input-hint status-error';
         }
     }
@@ -79,15 +172,16 @@ async function main(): Promise<void> {
     reviewerSearchInput.addEventListener('blur', () => setTimeout(closeDropdown, 150));
     reviewerDropdown.addEventListener('mousedown', (e) => e.preventDefault());
 
+    const connectionComplete = () => backendUrlInput.value.trim() !== '' &&
+                                     clientKeyInput.value.trim() !== '' &&
+                                     clientIdInput.value.trim() !== '';
+
     const checkPrerequisites = () => {
-        const hasPrereqs = backendUrlInput.value.trim() !== '' &&
-                           clientKeyInput.value.trim() !== '' &&
-                           clientIdInput.value.trim() !== '';
+        const hasPrereqs = connectionComplete();
 
-        crawlEnabledInput.disabled = !hasPrereqs;
         reviewerSearchInput.disabled = !hasPrereqs;  // T021: guard reviewer field
         if (!hasPrereqs) {
-            crawlHint.textContent = 'Configure Backend URL, Client Key, and Client ID first.';
+            crawlHint.textContent = t('settings.configureFirst');
             crawlHint.className = 'input-hint status-error';
         } else {
             crawlHint.textContent = '';
@@ -120,7 +214,7 @@ async function main(): Promise<void> {
                 if (results.length === 0) {
                     const noResults = document.createElement('li');
                     noResults.className = 'autocomplete-item autocomplete-item--no-results';
-                    noResults.textContent = 'No results found';
+                    noResults.textContent = t('settings.noResults');
                     reviewerDropdown.appendChild(noResults);
                 } else {
                     for (const identity of results) {
@@ -134,7 +228,7 @@ async function main(): Promise<void> {
                 }
                 openDropdown();
             } catch {
-                reviewerHint.textContent = 'Could not search identities.';
+                reviewerHint.textContent = t('settings.identitySearchFailed');
                 reviewerHint.className = 'input-hint status-error';
                 closeDropdown();
             }
@@ -200,63 +294,174 @@ async function main(): Promise<void> {
         reviewerSearchInput.value = storedDisplayName;
     }
 
-    // Pre-populate crawl enabled state from backend
-    if (settings.backendUrl && settings.clientKey && settings.clientId) {
-        try {
-            const configs = await listCrawlConfigs(settings.backendUrl, settings.clientKey, settings.clientId);
-            const existing = configs.find(c =>
-                c.organizationUrl?.replace(/\/$/, '') === orgUrl.replace(/\/$/, '') &&
-                c.projectId === projectName
-            );
-            crawlEnabledInput.checked = !!existing;
-        } catch {
-            // Leave unchecked if we can't reach the backend
-        }
+    // Crawl configurations of the client in the form
+    const crawlEditor = initCrawlConfigEditor({
+        list:     el<HTMLDivElement>('crawl-configs'),
+        interval: el<HTMLInputElement>('crawl-interval'),
+        addBtn:   el<HTMLButtonElement>('crawl-add-btn'),
+        status:   el<HTMLDivElement>('crawl-status'),
+    }, {
+        orgUrl,
+        projectName,
+        backend: () => connectionComplete() ? backendFromInputs() : null,
+    });
+    for (const input of [backendUrlInput, clientKeyInput, clientIdInput]) {
+        input.addEventListener('change', () => void crawlEditor.refresh());
     }
+    await crawlEditor.refresh();
 
-    saveBtn.addEventListener('click', async () => {
-        saveBtn.disabled = true;
-        statusMsg.textContent = 'Saving...';
+    const overrides = await initSettingsOverrides(overridesList, overridesScope, {
+        projectId,
+        profiles: () => profiles,
+        onSaved: error => {
+            overridesStatus.textContent = error ? t('settings.saveFailed', { error }) : t('settings.overrideSaved');
+            overridesStatus.className = error ? 'input-hint status-error' : 'input-hint status-success';
+            // The profile may now be set or inherited elsewhere; Save compares against the effective one
+            if (!error) void loadActiveProfile(projectId).then(profile => {
+                activeName = profile?.name ?? null;
+                renderProfileSelect();
+            });
+        },
+    });
+
+    const adoCredentials = initAdoCredentials({
+        adminKey: el<HTMLInputElement>('admin-key'),
+        status:   el<HTMLDivElement>('ado-credentials-status'),
+        tenantId: el<HTMLInputElement>('ado-tenant-id'),
+        appId:    el<HTMLInputElement>('ado-app-id'),
+        secret:   el<HTMLInputElement>('ado-secret'),
+        saveBtn:  el<HTMLButtonElement>('ado-credentials-save-btn'),
+        clearBtn: el<HTMLButtonElement>('ado-credentials-clear-btn'),
+        message:  el<HTMLDivElement>('ado-credentials-message'),
+    }, {
+        connection: () => ({ backendUrl: backendUrlInput.value.trim(), clientId: clientIdInput.value.trim() }),
+    });
+    backendUrlInput.addEventListener('change', () => void adoCredentials.refresh());
+    clientIdInput.addEventListener('change', () => void adoCredentials.refresh());
+
+    // Profile switching: the form always shows one profile; unsaved edits of the previous one are dropped
+    function showProfile(profile: BackendProfile | null): void {
+        fillForm(profile);
+        checkPrerequisites();
+        connectionResults.innerHTML = '';
+        connectionResults.hidden = true;
+        void adoCredentials.refresh();
+        statusMsg.textContent = '';
         statusMsg.className = '';
+        void crawlEditor.refresh();
+    }
+
+    initConfigTransfer({
+        includeKey: el<HTMLInputElement>('export-include-key'),
+        exportBtn:  el<HTMLButtonElement>('export-btn'),
+        importFile: el<HTMLInputElement>('import-file'),
+        preview:    el<HTMLDivElement>('import-preview'),
+        applyBtn:   el<HTMLButtonElement>('import-apply-btn'),
+        cancelBtn:  el<HTMLButtonElement>('import-cancel-btn'),
+        status:     el<HTMLDivElement>('transfer-status'),
+    }, {
+        projectId,
+        orgUrl,
+        projectName,
+        form: () => ({
+            profile: {
+                name:       profileNameInput.value.trim(),
+                backendUrl: backendUrlInput.value.trim(),
+                clientKey:  clientKeyInput.value.trim(),
+                clientId:   clientIdInput.value.trim(),
+            },
+            reviewerDisplayName: reviewerSearchInput.value.trim(),
+        }),
+        profiles: () => profiles,
+        activeProfileName: () => activeName,
+        onImported: (saved, profile, activated, reviewerDisplayName) => {
+            profiles = saved;
+            if (activated) activeName = profile.name;
+            showProfile(profile);
+            if (reviewerDisplayName) {
+                reviewerSearchInput.value = reviewerDisplayName;
+                selectedReviewerId = null;
+            }
+            void overrides.refresh();
+        },
+    });
+
+    profileSelect.addEventListener('change', () => {
+        showProfile(profiles.find(p => p.name === profileSelect.value) ?? null);
+    });
 
+    profileNewBtn.addEventListener('click', () => {
+        showProfile(null);
+        profileNameInput.focus();
+    });
+
+    profileDeleteBtn.addEventListener('click', async () => {
+        const name = editingName;
+        if (name === null || !confirm(t('settings.confirmDeleteProfile', { name }))) return;
+        try {
+            await saveProfiles(profiles.filter(p => p.name !== name));
+            await clearProfileReferences(name);
+            profiles = profiles.filter(p => p.name !== name);
+            if (activeName === name) activeName = (await loadActiveProfile(projectId))?.name ?? null;
+            showProfile(profiles.find(p => p.name === activeName) ?? null);
+            void overrides.refresh();
+            statusMsg.textContent = t('settings.profileDeleted');
+            statusMsg.className = 'status-success';
+        } catch (err: any) {
+            statusMsg.textContent = t('settings.saveFailed', { error: err?.message || t('settings.unknownError') });
+            statusMsg.className = 'status-error';
+        }
+    });
+
+    saveBtn.addEventListener('click', async () => {
+        const name        = profileNameInput.value.trim();
         const backendUrl  = backendUrlInput.value.trim();
         const clientKey   = clientKeyInput.value.trim();
         const clientId    = clientIdInput.value.trim();
-        const crawlEnabled = crawlEnabledInput.checked;
+
+        const nameError = !name ? t('settings.profileNameRequired')
+            : name !== editingName && profiles.some(p => p.name === name) ? t('settings.profileNameTaken', { name })
+            : null;
+        if (nameError) {
+            statusMsg.textContent = nameError;
+            statusMsg.className = 'status-error';
+            return;
+        }
+
+        saveBtn.disabled = true;
+        statusMsg.textContent = t('settings.saving');
+        statusMsg.className = '';
 
         try {
-            await saveSettings({ backendUrl, clientKey, clientId } as ExtensionSettings);
-
-            if (backendUrl && clientKey && clientId) {
-                const configs = await listCrawlConfigs(backendUrl, clientKey, clientId);
-                const existing = configs.find(c =>
-                    c.organizationUrl?.replace(/\/$/, '') === orgUrl.replace(/\/$/, '') &&
-                    c.projectId === projectName
-                );
-
-                if (crawlEnabled && !existing) {
-                    await createCrawlConfig(backendUrl, clientKey, clientId, {
-                        organizationUrl: orgUrl,
-                        projectId: projectName,
-                        crawlIntervalSeconds: DEFAULT_CRAWL_INTERVAL_SECONDS
-                    });
-                } else if (!crawlEnabled && existing) {
-                    await deleteCrawlConfig(backendUrl, clientKey, clientId, existing.id!);
-                }
-            }
+            // A renamed profile replaces its old entry; a new one is appended
+            const profile: BackendProfile = { name, backendUrl, clientKey, clientId };
+            const updated = editingName === null
+                ? [...profiles, profile]
+                : profiles.map(p => p.name === editingName ? profile : p);
+            await saveProfiles(updated);
+            if (editingName !== null && editingName !== name) await renameProfileReferences(editingName, name);
+            // Only a change of selection overrides the project's profile, so an inherited one stays inherited
+            if ((editingName ?? name) !== activeName) await saveActiveProfileName(projectId, name);
+            profiles = updated;
+            activeName = name;
+            editingName = name;
+            renderProfileSelect();
+            void overrides.refresh();
+
+            const backend = createBackendClient({ backendUrl, clientKey, clientId });
 
             // T021: reviewer identity save
             if (selectedReviewerId !== null) {
-                await setReviewerIdentity(backendUrl, clientKey, clientId, selectedReviewerId);
+                await setReviewerIdentity(backend, selectedReviewerId);
                 await saveReviewerDisplayName(reviewerSearchInput.value.trim());
             }
 
-            statusMsg.textContent = 'Settings saved.';
+            statusMsg.textContent = t('settings.saved');
             statusMsg.className = 'status-success';
         } catch (err: any) {
             console.error('Save failed', err);
-            const detail = err?.body?.detail || err?.message || 'Unknown error';
-            statusMsg.textContent = `Failed to save: ${detail}`;
+            const detail = err?.message || t('settings.unknownError');
+            statusMsg.textContent = t('settings.saveFailed', { error: detail });
             statusMsg.className = 'status-error';
         } finally {
             saveBtn.disabled = false;
@@ -0,0 +1,137 @@
+import { BackendProfile, loadSettingLayers, saveSettingLayer } from '../common/extensionSettings';
+import { t } from '../common/i18n';
+import {
+    emptyLayers, LayeredSettings, resolveSetting, SettingKey, SettingLayers, SettingScope, SETTING_SCOPES, withoutSetting,
+} from '../common/settingsLayers';
+
+export interface SettingsOverridesOptions {
+    projectId: string;
+    /** Profiles as currently saved; read on every render. */
+    profiles(): BackendProfile[];
+    /** Reports the outcome of a change; `error` is `null` on success. */
+    onSaved(error: string | null): void;
+}
+
+export interface SettingsOverrides {
+    /** Reloads the layers, e.g. after the profile selection was saved elsewhere on the page. */
+    refresh(): Promise<void>;
+}
+
+const ROWS: SettingKey[] = ['profile', 'clientId', 'clientKey', 'groupByFile'];
+
+/** Where the value shown for `key` comes from, as seen from `scope`. */
+function sourceText(layers: SettingLayers, key: SettingKey, scope: SettingScope, profileName: string): string {
+    const { source } = resolveSetting(layers, key, scope);
+    if (source === scope) return t('settings.source.here');
+    if (source) return t('settings.source.inherited', { scope: t(`settings.scope.${source}`) });
+    return key === 'clientId' || key === 'clientKey'
+        ? t('settings.source.profile', { name: profileName })
+        : t('settings.source.default');
+}
+
+/**
+ * Renders one row per layered setting for the scope chosen in `scopeSelect`: the effective
+ * value, where it comes from and "Reset to inherited". Changes are saved immediately.
+ */
+export async function initSettingsOverrides(
+    container: HTMLElement, scopeSelect: HTMLSelectElement, options: SettingsOverridesOptions,
+): Promise<SettingsOverrides> {
+    let layers: SettingLayers = emptyLayers();
+
+    async function update(scope: SettingScope, layer: Partial<LayeredSettings>): Promise<void> {
+        try {
+            await saveSettingLayer(scope, options.projectId, layer);
+            layers = { ...layers, [scope]: layer };
+            options.onSaved(null);
+        } catch (err) {
+            options.onSaved((err as Error).message || t('settings.unknownError'));
+        }
+        render();
+    }
+
+    function set<K extends SettingKey>(scope: SettingScope, key: K, value: LayeredSettings[K]): Promise<void> {
+        // An empty connection value means "use the profile's", i.e. inherit
+        return update(scope, value === '' ? withoutSetting(layers[scope], key) : { ...layers[scope], [key]: value });
+    }
+
+    function createControl(key: SettingKey, scope: SettingScope, id: string): HTMLInputElement | HTMLSelectElement {
+        const { value } = resolveSetting(layers, key, scope);
+        if (key === 'profile') {
+            const profiles = options.profiles();
+            const select = document.createElement('select');
+            const fallback = document.createElement('option');
+            fallback.value = '';
+            fallback.textContent = t('settings.profileFallback', { name: profiles[0]?.name ?? '—' });
+            select.appendChild(fallback);
+            for (const profile of profiles) {
+                const opt = document.createElement('option');
+                opt.value = opt.textContent = profile.name;
+                select.appendChild(opt);
+            }
+            select.value = value as string;
+            select.addEventListener('change', () => void set(scope, 'profile', select.value));
+            select.id = id;
+            return select;
+        }
+
+        const input = document.createElement('input');
+        input.id = id;
+        if (key === 'groupByFile') {
+            input.type = 'checkbox';
+            input.checked = value as boolean;
+            input.addEventListener('change', () => void set(scope, 'groupByFile', input.checked));
+        } else {
+            input.type = key === 'clientKey' ? 'password' : 'text';
+            input.value = value as string;
+            input.addEventListener('change', () => void set(scope, key, input.value.trim()));
+        }
+        return input;
+    }
+
+    function render(): void {
+        const scope = scopeSelect.value as SettingScope;
+        const profiles = options.profiles();
+        const selected = resolveSetting(layers, 'profile', scope).value;
+        const profileName = (profiles.find(p => p.name === selected) ?? profiles[0])?.name ?? '—';
+        container.innerHTML = '';
+
+        for (const key of ROWS) {
+            const allowed = SETTING_SCOPES[key].includes(scope);
+            const row = document.createElement('div');
+            row.className = 'form-group override-row';
+            row.setAttribute('data-setting', key);
+
+            const label = document.createElement('label');
+            label.htmlFor = `override-${key}`;
+            label.textContent = t(`settings.layer.${key}`);
+            row.appendChild(label);
+
+            const control = createControl(key, scope, `override-${key}`);
+            control.disabled = !allowed;
+            row.appendChild(control);
+
+            const hint = document.createElement('div');
+            hint.className = 'input-hint override-source';
+            hint.textContent = allowed ? sourceText(layers, key, scope, profileName) : t('settings.source.notAllowed');
+            row.appendChild(hint);
+
+            if (allowed && layers[scope][key] !== undefined) {
+                const reset = document.createElement('button');
+                reset.className = 'btn-link override-reset';
+                reset.textContent = t('settings.resetToInherited');
+                reset.addEventListener('click', () => void update(scope, withoutSetting(layers[scope], key)));
+                row.appendChild(reset);
+            }
+            container.appendChild(row);
+        }
+    }
+
+    async function refresh(): Promise<void> {
+        layers = await loadSettingLayers(options.projectId);
+        render();
+    }
+
+    scopeSelect.addEventListener('change', render);
+    await refresh();
+    return { refresh };
+}
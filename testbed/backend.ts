@@ -13,6 +13,7 @@
  *
  *   PORT            Port to listen on.                  Default: 31001
  *   CLIENT_KEY      Accepted X-Client-Key value.        Default: test-client-key
+ *   ADMIN_KEY       Accepted X-Admin-Key value.         Default: test-admin-key
  *   SIMULATE        Review outcome: "success" | "fail"  Default: success
  *   DELAY_MS        Total ms before job completes.      Default: 6000
  *   HTTP_ONLY       Disable HTTPS (plain HTTP).         Default: false
@@ -34,12 +35,13 @@ import http from 'http';
 import https from 'https';
 import fs from 'fs';
 import path from 'path';
-import {randomUUID, X509Certificate} from 'crypto';
+import {createHash, randomUUID, X509Certificate} from 'crypto';
 import selfsigned from 'selfsigned';
 import type {IncomingMessage, ServerResponse} from 'http';
 
 const PORT = parseInt(process.env['PORT'] ?? '31001', 10);
 const CLIENT_KEY = process.env['CLIENT_KEY'] ?? 'test-client-key';
+const ADMIN_KEY = process.env['ADMIN_KEY'] ?? 'test-admin-key';
 const SIMULATE = process.env['SIMULATE'] ?? 'success';   // 'success' | 'fail'
 const DELAY_MS = parseInt(process.env['DELAY_MS'] ?? '6000', 10);
 const HTTP_ONLY = process.env['HTTP_ONLY'] === 'true';
@@ -64,13 +66,17 @@ interface ReviewResult {
 
 interface Job {
     jobId: string;
+    /** Registered client whose key submitted the job; null for CLIENT_KEY. */
+    clientId: string | null;
     status: JobStatus;
     organizationUrl: string;
     projectId: string;
     repositoryId: string;
     pullRequestId: number;
     iterationId: number;
+    baseIterationId: number | null;
     submittedAt: string;
+    processingStartedAt: string | null;
     completedAt: string | null;
     result: ReviewResult | null;
     error: string | null;
@@ -82,19 +88,55 @@ interface ReviewRequest {
     repositoryId: string;
     pullRequestId: number;
     iterationId: number;
+    baseIterationId?: number;
 }
 
 const jobs = new Map<string, Job>();
 
+// Client registry for the admin routes. Any client ID used with CLIENT_KEY is registered on first use;
+// clients created through POST /clients authenticate with their own key.
+interface Client {
+    id: string;
+    displayName: string;
+    isActive: boolean;
+    createdAt: string;
+    key: string | null;
+}
+const clients = new Map<string, Client>();
+
+function useClient(clientId: string): Client {
+    let client = clients.get(clientId);
+    if (!client) {
+        client = {id: clientId, displayName: 'Testbed Client', isActive: true, createdAt: new Date().toISOString(), key: null};
+        clients.set(clientId, client);
+    }
+    return client;
+}
+
+function clientToResponse(client: Client) {
+    return {
+        id: client.id,
+        displayName: client.displayName,
+        isActive: client.isActive,
+        createdAt: client.createdAt,
+        hasAdoCredentials: adoCredentials.has(client.id),
+        reviewerId: reviewerIds.get(client.id) ?? null,
+    };
+}
+
 // Reviewer identity storage: clientId → reviewerId
 const reviewerIds = new Map<string, string>();
 
+// ADO service principal storage: clientId → credentials (the secret is accepted but never kept or returned)
+const adoCredentials = new Map<string, {tenantId: string; clientId: string}>();
+
 // Crawl config storage: clientId → list of configs
 interface CrawlConfig {
     id: string;
     organizationUrl: string;
     projectId: string;
     crawlIntervalSeconds: number;
+    isActive: boolean;
     createdAt: string;
 }
 const crawlConfigs = new Map<string, CrawlConfig[]>();
@@ -161,12 +203,15 @@ function scheduleJob(jobId: string): void {
 
     setTimeout(() => {
         const job = jobs.get(jobId);
-        if (job) job.status = 'processing';
+        if (job?.status === 'pending') {
+            job.status = 'processing';
+            job.processingStartedAt = new Date().toISOString();
+        }
     }, processingDelay);
 
     setTimeout(() => {
         const job = jobs.get(jobId);
-        if (!job) return;
+        if (!job || job.status === 'failed') return; // cancelled meanwhile
         if (SIMULATE === 'fail') {
             job.status = 'failed';
             job.error = MOCK_FAIL_ERROR;
@@ -179,17 +224,20 @@ function scheduleJob(jobId: string): void {
     }, DELAY_MS);
 }
 
-function makeJob(request: ReviewRequest): Job {
+function makeJob(request: ReviewRequest, clientId: string | null): Job {
     const jobId = randomUUID();
     const job: Job = {
         jobId,
+        clientId,
         status: 'pending',
         organizationUrl: request.organizationUrl,
         projectId: request.projectId,
         repositoryId: request.repositoryId,
         pullRequestId: request.pullRequestId,
         iterationId: request.iterationId,
+        baseIterationId: request.baseIterationId ?? null,
         submittedAt: new Date().toISOString(),
+        processingStartedAt: null,
         completedAt: null,
         result: null,
         error: null,
@@ -199,7 +247,7 @@ function makeJob(request: ReviewRequest): Job {
     return job;
 }
 
-function jobToListItem(job: Job): Omit<Job, 'result' | 'error'> {
+function jobToListItem(job: Job): Omit<Job, 'clientId' | 'processingStartedAt' | 'result' | 'error'> {
     return {
         jobId: job.jobId,
         status: job.status,
@@ -208,6 +256,7 @@ function jobToListItem(job: Job): Omit<Job, 'result' | 'error'> {
         repositoryId: job.repositoryId,
         pullRequestId: job.pullRequestId,
         iterationId: job.iterationId,
+        baseIterationId: job.baseIterationId,
         submittedAt: job.submittedAt,
         completedAt: job.completedAt,
     };
@@ -217,6 +266,24 @@ function jobToStatusResponse(job: Job) {
     return {...jobToListItem(job), result: job.result, error: job.error};
 }
 
+function jobToAdminListItem(job: Job) {
+    return {
+        id: job.jobId,
+        clientId: job.clientId,
+        organizationUrl: job.organizationUrl,
+        projectId: job.projectId,
+        repositoryId: job.repositoryId,
+        pullRequestId: job.pullRequestId,
+        iterationId: job.iterationId,
+        status: job.status,
+        submittedAt: job.submittedAt,
+        processingStartedAt: job.processingStartedAt,
+        completedAt: job.completedAt,
+        resultSummary: job.result?.summary ?? null,
+        errorMessage: job.error,
+    };
+}
+
 const ALLOWED_ORIGINS = [
     // Local testbed
     /^https?:\/\/localhost(:\d+)?$/,
@@ -235,8 +302,9 @@ function isOriginAllowed(origin: string): boolean {
 function setCorsHeaders(res: ServerResponse, origin: string, isPreflight: boolean): void {
     const allowed = isOriginAllowed(origin) ? origin : 'http://localhost:3000';
     res.setHeader('Access-Control-Allow-Origin', allowed);
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Client-Key, X-Ado-Token');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Client-Key, X-Admin-Key, X-Ado-Token, X-Ado-Org-Url, If-None-Match');
+    res.setHeader('Access-Control-Expose-Headers', 'ETag');
     res.setHeader('Vary', 'Origin');
     if (isPreflight) {
         res.setHeader('Access-Control-Allow-Private-Network', 'true');
@@ -264,15 +332,30 @@ function send(res: ServerResponse, status: number, body: unknown): void {
     res.end(json);
 }
 
+/** Registered client that owns the request's key, if any. */
+function keyOwner(req: IncomingMessage): Client | undefined {
+    const key = req.headers['x-client-key'];
+    return [...clients.values()].find(c => c.key !== null && c.key === key && c.isActive);
+}
+
 function checkAuth(req: IncomingMessage, res: ServerResponse): boolean {
     const key = req.headers['x-client-key'];
-    if (key !== CLIENT_KEY) {
+    if (key !== CLIENT_KEY && !keyOwner(req)) {
         send(res, 401, {error: `Invalid or missing X-Client-Key. Expected: "${CLIENT_KEY}"`});
         return false;
     }
     return true;
 }
 
+function checkAdmin(req: IncomingMessage, res: ServerResponse): boolean {
+    const key = req.headers['x-admin-key'];
+    if (key !== ADMIN_KEY) {
+        send(res, 401, {error: `Invalid or missing X-Admin-Key. Expected: "${ADMIN_KEY}"`});
+        return false;
+    }
+    return true;
+}
+
 async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
     const origin = req.headers['origin'] ?? '';
     const isPreflight = req.method === 'OPTIONS';
@@ -297,9 +380,15 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
             send(res, 422, {error: `Missing required fields: ${missing.join(', ')}`});
             return;
         }
+        const base = body['baseIterationId'];
+        if (base != null && (!Number.isInteger(base) || (base as number) < 1 || (base as number) >= Number(body['iterationId']))) {
+            send(res, 422, {error: 'baseIterationId must be a positive integer lower than iterationId'});
+            return;
+        }
 
-        const job = makeJob(body as unknown as ReviewRequest);
-        console.log(`[backend] Job created: ${job.jobId}  (PR #${job.pullRequestId}, simulate=${SIMULATE})`);
+        const job = makeJob(body as unknown as ReviewRequest, keyOwner(req)?.id ?? null);
+        const range = job.baseIterationId != null ? `${job.baseIterationId}→${job.iterationId}` : `${job.iterationId}`;
+        console.log(`[backend] Job created: ${job.jobId}  (PR #${job.pullRequestId}, iteration ${range}, simulate=${SIMULATE})`);
         send(res, 202, {jobId: job.jobId});
         return;
     }
@@ -307,9 +396,22 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
     // GET /reviews — list all jobs
     if (req.method === 'GET' && url.pathname === '/reviews') {
         if (!checkAuth(req, res)) return;
+        // Optional paging, same semantics as the admin /jobs route (limit 1–1000, offset ≥ 0)
+        const limitParam = url.searchParams.get('limit');
+        const offset = Math.max(0, Number(url.searchParams.get('offset') ?? 0) || 0);
+        const limit = limitParam === null ? undefined : Math.min(1000, Math.max(1, Number(limitParam) || 100));
         const list = [...jobs.values()]
             .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt))
+            .slice(offset, limit === undefined ? undefined : offset + limit)
             .map(jobToListItem);
+        // Conditional request support: the ETag is a hash of the list, so it changes with any job
+        const etag = `"${createHash('sha1').update(JSON.stringify(list)).digest('base64url')}"`;
+        res.setHeader('ETag', etag);
+        if (req.headers['if-none-match'] === etag) {
+            res.writeHead(304);
+            res.end();
+            return;
+        }
         send(res, 200, list);
         return;
     }
@@ -329,11 +431,33 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
         return;
     }
 
+    // POST /reviews/:jobId/cancel — cancel a pending or processing job
+    const cancelMatch = url.pathname.match(/^\/reviews\/([^/]+)\/cancel$/);
+    if (req.method === 'POST' && cancelMatch) {
+        if (!checkAuth(req, res)) return;
+        const jobId = cancelMatch[1]!;
+        const job = jobs.get(jobId);
+        if (!job) {
+            send(res, 404, {error: `Job not found: ${jobId}`});
+            return;
+        }
+        if (job.status !== 'pending' && job.status !== 'processing') {
+            send(res, 409, {error: `Job ${jobId} is already ${job.status}`});
+            return;
+        }
+        job.status = 'failed';
+        job.error = 'Cancelled by user.';
+        job.completedAt = new Date().toISOString();
+        console.log(`[backend] Job cancelled: ${jobId}`);
+        send(res, 200, jobToStatusResponse(job));
+        return;
+    }
+
     // GET /clients/:clientId/crawl-configurations
     const crawlListMatch = url.pathname.match(/^\/clients\/([^/]+)\/crawl-configurations$/);
     if (req.method === 'GET' && crawlListMatch) {
         if (!checkAuth(req, res)) return;
-        const clientId = crawlListMatch[1]!;
+        const clientId = useClient(crawlListMatch[1]!).id;
         send(res, 200, crawlConfigs.get(clientId) ?? []);
         return;
     }
@@ -341,13 +465,14 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
     // POST /clients/:clientId/crawl-configurations
     if (req.method === 'POST' && crawlListMatch) {
         if (!checkAuth(req, res)) return;
-        const clientId = crawlListMatch[1]!;
+        const clientId = useClient(crawlListMatch[1]!).id;
         const body = await readBody(req);
         const config: CrawlConfig = {
             id: randomUUID(),
             organizationUrl: String(body['organizationUrl'] ?? ''),
             projectId: String(body['projectId'] ?? ''),
             crawlIntervalSeconds: Number(body['crawlIntervalSeconds'] ?? 300),
+            isActive: true,
             createdAt: new Date().toISOString(),
         };
         const existing = crawlConfigs.get(clientId) ?? [];
@@ -357,12 +482,29 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
         return;
     }
 
+    // PATCH /clients/:clientId/crawl-configurations/:configId — pause or resume
+    const crawlConfigMatch = url.pathname.match(/^\/clients\/([^/]+)\/crawl-configurations\/([^/]+)$/);
+    if (req.method === 'PATCH' && crawlConfigMatch) {
+        if (!checkAuth(req, res)) return;
+        const clientId = crawlConfigMatch[1]!;
+        const configId = crawlConfigMatch[2]!;
+        const config = (crawlConfigs.get(clientId) ?? []).find(c => c.id === configId);
+        if (!config) {
+            send(res, 404, {error: 'Crawl configuration not found'});
+            return;
+        }
+        const body = await readBody(req);
+        if (typeof body['isActive'] === 'boolean') config.isActive = body['isActive'];
+        console.log(`[backend] Crawl config ${config.isActive ? 'resumed' : 'paused'} for client ${clientId}: ${configId}`);
+        send(res, 200, config);
+        return;
+    }
+
     // DELETE /clients/:clientId/crawl-configurations/:configId
-    const crawlDeleteMatch = url.pathname.match(/^\/clients\/([^/]+)\/crawl-configurations\/([^/]+)$/);
-    if (req.method === 'DELETE' && crawlDeleteMatch) {
+    if (req.method === 'DELETE' && crawlConfigMatch) {
         if (!checkAuth(req, res)) return;
-        const clientId = crawlDeleteMatch[1]!;
-        const configId = crawlDeleteMatch[2]!;
+        const clientId = crawlConfigMatch[1]!;
+        const configId = crawlConfigMatch[2]!;
         const existing = crawlConfigs.get(clientId) ?? [];
         crawlConfigs.set(clientId, existing.filter(c => c.id !== configId));
         console.log(`[backend] Crawl config deleted for client ${clientId}: ${configId}`);
@@ -388,14 +530,8 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
     const profileMatch = url.pathname.match(/^\/clients\/([^/]+)\/profile$/);
     if (req.method === 'GET' && profileMatch) {
         if (!checkAuth(req, res)) return;
-        const clientId = profileMatch[1]!;
-        send(res, 200, {
-            id: clientId,
-            displayName: 'Testbed Client',
-            isActive: true,
-            createdAt: '2026-01-01T00:00:00Z',
-            reviewerId: reviewerIds.get(clientId) ?? null,
-        });
+        const {hasAdoCredentials: _adminOnly, ...profile} = clientToResponse(useClient(profileMatch[1]!));
+        send(res, 200, profile);
         return;
     }
 
@@ -403,7 +539,7 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
     const reviewerMatch = url.pathname.match(/^\/clients\/([^/]+)\/reviewer-identity$/);
     if (req.method === 'PUT' && reviewerMatch) {
         if (!checkAuth(req, res)) return;
-        const clientId = reviewerMatch[1]!;
+        const clientId = useClient(reviewerMatch[1]!).id;
         const body = await readBody(req);
         const reviewerId = body['reviewerId'];
         if (typeof reviewerId !== 'string' || reviewerId.trim() === '') {
@@ -417,6 +553,119 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
         return;
     }
 
+    // GET /clients — admin list of all clients
+    if (req.method === 'GET' && url.pathname === '/clients') {
+        if (!checkAdmin(req, res)) return;
+        send(res, 200, [...clients.values()].map(clientToResponse));
+        return;
+    }
+
+    // POST /clients — register a client with its own key
+    if (req.method === 'POST' && url.pathname === '/clients') {
+        if (!checkAdmin(req, res)) return;
+        const body = await readBody(req);
+        const key = body['key'];
+        if (typeof key !== 'string' || key.trim() === '') {
+            send(res, 400, {error: 'key must be a non-empty string'});
+            return;
+        }
+        if (key === CLIENT_KEY || [...clients.values()].some(c => c.key === key)) {
+            send(res, 409, {error: 'A client with this key already exists'});
+            return;
+        }
+        const client: Client = {
+            id: randomUUID(),
+            displayName: typeof body['displayName'] === 'string' ? body['displayName'] : '',
+            isActive: true,
+            createdAt: new Date().toISOString(),
+            key,
+        };
+        clients.set(client.id, client);
+        console.log(`[backend] Client created: ${client.id} (${client.displayName})`);
+        send(res, 201, clientToResponse(client));
+        return;
+    }
+
+    // GET / PATCH / DELETE /clients/:clientId — admin view, rename / (de)activate, delete
+    const clientMatch = url.pathname.match(/^\/clients\/([^/]+)$/);
+    if (clientMatch && ['GET', 'PATCH', 'DELETE'].includes(req.method!)) {
+        if (!checkAdmin(req, res)) return;
+        const client = clients.get(clientMatch[1]!);
+        if (!client) {
+            send(res, 404, {error: 'Client not found'});
+            return;
+        }
+        if (req.method === 'PATCH') {
+            const body = await readBody(req);
+            if (typeof body['displayName'] === 'string') client.displayName = body['displayName'];
+            if (typeof body['isActive'] === 'boolean') client.isActive = body['isActive'];
+            console.log(`[backend] Client updated: ${client.id} (${client.displayName}, active=${client.isActive})`);
+        }
+        if (req.method === 'DELETE') {
+            clients.delete(client.id);
+            crawlConfigs.delete(client.id);
+            reviewerIds.delete(client.id);
+            adoCredentials.delete(client.id);
+            console.log(`[backend] Client deleted: ${client.id}`);
+            res.writeHead(204);
+            res.end();
+            return;
+        }
+        send(res, 200, clientToResponse(client));
+        return;
+    }
+
+    // GET /jobs?limit=&offset=&status= — admin list of the jobs of all clients
+    if (req.method === 'GET' && url.pathname === '/jobs') {
+        if (!checkAdmin(req, res)) return;
+        const status = url.searchParams.get('status');
+        const offset = Math.max(0, Number(url.searchParams.get('offset') ?? 0) || 0);
+        const limit = Math.min(1000, Math.max(1, Number(url.searchParams.get('limit') ?? 100) || 100));
+        const matching = [...jobs.values()]
+            .filter(job => !status || job.status === status.toLowerCase())
+            .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+        send(res, 200, {total: matching.length, items: matching.slice(offset, offset + limit).map(jobToAdminListItem)});
+        return;
+    }
+
+    // PUT / DELETE /clients/:clientId/ado-credentials — set or remove the service principal
+    const credentialsMatch = url.pathname.match(/^\/clients\/([^/]+)\/ado-credentials$/);
+    if (req.method === 'PUT' && credentialsMatch) {
+        if (!checkAdmin(req, res)) return;
+        const clientId = credentialsMatch[1]!;
+        if (!clients.has(clientId)) {
+            send(res, 404, {error: 'Client not found'});
+            return;
+        }
+        const body = await readBody(req);
+        const missing = ['tenantId', 'clientId', 'secret'].filter(field => {
+            const value = body[field];
+            return typeof value !== 'string' || value.trim() === '';
+        });
+        if (missing.length > 0) {
+            send(res, 400, {error: `Required: ${missing.join(', ')}`});
+            return;
+        }
+        adoCredentials.set(clientId, {tenantId: body['tenantId'] as string, clientId: body['clientId'] as string});
+        console.log(`[backend] ADO credentials set for client ${clientId} (tenant ${body['tenantId']})`);
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+    if (req.method === 'DELETE' && credentialsMatch) {
+        if (!checkAdmin(req, res)) return;
+        const clientId = credentialsMatch[1]!;
+        if (!clients.has(clientId)) {
+            send(res, 404, {error: 'Client not found'});
+            return;
+        }
+        adoCredentials.delete(clientId);
+        console.log(`[backend] ADO credentials removed for client ${clientId}`);
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
     send(res, 404, {error: 'Not found'});
 }
 
@@ -476,6 +725,7 @@ server.listen(PORT, () => {
     console.log('Meister ProPR — dummy backend');
     console.log(`  Listening on  ${proto}://localhost:${PORT}`);
     console.log(`  Client key:   ${CLIENT_KEY}`);
+    console.log(`  Admin key:    ${ADMIN_KEY}`);
     console.log(`  Simulate:     ${SIMULATE}  (set SIMULATE=fail to test error path)`);
     console.log(`  Job delay:    ${DELAY_MS}ms`);
     console.log('');
@@ -1,10 +1,18 @@
 /**
  * Testbed mock for azure-devops-extension-api/Git.
- * Exports the minimum surface used by review.ts.
+ * Exports the minimum surface used by review.ts and prTab.ts.
  */
 
 export class GitRestClient {}
 
+export enum GitServiceIds {
+    VersionControlRepositoryService = 'ms.vss-code-web.vc-repository-service',
+}
+
+export interface IVersionControlRepositoryService {
+    getCurrentGitRepository(): Promise<{ id: string; name: string } | null>;
+}
+
 // Mirrors the real PullRequestStatus enum values
 export enum PullRequestStatus {
     NotSet    = 0,
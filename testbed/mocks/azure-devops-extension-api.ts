@@ -23,12 +23,33 @@ const MOCK_PRS: Record<string, { pullRequestId: number; title: string }[]> = {
     ],
 };
 
-const MOCK_ITERATIONS = [{ id: 1 }, { id: 2 }];
+const MOCK_ITERATIONS = [
+    { id: 1, description: 'Initial implementation' },
+    { id: 2, description: 'Address review feedback' },
+    { id: 3, description: 'Fix failing tests' },
+];
 
 export const CommonServiceIds = {
-    ExtensionDataService: 'mock-ext-data-svc',
+    ExtensionDataService:  'mock-ext-data-svc',
+    HostNavigationService: 'ms.vss-features.host-navigation-service',
+    GlobalMessagesService: 'ms.vss-tfs-web.tfs-global-messages-service',
+    LocationService:       'ms.vss-features.location-service',
 } as const;
 
+export interface ILocationService {
+    getServiceLocation(serviceInstanceType?: string, hostType?: number): Promise<string>;
+}
+
+export interface IGlobalMessagesService {
+    addToast(toast: { message: string; duration: number; callToAction?: string; onCallToActionClick?: () => void }): void;
+}
+
+export interface IHostNavigationService {
+    getPageRoute(): Promise<{ id: string; routeValues: Record<string, string> }>;
+    getQueryParams(): Promise<Record<string, string>>;
+    navigate(url: string): void;
+}
+
 export type IExtensionDataService = {
     getExtensionDataManager(id: string, token: string): Promise<{
         getValue<T>(key: string, options?: { scopeType?: string; defaultValue?: T }): Promise<T>;
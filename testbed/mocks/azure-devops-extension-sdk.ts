@@ -40,6 +40,45 @@ const mockIdentityService = {
     },
 };
 
+// The PR tab reads its pull request from the host page; the testbed pins it to PR #101
+const mockRepositoryService = {
+    getCurrentGitRepository: async () => ({ id: 'mock-repo-1', name: 'MyBackendRepo' }),
+};
+
+const mockNavigationService = {
+    getPageRoute: async () => ({
+        id: 'ms.vss-code-web.pull-request-details-route',
+        routeValues: { parameters: '101' },
+    }),
+    getQueryParams: async () => Object.fromEntries(new URLSearchParams(window.location.search)),
+    navigate: (url: string) => console.log(`[testbed] navigate → ${url}`),
+};
+
+// Organization URL of the testbed; append ?orgUrl=… to try a legacy or on-prem collection URL
+const mockLocationService = {
+    getServiceLocation: async () =>
+        new URLSearchParams(window.location.search).get('orgUrl') ?? 'https://dev.azure.com/testbedorg/',
+};
+
+// Toasts are rendered as plain paragraphs on the page
+const mockMessagesService = {
+    addToast: (toast: { message: string; callToAction?: string }) => {
+        const p = document.createElement('p');
+        p.textContent = toast.callToAction ? `${toast.message} [${toast.callToAction}]` : toast.message;
+        document.body.appendChild(p);
+    },
+};
+
+// The /pr-action page executes registered menu actions against PR #101 on load
+const MOCK_ACTION_CONTEXT = { pullRequest: { pullRequestId: 101, repository: { id: 'mock-repo-1' } } };
+
+export function register(instanceId: string, instance: () => { execute(context: unknown): unknown }): void {
+    console.log(`[testbed] SDK.register('${instanceId}')`);
+    if (window.location.pathname === '/pr-action') {
+        void instance().execute(MOCK_ACTION_CONTEXT);
+    }
+}
+
 export async function init(_options?: { loaded?: boolean }): Promise<void> {
     // no-op: in ADO this would handshake with the host frame
 }
@@ -86,5 +125,17 @@ export async function getService<T>(serviceId: string): Promise<T> {
     if (serviceId === 'ms.vss-features.identity-service') {
         return mockIdentityService as unknown as T;
     }
+    if (serviceId === 'ms.vss-code-web.vc-repository-service') {
+        return mockRepositoryService as unknown as T;
+    }
+    if (serviceId === 'ms.vss-features.host-navigation-service') {
+        return mockNavigationService as unknown as T;
+    }
+    if (serviceId === 'ms.vss-tfs-web.tfs-global-messages-service') {
+        return mockMessagesService as unknown as T;
+    }
+    if (serviceId === 'ms.vss-features.location-service') {
+        return mockLocationService as unknown as T;
+    }
     return mockExtensionDataService as unknown as T;
 }
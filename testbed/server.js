@@ -32,6 +32,18 @@ app.get('/review', (_req, res) => {
     res.sendFile(path.join(extensionRoot, 'review.html'));
 });
 
+app.get('/pr-tab', (_req, res) => {
+    res.sendFile(path.join(extensionRoot, 'pr-tab.html'));
+});
+
+app.get('/pr-action', (_req, res) => {
+    res.sendFile(path.join(extensionRoot, 'pr-action.html'));
+});
+
+app.get('/admin', (_req, res) => {
+    res.sendFile(path.join(extensionRoot, 'admin.html'));
+});
+
 // --- Landing page ---
 
 app.get('/', (_req, res) => {
@@ -56,6 +68,9 @@ app.get('/', (_req, res) => {
   <ul>
     <li><a href="/settings">Settings hub</a> — configure backend URL and client key</li>
     <li><a href="/review">Review hub</a> — submit a PR for AI code review</li>
+    <li><a href="/pr-tab">PR tab</a> — review history of a single mock PR (#101 in MyBackendRepo)</li>
+    <li><a href="/pr-action">Request AI review</a> — runs the PR menu action against PR #101</li>
+    <li><a href="/admin">Admin hub</a> — clients and jobs of all clients (admin key <code>test-admin-key</code>)</li>
   </ul>
   <div class="hint">
     <strong>Tips:</strong>
@@ -79,4 +94,6 @@ app.listen(PORT, () => {
     console.log(`Testbed running at http://localhost:${PORT}`);
     console.log('  /settings  →  Settings hub');
     console.log('  /review    →  Review hub');
+    console.log('  /pr-tab    →  PR tab');
+    console.log('  /pr-action →  Request AI review menu action');
 });
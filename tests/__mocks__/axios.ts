@@ -1,8 +1,19 @@
+// `create()` hands out this same object, so tests can assert on calls made through any backend client
 const axios = {
+    request: jest.fn().mockResolvedValue({ data: {} }),
     get: jest.fn().mockResolvedValue({ data: {} }),
     post: jest.fn().mockResolvedValue({ data: {} }),
+    put: jest.fn().mockResolvedValue({ data: {} }),
+    patch: jest.fn().mockResolvedValue({ data: {} }),
     delete: jest.fn().mockResolvedValue({ data: {} }),
-    defaults: { headers: { common: {} } }
+    create: jest.fn(),
+    getAdapter: jest.fn(() => jest.fn()),
+    interceptors: {
+        request:  { use: jest.fn() },
+        response: { use: jest.fn() },
+    },
+    defaults: { headers: { common: {} }, adapter: ['xhr'] }
 };
+axios.create.mockImplementation(() => axios);
 
 export default axios;
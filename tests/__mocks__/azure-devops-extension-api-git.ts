@@ -0,0 +1,16 @@
+export class GitRestClient {}
+
+export const GitServiceIds = {
+    VersionControlRepositoryService: 'ms.vss-code-web.vc-repository-service',
+} as const;
+
+export type IVersionControlRepositoryService = {
+    getCurrentGitRepository(): Promise<{ id?: string; name?: string } | null>;
+};
+
+export const PullRequestStatus = {
+    Active: 1,
+} as const;
+
+export type GitPullRequestSearchCriteria = Record<string, unknown>;
+export type GitRepository = { id?: string; name?: string };
@@ -1,5 +1,8 @@
 export const CommonServiceIds = {
-    ExtensionDataService: 'ms.vss-web.data-service'
+    ExtensionDataService: 'ms.vss-web.data-service',
+    HostNavigationService: 'ms.vss-features.host-navigation-service',
+    GlobalMessagesService: 'ms.vss-tfs-web.tfs-global-messages-service',
+    LocationService: 'ms.vss-features.location-service',
 };
 
 export const getClient = jest.fn();
@@ -13,3 +13,4 @@ export const getExtensionContext = jest.fn().mockReturnValue({
     publisherId: 'mock-publisher'
 });
 export const getService = jest.fn();
+export const register = jest.fn();
@@ -0,0 +1,63 @@
+import { createAccessTokenProvider, FALLBACK_LIFETIME_MS, REFRESH_MARGIN_MS, tokenExpiry } from '../src/common/accessToken';
+
+/** Unsigned JWT with the given `exp` (seconds). */
+function jwt(exp: number): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    return `${encode({ alg: 'none' })}.${encode({ exp })}.`;
+}
+
+const start = Date.parse('2026-03-23T12:00:00Z');
+
+describe('tokenExpiry', () => {
+    test('reads the exp claim of a JWT', () => {
+        expect(tokenExpiry(jwt(start / 1000 + 3600))).toBe(start + 3_600_000);
+    });
+
+    test('returns null for opaque tokens', () => {
+        expect(tokenExpiry('opaque-token')).toBeNull();
+        expect(tokenExpiry('a.not-json.c')).toBeNull();
+    });
+});
+
+describe('createAccessTokenProvider', () => {
+    let time: number;
+    const now = () => time;
+
+    beforeEach(() => {
+        time = start;
+    });
+
+    test('reuses the token until shortly before it expires', async () => {
+        const first = jwt(start / 1000 + 3600);
+        const second = jwt(start / 1000 + 7200);
+        const fetchToken = jest.fn().mockResolvedValueOnce(first).mockResolvedValueOnce(second);
+        const tokens = createAccessTokenProvider(fetchToken, now);
+
+        expect(await tokens.getToken()).toBe(first);
+        time = start + 3_600_000 - REFRESH_MARGIN_MS - 1;
+        expect(await tokens.getToken()).toBe(first);
+        time += 1;
+        expect(await tokens.getToken()).toBe(second);
+        expect(fetchToken).toHaveBeenCalledTimes(2);
+    });
+
+    test('assumes a fallback lifetime for tokens without expiry', async () => {
+        const fetchToken = jest.fn().mockResolvedValueOnce('opaque-1').mockResolvedValueOnce('opaque-2');
+        const tokens = createAccessTokenProvider(fetchToken, now);
+
+        await tokens.getToken();
+        time = start + FALLBACK_LIFETIME_MS - REFRESH_MARGIN_MS;
+        expect(await tokens.getToken()).toBe('opaque-2');
+    });
+
+    test('refresh() always fetches, and concurrent callers share one fetch', async () => {
+        const fetchToken = jest.fn().mockResolvedValueOnce('opaque-1').mockResolvedValueOnce('opaque-2');
+        const tokens = createAccessTokenProvider(fetchToken, now);
+
+        await tokens.getToken();
+        const [a, b] = await Promise.all([tokens.refresh(), tokens.refresh()]);
+        expect([a, b]).toEqual(['opaque-2', 'opaque-2']);
+        expect(fetchToken).toHaveBeenCalledTimes(2);
+        expect(await tokens.getToken()).toBe('opaque-2');
+    });
+});
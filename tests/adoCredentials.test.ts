@@ -0,0 +1,121 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import * as clientAdminClientMod from '../src/api/clientAdminClient';
+import { UnauthorizedError } from '../src/api/errors';
+import { AdoCredentialsElements, initAdoCredentials } from '../src/settings/adoCredentials';
+
+jest.mock('../src/api/clientAdminClient');
+
+const { getClient, setAdoCredentials, clearAdoCredentials } =
+    clientAdminClientMod as jest.Mocked<typeof clientAdminClientMod>;
+
+function setup(connection = { backendUrl: 'https://backend.test', clientId: 'client-1' }) {
+    document.body.innerHTML = `
+        <input id="admin-key">
+        <div id="status"></div>
+        <input id="tenant"><input id="app"><input id="secret">
+        <button id="save"></button><button id="clear"></button>
+        <div id="message"></div>
+    `;
+    const byId = <T extends HTMLElement>(id: string) => document.getElementById(id) as T;
+    const elements: AdoCredentialsElements = {
+        adminKey: byId('admin-key'), status: byId('status'),
+        tenantId: byId('tenant'), appId: byId('app'), secret: byId('secret'),
+        saveBtn: byId('save'), clearBtn: byId('clear'), message: byId('message'),
+    };
+    const section = initAdoCredentials(elements, { connection: () => connection });
+    return { elements, section };
+}
+
+async function enterAdminKey(elements: AdoCredentialsElements, key = 'admin') {
+    elements.adminKey.value = key;
+    elements.adminKey.dispatchEvent(new Event('change'));
+    await new Promise(r => setTimeout(r, 0));
+}
+
+describe('ADO service credentials section', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        window.confirm = jest.fn(() => true);
+    });
+
+    test('asks for the admin key before loading anything', () => {
+        const { elements } = setup();
+
+        expect(elements.status.textContent).toContain('admin key');
+        expect(elements.saveBtn.disabled).toBe(true);
+        expect(getClient).not.toHaveBeenCalled();
+    });
+
+    test('shows whether credentials are set once the admin key is entered', async () => {
+        getClient.mockResolvedValue({ id: 'client-1', displayName: 'Team A', hasAdoCredentials: true });
+        const { elements } = setup();
+
+        await enterAdminKey(elements);
+
+        expect(getClient).toHaveBeenCalledWith(expect.anything(), 'client-1');
+        expect(elements.status.textContent).toContain('Team A');
+        expect(elements.status.className).toContain('status-success');
+        expect(elements.saveBtn.textContent).toBe('Rotate Credentials');
+        expect(elements.clearBtn.disabled).toBe(false);
+    });
+
+    test('reports a rejected admin key', async () => {
+        getClient.mockRejectedValue(new UnauthorizedError('Unauthorized', 401));
+        const { elements } = setup();
+
+        await enterAdminKey(elements, 'wrong');
+
+        expect(elements.status.textContent).toBe('The backend rejected the admin key.');
+        expect(elements.saveBtn.disabled).toBe(true);
+    });
+
+    test('sets the credentials and empties the write-only fields', async () => {
+        getClient.mockResolvedValue({ id: 'client-1', hasAdoCredentials: false });
+        setAdoCredentials.mockResolvedValue(undefined);
+        const { elements } = setup();
+        await enterAdminKey(elements);
+        expect(elements.clearBtn.disabled).toBe(true);
+
+        elements.tenantId.value = ' tenant ';
+        elements.appId.value = 'app';
+        elements.secret.value = 's3cret';
+        elements.saveBtn.click();
+        await new Promise(r => setTimeout(r, 0));
+
+        expect(setAdoCredentials).toHaveBeenCalledWith(
+            expect.anything(), 'client-1', { tenantId: 'tenant', clientId: 'app', secret: 's3cret' },
+        );
+        expect(elements.secret.value).toBe('');
+        expect(elements.message.textContent).toBe('Credentials saved.');
+        expect(getClient).toHaveBeenCalledTimes(2);
+    });
+
+    test('requires all three values', async () => {
+        getClient.mockResolvedValue({ id: 'client-1', hasAdoCredentials: false });
+        const { elements } = setup();
+        await enterAdminKey(elements);
+
+        elements.tenantId.value = 'tenant';
+        elements.saveBtn.click();
+
+        expect(setAdoCredentials).not.toHaveBeenCalled();
+        expect(elements.message.className).toContain('status-error');
+    });
+
+    test('removes the credentials after confirmation', async () => {
+        getClient.mockResolvedValue({ id: 'client-1', hasAdoCredentials: true });
+        clearAdoCredentials.mockResolvedValue(undefined);
+        const { elements } = setup();
+        await enterAdminKey(elements);
+
+        elements.clearBtn.click();
+        await new Promise(r => setTimeout(r, 0));
+
+        expect(window.confirm).toHaveBeenCalled();
+        expect(clearAdoCredentials).toHaveBeenCalledWith(expect.anything(), 'client-1');
+        expect(elements.message.textContent).toBe('Credentials removed.');
+    });
+});
@@ -0,0 +1,166 @@
+import axios from 'axios';
+import { createBackendClient, DEFAULT_TIMEOUT_MS } from '../src/api/backendClient';
+import {
+    BackendError, NetworkError, NotFoundError, ServerError, TimeoutError, toBackendError, UnauthorizedError, ValidationError,
+} from '../src/api/errors';
+
+const mockedCreate = axios.create as jest.Mock;
+const mockedRequest = axios.request as jest.Mock;
+const mockedUseRequest = axios.interceptors.request.use as jest.Mock;
+const mockedUseResponse = axios.interceptors.response.use as jest.Mock;
+
+const tokens = {
+    getToken: jest.fn().mockResolvedValue('token-1'),
+    refresh:  jest.fn().mockResolvedValue('token-2'),
+};
+
+describe('createBackendClient', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('configures its own instance from the settings', () => {
+        const client = createBackendClient({ backendUrl: 'https://api.test/', clientKey: 'key', clientId: 'c1' });
+        expect(mockedCreate).toHaveBeenCalledWith({
+            baseURL: 'https://api.test',
+            timeout: DEFAULT_TIMEOUT_MS,
+            headers: { 'X-Client-Key': 'key' },
+            adapter: expect.any(Function),
+        });
+        expect(client.settings.clientId).toBe('c1');
+    });
+
+    test('adds the organization header and a custom timeout', () => {
+        createBackendClient(
+            { backendUrl: 'https://api.test', clientKey: 'key', clientId: 'c1' },
+            { timeoutMs: 5000, ado: { orgUrl: 'https://dev.azure.com/org/', tokens } },
+        );
+        expect(mockedCreate.mock.calls[0][0]).toMatchObject({
+            timeout: 5000,
+            headers: { 'X-Client-Key': 'key', 'X-Ado-Org-Url': 'https://dev.azure.com/org/' },
+        });
+    });
+
+    test('sends the admin key instead of the client key when given one', () => {
+        createBackendClient({ backendUrl: 'https://api.test', clientKey: 'key', clientId: 'c1' }, { adminKey: 'admin' });
+        expect(mockedCreate.mock.calls[0][0].headers).toEqual({ 'X-Admin-Key': 'admin' });
+    });
+
+    test('clients with different settings do not share configuration', () => {
+        const first  = createBackendClient({ backendUrl: 'https://one.test', clientKey: 'key-1', clientId: 'c1' });
+        const second = createBackendClient({ backendUrl: 'https://two.test', clientKey: 'key-2', clientId: 'c2' });
+        expect(mockedCreate.mock.calls[0][0].headers['X-Client-Key']).toBe('key-1');
+        expect(mockedCreate.mock.calls[1][0].headers['X-Client-Key']).toBe('key-2');
+        expect(first.settings.backendUrl).toBe('https://one.test');
+        expect(second.settings.backendUrl).toBe('https://two.test');
+    });
+
+    test('maps failed responses to typed errors', async () => {
+        createBackendClient({ backendUrl: 'https://api.test', clientKey: 'key', clientId: 'c1' });
+        const [, onRejected] = mockedUseResponse.mock.calls[0];
+        await expect(onRejected({ config: {}, response: { status: 404, data: { title: 'Client not found.' } } }))
+            .rejects.toBeInstanceOf(NotFoundError);
+    });
+});
+
+describe('createBackendClient — ADO token', () => {
+    const settings = { backendUrl: 'https://api.test', clientKey: 'key', clientId: 'c1' };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        createBackendClient(settings, { ado: { orgUrl: 'https://dev.azure.com/org/', tokens } });
+    });
+
+    test('sets the current token on every request', async () => {
+        const [onRequest] = mockedUseRequest.mock.calls[0];
+        const config = await onRequest({ headers: {} });
+        expect(config.headers['X-Ado-Token']).toBe('token-1');
+        expect(tokens.getToken).toHaveBeenCalled();
+    });
+
+    test('repeats a call once with a fresh token after a 401', async () => {
+        const [, onRejected] = mockedUseResponse.mock.calls[0];
+        const config = { url: '/reviews', headers: {} };
+        mockedRequest.mockResolvedValueOnce({ status: 200, data: [] });
+
+        await expect(onRejected({ config, response: { status: 401 } })).resolves.toEqual({ status: 200, data: [] });
+        expect(tokens.refresh).toHaveBeenCalledTimes(1);
+        expect(mockedRequest).toHaveBeenCalledWith(config);
+
+        // The repeated call fails again: no second refresh
+        const unauthorized = { config, response: { status: 401 } };
+        await expect(onRejected(unauthorized)).rejects.toBe(unauthorized);
+        expect(tokens.refresh).toHaveBeenCalledTimes(1);
+    });
+
+    test('passes other errors on', async () => {
+        const [, onRejected] = mockedUseResponse.mock.calls[0];
+        const notFound = { config: { headers: {} }, response: { status: 404 } };
+        await expect(onRejected(notFound)).rejects.toBe(notFound);
+        expect(tokens.refresh).not.toHaveBeenCalled();
+    });
+
+    test('clients without ADO context send no token', () => {
+        mockedUseRequest.mockClear();
+        createBackendClient(settings);
+        expect(mockedUseRequest).not.toHaveBeenCalled();
+    });
+});
+
+describe('toBackendError', () => {
+    const failed = (status: number, data?: unknown) => ({ config: {}, response: { status, data } });
+
+    test.each([
+        [401, UnauthorizedError],
+        [403, UnauthorizedError],
+        [404, NotFoundError],
+        [400, ValidationError],
+        [422, ValidationError],
+        [500, ServerError],
+        [503, ServerError],
+        [409, BackendError],
+    ])('status %i becomes %p', (status, type) => {
+        const error = toBackendError(failed(status)) as BackendError;
+        expect(error).toBeInstanceOf(type);
+        expect(error.status).toBe(status);
+    });
+
+    test('uses the ProblemDetails detail, then its title, as message', () => {
+        const withDetail = toBackendError(failed(401, { title: 'Unauthorized', detail: 'Invalid X-Client-Key.' }));
+        expect((withDetail as Error).message).toBe('Invalid X-Client-Key.');
+        expect((withDetail as BackendError).problem).toEqual({ title: 'Unauthorized', detail: 'Invalid X-Client-Key.' });
+
+        const withTitle = toBackendError(failed(404, { title: 'Client not found.' }));
+        expect((withTitle as Error).message).toBe('Client not found.');
+
+        const withoutBody = toBackendError(failed(502, '<html>Bad gateway</html>'));
+        expect((withoutBody as Error).message).toBe('The backend answered with status 502.');
+        expect((withoutBody as BackendError).problem).toBeNull();
+    });
+
+    test('exposes validation field errors', () => {
+        const error = toBackendError(failed(400, {
+            title: 'One or more validation errors occurred.',
+            errors: { CrawlIntervalSeconds: ['Must be at least 60.'] },
+        })) as ValidationError;
+        expect(error.fieldErrors).toEqual({ CrawlIntervalSeconds: ['Must be at least 60.'] });
+    });
+
+    test('reports missing responses and timeouts as network errors', () => {
+        const unreachable = toBackendError({ config: {}, code: 'ERR_NETWORK', message: 'Network Error' });
+        expect(unreachable).toBeInstanceOf(NetworkError);
+        expect((unreachable as NetworkError).status).toBe(0);
+        expect((unreachable as Error).message).toBe('The backend is not reachable.');
+        expect(unreachable).not.toBeInstanceOf(TimeoutError);
+
+        const timedOut = toBackendError({ config: { timeout: 30_000 }, code: 'ECONNABORTED' });
+        expect(timedOut).toBeInstanceOf(TimeoutError);
+        expect(timedOut).toBeInstanceOf(NetworkError);
+        expect((timedOut as Error).message).toBe('The backend did not answer within 30 s.');
+    });
+
+    test('leaves other errors alone', () => {
+        const error = new TypeError('boom');
+        expect(toBackendError(error)).toBe(error);
+    });
+});
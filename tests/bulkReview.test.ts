@@ -0,0 +1,77 @@
+/**
+ * @jest-environment jsdom
+ */
+import { BulkItem, renderBulkProgress, runQueue, submitBulkReviews } from '../src/review/bulkReview';
+
+function items(...ids: number[]): BulkItem[] {
+    return ids.map(id => ({ pullRequestId: id, title: `PR ${id}`, state: 'queued' }));
+}
+
+describe('runQueue', () => {
+    test('never runs more than `limit` workers at once and processes every item', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const done: number[] = [];
+        await runQueue([1, 2, 3, 4, 5], 2, async (n) => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            done.push(n);
+            inFlight--;
+        });
+        expect(maxInFlight).toBe(2);
+        expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    test('handles an empty list', async () => {
+        const worker = jest.fn();
+        await runQueue([], 3, worker);
+        expect(worker).not.toHaveBeenCalled();
+    });
+});
+
+describe('submitBulkReviews', () => {
+    test('records job IDs and failures without aborting the batch', async () => {
+        const submit = jest.fn(async (prId: number) => {
+            if (prId === 2) throw new Error('PR has no iterations');
+            return { jobId: `job-${prId}` };
+        });
+        const onUpdate = jest.fn();
+        const result = await submitBulkReviews(items(1, 2, 3), submit, onUpdate, 2);
+
+        expect(submit).toHaveBeenCalledTimes(3);
+        expect(result.map(i => i.state)).toEqual(['submitted', 'failed', 'submitted']);
+        expect(result[0].jobId).toBe('job-1');
+        expect(result[1].error).toBe('PR has no iterations');
+        expect(onUpdate).toHaveBeenCalledTimes(6); // submitting + outcome per PR
+    });
+});
+
+describe('renderBulkProgress', () => {
+    test('shows per-PR state and no report while submissions are running', () => {
+        const container = document.createElement('div');
+        const list = items(1, 2);
+        list[0].state = 'submitting';
+        renderBulkProgress(container, list);
+
+        const rows = container.querySelectorAll('li[data-pr-id]');
+        expect(rows).toHaveLength(2);
+        expect(rows[0].getAttribute('data-state')).toBe('submitting');
+        expect(container.querySelector('.bulk-report')).toBeNull();
+    });
+
+    test('adds a final report with the failures', () => {
+        const container = document.createElement('div');
+        const list = items(1, 2);
+        list[0].state = 'submitted';
+        list[1].state = 'failed';
+        list[1].error = 'Request failed with status code 500';
+        renderBulkProgress(container, list);
+
+        expect(container.querySelector('li[data-pr-id="2"] .bulk-progress-state')!.textContent)
+            .toBe('Failed: Request failed with status code 500');
+        const report = container.querySelector('.bulk-report')!;
+        expect(report.getAttribute('data-outcome')).toBe('partial');
+        expect(report.textContent).toContain('1 of 2 reviews submitted, 1 failed');
+    });
+});
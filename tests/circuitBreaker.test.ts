@@ -0,0 +1,70 @@
+import type { InternalAxiosRequestConfig } from 'axios';
+import { CircuitBreaker, createCircuitBreaker } from '../src/api/circuitBreaker';
+import { NetworkError } from '../src/api/errors';
+
+const config = {} as InternalAxiosRequestConfig;
+const ok = () => Promise.resolve({ status: 200 } as any);
+const down = () => Promise.reject({ code: 'ERR_NETWORK' });
+const badGateway = () => Promise.reject({ response: { status: 502 } });
+const notFound = () => Promise.reject({ response: { status: 404 } });
+
+describe('createCircuitBreaker', () => {
+    let time: number;
+    let breaker: CircuitBreaker;
+    const call = (adapter: () => Promise<any>) => breaker.wrap(adapter)(config).catch(e => e);
+
+    beforeEach(() => {
+        time = Date.parse('2026-03-23T12:00:00Z');
+        breaker = createCircuitBreaker({ failureThreshold: 2, cooldownMs: 10_000 }, () => time);
+    });
+
+    test('opens after consecutive outages and remembers when they started', async () => {
+        await call(down);
+        expect(breaker.state).toBe('closed');
+        expect(breaker.unreachableSince).toEqual(new Date('2026-03-23T12:00:00Z'));
+
+        time += 5_000;
+        await call(badGateway);
+        expect(breaker.state).toBe('open');
+        expect(breaker.unreachableSince).toEqual(new Date('2026-03-23T12:00:00Z'));
+    });
+
+    test('fails fast while open', async () => {
+        await call(down);
+        await call(down);
+        const adapter = jest.fn(ok);
+        expect(await call(adapter)).toBeInstanceOf(NetworkError);
+        expect(adapter).not.toHaveBeenCalled();
+    });
+
+    test('lets a trial call through after the cool-down and closes on success', async () => {
+        const states: string[] = [];
+        breaker.subscribe(b => states.push(b.state));
+        await call(down);
+        await call(down);
+
+        time += 10_000;
+        await call(ok);
+        expect(breaker.state).toBe('closed');
+        expect(breaker.unreachableSince).toBeNull();
+        expect(states).toEqual(['open', 'half-open', 'closed']);
+    });
+
+    test('reopens when the trial call fails', async () => {
+        await call(down);
+        await call(down);
+        time += 10_000;
+        await call(down);
+        expect(breaker.state).toBe('open');
+
+        time += 5_000;
+        expect(await call(ok)).toBeInstanceOf(NetworkError);
+    });
+
+    test('client errors prove the backend is up', async () => {
+        await call(down);
+        await call(notFound);
+        await call(down);
+        expect(breaker.state).toBe('closed');
+    });
+});
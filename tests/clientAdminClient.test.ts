@@ -0,0 +1,83 @@
+import axios from 'axios';
+import { createBackendClient } from '../src/api/backendClient';
+import { UnauthorizedError } from '../src/api/errors';
+import {
+    clearAdoCredentials, createClient, deleteClient, getClient, listAllJobs, listClients, patchClient, setAdoCredentials,
+} from '../src/api/clientAdminClient';
+import { JobStatus } from '../src/generated';
+
+const mockedGet = axios.get as jest.Mock;
+const mockedPost = axios.post as jest.Mock;
+const mockedPut = axios.put as jest.Mock;
+const mockedPatch = axios.patch as jest.Mock;
+const mockedDelete = axios.delete as jest.Mock;
+
+describe('clientAdminClient', () => {
+    const client = createBackendClient(
+        { backendUrl: 'http://api.test/', clientKey: '', clientId: '' }, { adminKey: 'admin-secret' },
+    );
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('listClients gets all clients', async () => {
+        mockedGet.mockResolvedValueOnce({ data: [{ id: 'client-1' }] });
+
+        expect(await listClients(client)).toEqual([{ id: 'client-1' }]);
+        expect(mockedGet).toHaveBeenCalledWith('/clients');
+    });
+
+    test('createClient posts the display name and key', async () => {
+        mockedPost.mockResolvedValueOnce({ data: { id: 'client-2', displayName: 'Team B' } });
+
+        const result = await createClient(client, { displayName: 'Team B', key: 'k' });
+
+        expect(mockedPost).toHaveBeenCalledWith('/clients', { displayName: 'Team B', key: 'k' });
+        expect(result.id).toBe('client-2');
+    });
+
+    test('patchClient and deleteClient address the client', async () => {
+        mockedPatch.mockResolvedValueOnce({ data: { id: 'client-1', isActive: false } });
+
+        await patchClient(client, 'client-1', { isActive: false });
+        await deleteClient(client, 'client-1');
+
+        expect(mockedPatch).toHaveBeenCalledWith('/clients/client-1', { isActive: false });
+        expect(mockedDelete).toHaveBeenCalledWith('/clients/client-1');
+    });
+
+    test('listAllJobs passes paging and the status filter as query parameters', async () => {
+        mockedGet.mockResolvedValueOnce({ data: { total: 0, items: [] } });
+
+        await listAllJobs(client, { limit: 50, offset: 100, status: JobStatus.FAILED });
+
+        expect(mockedGet).toHaveBeenCalledWith('/jobs', { params: { limit: 50, offset: 100, status: 'failed' } });
+    });
+
+    test('getClient gets the client by ID', async () => {
+        const mockClient = { id: 'client 1', displayName: 'Team A', hasAdoCredentials: true };
+        mockedGet.mockResolvedValueOnce({ data: mockClient });
+
+        const result = await getClient(client, 'client 1');
+
+        expect(mockedGet).toHaveBeenCalledWith('/clients/client%201');
+        expect(result).toEqual(mockClient);
+    });
+
+    test('setAdoCredentials puts the service principal', async () => {
+        const request = { tenantId: 'tenant', clientId: 'app', secret: 's3cret' };
+
+        await setAdoCredentials(client, 'client-1', request);
+
+        expect(mockedPut).toHaveBeenCalledWith('/clients/client-1/ado-credentials', request);
+    });
+
+    test('clearAdoCredentials deletes them and passes errors on', async () => {
+        await clearAdoCredentials(client, 'client-1');
+        expect(mockedDelete).toHaveBeenCalledWith('/clients/client-1/ado-credentials');
+
+        mockedDelete.mockRejectedValueOnce(new UnauthorizedError('Invalid X-Admin-Key.', 401));
+        await expect(clearAdoCredentials(client, 'client-1')).rejects.toBeInstanceOf(UnauthorizedError);
+    });
+});
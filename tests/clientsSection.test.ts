@@ -0,0 +1,110 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import type { BackendClient } from '../src/api/backendClient';
+import * as clientAdminClientMod from '../src/api/clientAdminClient';
+import { ClientsSectionElements, generateClientKey, initClientsSection } from '../src/admin/clientsSection';
+
+jest.mock('../src/api/clientAdminClient');
+
+const { listClients, createClient, patchClient, deleteClient } =
+    clientAdminClientMod as jest.Mocked<typeof clientAdminClientMod>;
+
+const teamA = { id: 'client-a', displayName: 'Team A', isActive: true, hasAdoCredentials: true, createdAt: '2026-01-01T00:00:00Z' };
+const teamB = { id: 'client-b', displayName: 'Team B', isActive: false, hasAdoCredentials: false };
+
+async function setup(clients = [teamA, teamB]) {
+    document.body.innerHTML = `
+        <div id="list"></div><input id="name"><input id="key">
+        <button id="generate"></button><button id="create"></button><div id="status"></div>
+    `;
+    const byId = <T extends HTMLElement>(id: string) => document.getElementById(id) as T;
+    const elements: ClientsSectionElements = {
+        list: byId('list'), nameInput: byId('name'), keyInput: byId('key'),
+        generateBtn: byId('generate'), createBtn: byId('create'), status: byId('status'),
+    };
+    listClients.mockResolvedValue(clients);
+    const onChanged = jest.fn();
+    const section = initClientsSection(elements, () => ({} as BackendClient), onChanged);
+    await section.refresh();
+    return { elements, section, onChanged };
+}
+
+const flush = () => new Promise(r => setTimeout(r, 0));
+const button = (clientId: string, label: string) =>
+    Array.from(document.querySelectorAll(`[data-client-id="${clientId}"] button`)).find(b => b.textContent === label) as HTMLButtonElement;
+
+describe('clients section', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        window.confirm = jest.fn(() => true);
+    });
+
+    test('lists the clients with state and credential status', async () => {
+        const { section, onChanged } = await setup();
+
+        const rowA = document.querySelector('[data-client-id="client-a"]')!;
+        expect(rowA.textContent).toContain('Team A');
+        expect(rowA.textContent).toContain('Active');
+        expect(document.querySelector('[data-client-id="client-b"]')!.textContent).toContain('Inactive');
+        expect(section.clients()).toHaveLength(2);
+        expect(onChanged).toHaveBeenCalled();
+    });
+
+    test('deactivates, activates and renames through PATCH', async () => {
+        await setup();
+        window.prompt = jest.fn(() => ' Team A2 ');
+
+        button('client-a', 'Deactivate').click();
+        button('client-b', 'Activate').click();
+        button('client-a', 'Rename').click();
+        await flush();
+
+        expect(patchClient).toHaveBeenCalledWith(expect.anything(), 'client-a', { isActive: false });
+        expect(patchClient).toHaveBeenCalledWith(expect.anything(), 'client-b', { isActive: true });
+        expect(patchClient).toHaveBeenCalledWith(expect.anything(), 'client-a', { displayName: 'Team A2' });
+    });
+
+    test('deletes only after confirmation', async () => {
+        await setup();
+        (window.confirm as jest.Mock).mockReturnValueOnce(false);
+
+        button('client-b', 'Delete').click();
+        expect(deleteClient).not.toHaveBeenCalled();
+
+        button('client-b', 'Delete').click();
+        await flush();
+        expect(deleteClient).toHaveBeenCalledWith(expect.anything(), 'client-b');
+    });
+
+    test('creates a client with a generated key and empties the form', async () => {
+        const { elements } = await setup([]);
+        createClient.mockResolvedValue({ id: 'client-c', displayName: 'Team C' });
+
+        elements.nameInput.value = 'Team C';
+        elements.generateBtn.click();
+        const key = elements.keyInput.value;
+        elements.createBtn.click();
+        await flush();
+
+        expect(key).toMatch(/^[A-Za-z0-9_-]{43}$/);
+        expect(createClient).toHaveBeenCalledWith(expect.anything(), { displayName: 'Team C', key });
+        expect(elements.keyInput.value).toBe('');
+        expect(elements.status.className).toContain('status-success');
+    });
+
+    test('shows a failed action', async () => {
+        const { elements } = await setup();
+        patchClient.mockRejectedValue(new Error('Boom'));
+
+        button('client-a', 'Deactivate').click();
+        await flush();
+
+        expect(elements.status.textContent).toBe('Failed: Boom');
+    });
+
+    test('generated keys differ', () => {
+        expect(generateClientKey()).not.toBe(generateClientKey());
+    });
+});
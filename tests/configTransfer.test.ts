@@ -0,0 +1,270 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import * as crawlConfigClientMod from '../src/api/crawlConfigClient';
+import * as reviewerIdentityClientMod from '../src/api/reviewerIdentityClient';
+import * as extensionSettingsMod from '../src/common/extensionSettings';
+import * as downloadMod from '../src/common/download';
+import type { BackendProfile } from '../src/common/extensionSettings';
+import {
+    buildConfigExport, ConfigExport, ConfigTransferElements, ConfigTransferOptions, configFileName, diffConfig,
+    initConfigTransfer, parseConfigImport,
+} from '../src/settings/configTransfer';
+
+jest.mock('../src/api/backendClient');
+jest.mock('../src/api/crawlConfigClient');
+jest.mock('../src/api/reviewerIdentityClient');
+jest.mock('../src/common/extensionSettings');
+jest.mock('../src/common/download');
+
+const { listCrawlConfigs, createCrawlConfig, patchCrawlConfig, deleteCrawlConfig } =
+    crawlConfigClientMod as jest.Mocked<typeof crawlConfigClientMod>;
+const { resolveIdentity, setReviewerIdentity } = reviewerIdentityClientMod as jest.Mocked<typeof reviewerIdentityClientMod>;
+const { loadReviewerDisplayName, saveProfiles, saveActiveProfileName, saveReviewerDisplayName } =
+    extensionSettingsMod as jest.Mocked<typeof extensionSettingsMod>;
+const { downloadFile } = downloadMod as jest.Mocked<typeof downloadMod>;
+
+const orgUrl = 'https://dev.azure.com/org/';
+const prod: BackendProfile = { name: 'prod', backendUrl: 'https://backend.example.com', clientKey: 'secret-key', clientId: 'client-1' };
+const exported: ConfigExport = {
+    version: 1,
+    profile: { name: 'prod', backendUrl: 'https://backend.example.com', clientId: 'client-1' },
+    reviewerDisplayName: 'AI Reviewer',
+    crawl: { intervalSeconds: 600, isActive: true },
+};
+const crawlConfig = (overrides = {}) => ({
+    id: 'c1', organizationUrl: orgUrl, projectId: 'Project One', crawlIntervalSeconds: 300, isActive: true, ...overrides,
+});
+
+describe('parseConfigImport', () => {
+    test('accepts an export', () => {
+        const { config, errors } = parseConfigImport(JSON.stringify(buildConfigExport(prod, 'AI Reviewer', null, true)));
+
+        expect(errors).toEqual([]);
+        expect(config!.profile).toEqual({ name: 'prod', backendUrl: prod.backendUrl, clientId: 'client-1', clientKey: 'secret-key' });
+        expect(config!.crawl).toBeNull();
+    });
+
+    test('rejects text that is not JSON', () => {
+        expect(parseConfigImport('{').errors).toEqual(['The file is not valid JSON.']);
+    });
+
+    test('rejects a newer format version', () => {
+        expect(parseConfigImport(JSON.stringify({ ...exported, version: 2 })).errors[0]).toContain('format version 2');
+    });
+
+    test('lists every problem with its path', () => {
+        const { config, errors } = parseConfigImport(JSON.stringify({
+            ...exported,
+            profile: { name: '', backendUrl: 'ftp://backend', clientId: 'client-1', clientKy: 'typo' },
+            crawl: { intervalSeconds: 1.5, isActive: 'yes' },
+        }));
+
+        expect(config).toBeNull();
+        expect(errors).toEqual([
+            'profile.clientKy is not a known setting',
+            'profile.name must not be empty',
+            'profile.backendUrl must be an http(s) URL',
+            'crawl.intervalSeconds must be a whole number of seconds, at least 1',
+            'crawl.isActive must be true or false',
+        ]);
+    });
+});
+
+describe('buildConfigExport', () => {
+    test('leaves out the client key unless asked to include it', () => {
+        const config = buildConfigExport(prod, '', { intervalSeconds: 300, isActive: false }, false);
+
+        expect(config.profile).not.toHaveProperty('clientKey');
+        expect(config.reviewerDisplayName).toBeNull();
+        expect(config.crawl).toEqual({ intervalSeconds: 300, isActive: false });
+    });
+
+    test('file names are safe', () => {
+        expect(configFileName('prod / eu')).toBe('meister-propr-prod-eu.json');
+    });
+});
+
+describe('diffConfig', () => {
+    test('lists the changed settings only', () => {
+        const changes = diffConfig({
+            profile: { ...prod, backendUrl: 'https://old.example.com' },
+            activeProfile: 'prod',
+            reviewerDisplayName: 'AI Reviewer',
+            crawl: { intervalSeconds: 300, isActive: false },
+        }, exported);
+
+        expect(changes).toEqual([
+            { setting: 'backendUrl', from: 'https://old.example.com', to: 'https://backend.example.com' },
+            { setting: 'crawl', from: 'every 5 minutes, paused', to: 'every 10 minutes' },
+        ]);
+    });
+
+    test('shows a new profile and never the key itself', () => {
+        const changes = diffConfig({ profile: null, activeProfile: null, reviewerDisplayName: '', crawl: 'unknown' },
+            { ...exported, profile: { ...exported.profile, clientKey: 'new-key' } });
+
+        expect(changes.map(c => c.setting)).toEqual(['profile', 'backendUrl', 'clientId', 'clientKey', 'activeProfile', 'reviewer', 'crawl']);
+        expect(changes.find(c => c.setting === 'clientKey')).toEqual({ setting: 'clientKey', from: '(none)', to: '(hidden)' });
+        expect(changes.find(c => c.setting === 'crawl')!.from).toBe('(could not be loaded)');
+    });
+});
+
+describe('config transfer section', () => {
+    let elements: ConfigTransferElements;
+    let options: ConfigTransferOptions;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        document.body.innerHTML = `
+            <input type="checkbox" id="include"><button id="export"></button><input type="file" id="file">
+            <div id="preview"></div><button id="apply"></button><button id="cancel"></button><div id="status"></div>
+        `;
+        const byId = <T extends HTMLElement>(id: string) => document.getElementById(id) as T;
+        elements = {
+            includeKey: byId('include'), exportBtn: byId('export'), importFile: byId('file'), preview: byId('preview'),
+            applyBtn: byId('apply'), cancelBtn: byId('cancel'), status: byId('status'),
+        };
+        options = {
+            projectId: 'p1', orgUrl, projectName: 'Project One',
+            form: () => ({ profile: prod, reviewerDisplayName: 'AI Reviewer' }),
+            profiles: () => [prod],
+            activeProfileName: () => 'prod',
+            onImported: jest.fn(),
+        };
+        listCrawlConfigs.mockResolvedValue([crawlConfig()]);
+        loadReviewerDisplayName.mockResolvedValue('AI Reviewer');
+        initConfigTransfer(elements, options);
+    });
+
+    const flush = () => new Promise(r => setTimeout(r, 0));
+
+    async function pickFile(content: unknown): Promise<void> {
+        const text = typeof content === 'string' ? content : JSON.stringify(content);
+        // jsdom's File has no text()
+        const file = { name: 'settings.json', text: async () => text };
+        Object.defineProperty(elements.importFile, 'files', { value: [file], configurable: true });
+        elements.importFile.dispatchEvent(new Event('change'));
+        await flush();
+        await flush();
+    }
+
+    test('exports the form and the crawl configuration of this project', async () => {
+        listCrawlConfigs.mockResolvedValue([crawlConfig({ id: 'c2', projectId: 'Other' }), crawlConfig({ isActive: false })]);
+
+        elements.exportBtn.click();
+        await flush();
+
+        const file = downloadFile.mock.calls[0][0];
+        const config = JSON.parse(file.content);
+        expect(file.fileName).toBe('meister-propr-prod.json');
+        expect(config.profile.clientKey).toBeUndefined();
+        expect(config.reviewerDisplayName).toBe('AI Reviewer');
+        expect(config.crawl).toEqual({ intervalSeconds: 300, isActive: false });
+    });
+
+    test('reports an invalid file without a preview', async () => {
+        await pickFile({ version: 1 });
+
+        expect(elements.preview.hidden).toBe(true);
+        expect(elements.status.textContent).toContain('profile must be an object');
+        expect(elements.status.className).toContain('status-error');
+    });
+
+    test('reports a file or settings store that cannot be read', async () => {
+        loadReviewerDisplayName.mockRejectedValue(new Error('Data service unavailable'));
+
+        await pickFile(exported);
+
+        expect(elements.preview.hidden).toBe(true);
+        expect(elements.status.textContent).toBe('The file could not be read: Data service unavailable');
+        expect(elements.status.className).toContain('status-error');
+    });
+
+    test('previews the changes and applies them', async () => {
+        createCrawlConfig.mockResolvedValue(crawlConfig({ id: 'c3', crawlIntervalSeconds: 600 }));
+        resolveIdentity.mockResolvedValue('reviewer-guid');
+
+        await pickFile(exported);
+        expect(elements.applyBtn.hidden).toBe(false);
+        expect(document.querySelector('[data-setting="crawl"]')!.textContent).toContain('every 10 minutes');
+        expect(saveProfiles).not.toHaveBeenCalled();
+
+        elements.applyBtn.click();
+        await flush();
+
+        expect(saveProfiles).toHaveBeenCalledWith([prod]);
+        expect(saveActiveProfileName).toHaveBeenCalledWith('p1', 'prod');
+        expect(deleteCrawlConfig).toHaveBeenCalledWith(undefined, 'c1');
+        expect(createCrawlConfig).toHaveBeenCalledWith(undefined, {
+            organizationUrl: orgUrl, projectId: 'Project One', crawlIntervalSeconds: 600,
+        });
+        expect(patchCrawlConfig).not.toHaveBeenCalled();
+        expect(setReviewerIdentity).toHaveBeenCalledWith(undefined, 'reviewer-guid');
+        expect(saveReviewerDisplayName).toHaveBeenCalledWith('AI Reviewer');
+        expect(options.onImported).toHaveBeenCalledWith([prod], prod, true, 'AI Reviewer');
+        expect(elements.status.textContent).toBe('Settings imported.');
+        expect(elements.preview.hidden).toBe(true);
+    });
+
+    test('pauses an existing configuration with the same interval', async () => {
+        await pickFile({ ...exported, reviewerDisplayName: null, crawl: { intervalSeconds: 300, isActive: false } });
+        elements.applyBtn.click();
+        await flush();
+
+        expect(deleteCrawlConfig).not.toHaveBeenCalled();
+        expect(patchCrawlConfig).toHaveBeenCalledWith(undefined, 'c1', { isActive: false });
+    });
+
+    test('imports only the profile, without activating it, when no client key is known', async () => {
+        await pickFile({ ...exported, reviewerDisplayName: null, crawl: null, profile: { ...exported.profile, name: 'staging' } });
+
+        expect(elements.preview.textContent).toContain('The file has no client key');
+        expect(document.querySelector('[data-setting="activeProfile"]')).toBeNull();
+        elements.applyBtn.click();
+        await flush();
+
+        const staging = { ...exported.profile, name: 'staging', clientKey: '' };
+        expect(saveProfiles).toHaveBeenCalledWith([prod, staging]);
+        expect(saveActiveProfileName).not.toHaveBeenCalled();
+        expect(listCrawlConfigs).not.toHaveBeenCalled();
+        expect(setReviewerIdentity).not.toHaveBeenCalled();
+        expect(options.onImported).toHaveBeenCalledWith([prod, staging], staging, false, null);
+    });
+
+    test('does not reuse the saved key for another client ID', async () => {
+        await pickFile({ ...exported, profile: { ...exported.profile, clientId: 'client-2' } });
+
+        expect(elements.preview.textContent).toContain('The file has no client key');
+        expect(listCrawlConfigs).not.toHaveBeenCalled();
+        elements.applyBtn.click();
+        await flush();
+
+        expect(saveProfiles).toHaveBeenCalledWith([{ ...prod, clientId: 'client-2', clientKey: '' }]);
+        expect(saveActiveProfileName).not.toHaveBeenCalled();
+    });
+
+    test('does not hand on a reviewer that could not be resolved', async () => {
+        resolveIdentity.mockResolvedValue(null);
+
+        await pickFile({ ...exported, crawl: null });
+        elements.applyBtn.click();
+        await flush();
+
+        expect(saveReviewerDisplayName).not.toHaveBeenCalled();
+        expect(options.onImported).toHaveBeenCalledWith([prod], prod, true, null);
+        expect(elements.status.className).toContain('status-error');
+    });
+
+    test('cancel drops the preview', async () => {
+        await pickFile({ ...exported, profile: { ...exported.profile, clientId: 'client-2' } });
+
+        elements.cancelBtn.click();
+        elements.applyBtn.click();
+        await flush();
+
+        expect(elements.preview.hidden).toBe(true);
+        expect(saveProfiles).not.toHaveBeenCalled();
+    });
+});
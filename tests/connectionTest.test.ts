@@ -0,0 +1,126 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { NetworkError, NotFoundError, TimeoutError, UnauthorizedError } from '../src/api/errors';
+import * as reviewerIdentityClientMod from '../src/api/reviewerIdentityClient';
+import { CheckResult, runConnectionTest } from '../src/settings/connectionTest';
+
+jest.mock('../src/api/reviewerIdentityClient');
+
+const { getClientProfile } = reviewerIdentityClientMod as jest.Mocked<typeof reviewerIdentityClientMod>;
+
+const settings = { backendUrl: 'https://backend.test', clientKey: 'key', clientId: 'client-1' };
+const reachable = jest.fn().mockResolvedValue(undefined);
+const unreachable = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+async function run(overrides: Partial<typeof settings> = {}, probe = reachable, pageProtocol = 'https:') {
+    const reported: CheckResult[] = [];
+    const results = await runConnectionTest({ ...settings, ...overrides }, r => reported.push(r), probe, pageProtocol);
+    expect(reported).toEqual(results);
+    return Object.fromEntries(results.map(r => [r.check, r]));
+}
+
+describe('runConnectionTest', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('passes every check for a working connection', async () => {
+        getClientProfile.mockResolvedValue({ id: 'client-1', displayName: 'Team A', isActive: true });
+
+        const results = await run();
+
+        expect(Object.values(results).map(r => r.outcome)).toEqual(['pass', 'pass', 'pass', 'pass', 'pass', 'pass']);
+        expect(results.clientId.message).toContain('Team A');
+        expect(reachable).toHaveBeenCalledWith('https://backend.test');
+    });
+
+    test('fails an invalid URL and skips the rest', async () => {
+        const results = await run({ backendUrl: 'backend.test' });
+
+        expect(results.url.outcome).toBe('fail');
+        expect(results.reachable.outcome).toBe('skip');
+        expect(reachable).not.toHaveBeenCalled();
+    });
+
+    test('fails a plain HTTP backend on an HTTPS page, except on the local machine', async () => {
+        getClientProfile.mockResolvedValue({ id: 'client-1', isActive: true });
+
+        expect((await run({ backendUrl: 'http://backend.test' })).url.outcome).toBe('fail');
+
+        const local = await run({ backendUrl: 'http://localhost:5000' });
+        expect(local.url.outcome).toBe('pass');
+        expect(local.tls.outcome).toBe('warn');
+    });
+
+    test('points at the certificate when an HTTPS backend cannot be reached', async () => {
+        const results = await run({}, unreachable);
+
+        expect(results.reachable.outcome).toBe('fail');
+        expect(results.tls.outcome).toBe('fail');
+        expect(results.tls.message).toContain('https://backend.test');
+        expect(results.cors.outcome).toBe('skip');
+        expect(getClientProfile).not.toHaveBeenCalled();
+    });
+
+    test('skips the credential checks without key or client ID', async () => {
+        const results = await run({ clientKey: '' });
+
+        expect(results.cors.outcome).toBe('skip');
+        expect(results.clientId.outcome).toBe('skip');
+        expect(getClientProfile).not.toHaveBeenCalled();
+    });
+
+    test('blames CORS when the backend answers the probe but the call fails', async () => {
+        getClientProfile.mockRejectedValue(new NetworkError('Network Error', 0));
+
+        const results = await run();
+
+        expect(results.reachable.outcome).toBe('pass');
+        expect(results.cors.outcome).toBe('fail');
+        expect(results.cors.message).toContain(window.location.origin);
+        expect(results.clientKey.outcome).toBe('skip');
+    });
+
+    test('reports a call that times out as a slow backend, not as CORS', async () => {
+        getClientProfile.mockRejectedValue(new TimeoutError('The backend did not answer within 10 s.', 0));
+
+        const results = await run();
+
+        expect(results.reachable.outcome).toBe('fail');
+        expect(results.reachable.message).toContain('10 s');
+        expect(results.tls.outcome).toBe('pass');
+        expect(results.cors.outcome).toBe('skip');
+    });
+
+    test('reports a probe that times out as a slow backend', async () => {
+        const slow = jest.fn().mockRejectedValue(new DOMException('The operation timed out.', 'TimeoutError'));
+
+        const results = await run({}, slow);
+
+        expect(results.reachable.message).toContain('10 s');
+        expect(results.tls.outcome).toBe('skip');
+        expect(getClientProfile).not.toHaveBeenCalled();
+    });
+
+    test.each([
+        [new UnauthorizedError('Unauthorized', 401), 'fail', 'skip'],
+        [new UnauthorizedError('Forbidden', 403), 'pass', 'fail'],
+        [new NotFoundError('Not Found', 404), 'pass', 'fail'],
+    ])('reports %s against the key or the client ID', async (error, keyOutcome, clientOutcome) => {
+        getClientProfile.mockRejectedValue(error);
+
+        const results = await run();
+
+        expect(results.cors.outcome).toBe('pass');
+        expect(results.clientKey.outcome).toBe(keyOutcome);
+        expect(results.clientId.outcome).toBe(clientOutcome);
+    });
+
+    test('warns about a deactivated client', async () => {
+        getClientProfile.mockResolvedValue({ id: 'client-1', displayName: 'Team A', isActive: false });
+
+        expect((await run()).clientId.outcome).toBe('warn');
+    });
+});
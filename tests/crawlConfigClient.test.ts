@@ -1,45 +1,62 @@
-import { ClientsService } from '../src/generated';
-import { listCrawlConfigs, createCrawlConfig, deleteCrawlConfig } from '../src/api/crawlConfigClient';
+import axios from 'axios';
+import { createBackendClient } from '../src/api/backendClient';
+import { NotFoundError, ServerError } from '../src/api/errors';
+import { listCrawlConfigs, createCrawlConfig, deleteCrawlConfig, patchCrawlConfig } from '../src/api/crawlConfigClient';
 
-jest.mock('../src/generated/services/ClientsService');
+const mockedGet = axios.get as jest.Mock;
+const mockedPost = axios.post as jest.Mock;
+const mockedPatch = axios.patch as jest.Mock;
+const mockedDelete = axios.delete as jest.Mock;
 
 describe('crawlConfigClient', () => {
-    const backendUrl = 'http://api.test/';
-    const clientKey = 'secret';
     const clientId = 'client-123';
+    const client = createBackendClient({ backendUrl: 'http://api.test/', clientKey: 'secret', clientId });
 
     beforeEach(() => {
         jest.clearAllMocks();
     });
 
-    test('listCrawlConfigs calls generated service', async () => {
+    test('listCrawlConfigs gets the crawl configurations of the client', async () => {
         const mockResponse = [{ id: 'config-1' }];
-        (ClientsService.getClientsCrawlConfigurations as jest.Mock).mockResolvedValue(mockResponse);
+        mockedGet.mockResolvedValueOnce({ data: mockResponse });
 
-        const result = await listCrawlConfigs(backendUrl, clientKey, clientId);
-        expect(ClientsService.getClientsCrawlConfigurations).toHaveBeenCalledWith(clientId);
+        const result = await listCrawlConfigs(client);
+        expect(mockedGet).toHaveBeenCalledWith(`/clients/${clientId}/crawl-configurations`);
         expect(result).toEqual(mockResponse);
     });
 
-    test('createCrawlConfig calls generated service with correct request', async () => {
-        const request = { reviewerDisplayName: 'John', crawlIntervalSeconds: 300 };
+    test('createCrawlConfig posts the request', async () => {
+        const request = { organizationUrl: 'https://dev.azure.com/org/', projectId: 'proj', crawlIntervalSeconds: 300 };
         const mockResponse = { id: 'config-1' };
-        (ClientsService.postClientsCrawlConfigurations as jest.Mock).mockResolvedValue(mockResponse);
+        mockedPost.mockResolvedValueOnce({ data: mockResponse });
 
-        const result = await createCrawlConfig(backendUrl, clientKey, clientId, request as any);
-        expect(ClientsService.postClientsCrawlConfigurations).toHaveBeenCalledWith(clientId, request);
+        const result = await createCrawlConfig(client, request);
+        expect(mockedPost).toHaveBeenCalledWith(`/clients/${clientId}/crawl-configurations`, request);
         expect(result).toEqual(mockResponse);
     });
 
-    test('deleteCrawlConfig calls generated service', async () => {
-        (ClientsService.deleteClientsCrawlConfigurations as jest.Mock).mockResolvedValue(undefined);
-        await deleteCrawlConfig(backendUrl, clientKey, clientId, 'config-1');
-        expect(ClientsService.deleteClientsCrawlConfigurations).toHaveBeenCalledWith(clientId, 'config-1');
+    test('patchCrawlConfig patches the active state and returns the configuration', async () => {
+        const mockResponse = { id: 'config-1', isActive: false };
+        mockedPatch.mockResolvedValueOnce({ data: mockResponse });
+
+        const result = await patchCrawlConfig(client, 'config-1', { isActive: false });
+        expect(mockedPatch).toHaveBeenCalledWith(`/clients/${clientId}/crawl-configurations/config-1`, { isActive: false });
+        expect(result).toEqual(mockResponse);
+    });
+
+    test('deleteCrawlConfig deletes the configuration', async () => {
+        mockedDelete.mockResolvedValueOnce({ data: undefined });
+        await deleteCrawlConfig(client, 'config-1');
+        expect(mockedDelete).toHaveBeenCalledWith(`/clients/${clientId}/crawl-configurations/config-1`);
     });
 
     test('deleteCrawlConfig treats 404 as success', async () => {
-        (ClientsService.deleteClientsCrawlConfigurations as jest.Mock).mockRejectedValue({ status: 404 });
-        await expect(deleteCrawlConfig(backendUrl, clientKey, clientId, 'config-1')).resolves.not.toThrow();
+        mockedDelete.mockRejectedValueOnce(new NotFoundError('Not found', 404));
+        await expect(deleteCrawlConfig(client, 'config-1')).resolves.not.toThrow();
     });
 
+    test('deleteCrawlConfig rethrows other errors', async () => {
+        mockedDelete.mockRejectedValueOnce(new ServerError('Boom', 500));
+        await expect(deleteCrawlConfig(client, 'config-1')).rejects.toBeInstanceOf(ServerError);
+    });
 });
@@ -0,0 +1,144 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import type { BackendClient } from '../src/api/backendClient';
+import * as crawlConfigClientMod from '../src/api/crawlConfigClient';
+import {
+    CrawlConfigEditorElements, findDuplicateCrawlConfigs, formatCrawlInterval, initCrawlConfigEditor,
+} from '../src/settings/crawlConfigEditor';
+
+jest.mock('../src/api/crawlConfigClient', () => ({
+    ...jest.requireActual('../src/api/crawlConfigClient'),
+    listCrawlConfigs: jest.fn(),
+    createCrawlConfig: jest.fn(),
+    patchCrawlConfig: jest.fn(),
+    deleteCrawlConfig: jest.fn(),
+}));
+
+const { listCrawlConfigs, createCrawlConfig, patchCrawlConfig, deleteCrawlConfig } =
+    crawlConfigClientMod as jest.Mocked<typeof crawlConfigClientMod>;
+
+const orgUrl = 'https://dev.azure.com/org/';
+const current = {
+    id: 'c1', organizationUrl: orgUrl, projectId: 'Project One',
+    crawlIntervalSeconds: 300, isActive: true, createdAt: '2026-01-01T00:00:00Z',
+};
+const other = { ...current, id: 'c2', projectId: 'Other', crawlIntervalSeconds: 90, isActive: false };
+
+async function setup(configs = [current, other], backend: BackendClient | null = {} as BackendClient) {
+    document.body.innerHTML = `
+        <div id="list"></div><input id="interval"><button id="add"></button><div id="status"></div>
+    `;
+    const byId = <T extends HTMLElement>(id: string) => document.getElementById(id) as T;
+    const elements: CrawlConfigEditorElements = {
+        list: byId('list'), interval: byId('interval'), addBtn: byId('add'), status: byId('status'),
+    };
+    listCrawlConfigs.mockResolvedValue(configs);
+    const editor = initCrawlConfigEditor(elements, { orgUrl, projectName: 'Project One', backend: () => backend });
+    await editor.refresh();
+    return elements;
+}
+
+const flush = () => new Promise(r => setTimeout(r, 0));
+const row = (id: string) => document.querySelector<HTMLTableRowElement>(`[data-config-id="${id}"]`)!;
+const button = (id: string, label: string) =>
+    Array.from(row(id).querySelectorAll('button')).find(b => b.textContent === label)!;
+
+describe('findDuplicateCrawlConfigs', () => {
+    test('matches the organization URL loosely and the project case-insensitively', () => {
+        const duplicates = findDuplicateCrawlConfigs([
+            current,
+            { ...current, id: 'c3', organizationUrl: 'https://dev.azure.com/ORG', projectId: 'project one' },
+            other,
+        ]);
+        expect([...duplicates]).toEqual(['c1', 'c3']);
+    });
+});
+
+describe('formatCrawlInterval', () => {
+    test('uses minutes when the interval is whole minutes', () => {
+        expect(formatCrawlInterval(300)).toBe('every 5 minutes');
+        expect(formatCrawlInterval(60)).toBe('every minute');
+        expect(formatCrawlInterval(90)).toBe('every 90 seconds');
+    });
+});
+
+describe('crawl configuration editor', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        window.confirm = jest.fn(() => true);
+    });
+
+    test('lists every configuration with interval, state and the current project marked', async () => {
+        await setup();
+
+        expect(row('c1').classList.contains('crawl-row--current')).toBe(true);
+        expect(row('c1').textContent).toContain('every 5 minutes');
+        expect(row('c1').textContent).toContain('Active');
+        expect(row('c2').textContent).toContain('Paused');
+        expect(document.querySelector('.crawl-duplicate')).toBeNull();
+    });
+
+    test('flags duplicate configurations', async () => {
+        await setup([current, { ...current, id: 'c3' }]);
+
+        expect(row('c1').querySelector('.crawl-duplicate')).not.toBeNull();
+        expect(row('c3').querySelector('.crawl-duplicate')).not.toBeNull();
+    });
+
+    test('pauses and resumes instead of deleting', async () => {
+        await setup();
+
+        button('c1', 'Pause').click();
+        button('c2', 'Resume').click();
+        await flush();
+
+        expect(patchCrawlConfig).toHaveBeenCalledWith(expect.anything(), 'c1', { isActive: false });
+        expect(patchCrawlConfig).toHaveBeenCalledWith(expect.anything(), 'c2', { isActive: true });
+        expect(deleteCrawlConfig).not.toHaveBeenCalled();
+    });
+
+    test('deletes after confirmation', async () => {
+        await setup();
+
+        button('c2', 'Delete').click();
+        await flush();
+
+        expect(deleteCrawlConfig).toHaveBeenCalledWith(expect.anything(), 'c2');
+        expect(listCrawlConfigs).toHaveBeenCalledTimes(2);
+    });
+
+    test('adds the current project with a custom interval', async () => {
+        const elements = await setup([other]);
+
+        elements.interval.value = '15';
+        elements.addBtn.click();
+        await flush();
+
+        expect(createCrawlConfig).toHaveBeenCalledWith(expect.anything(), {
+            organizationUrl: orgUrl, projectId: 'Project One', crawlIntervalSeconds: 900,
+        });
+        expect(elements.status.textContent).toBe('Crawl configuration added.');
+    });
+
+    test('rejects invalid intervals and a second configuration for the project', async () => {
+        const elements = await setup();
+
+        elements.interval.value = '0';
+        elements.addBtn.click();
+        expect(elements.status.className).toContain('status-error');
+
+        elements.interval.value = '10';
+        elements.addBtn.click();
+        expect(elements.status.textContent).toContain('already crawled');
+        expect(createCrawlConfig).not.toHaveBeenCalled();
+    });
+
+    test('stays empty without a complete connection', async () => {
+        const elements = await setup([current], null);
+
+        expect(listCrawlConfigs).not.toHaveBeenCalled();
+        expect(elements.addBtn.disabled).toBe(true);
+    });
+});
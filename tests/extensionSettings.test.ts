@@ -1,7 +1,13 @@
 import * as SDK from 'azure-devops-extension-sdk';
 import {
-    loadSettings,
-    saveSettings,
+    loadProfiles,
+    saveProfiles,
+    loadActiveProfile,
+    saveActiveProfileName,
+    loadSettingLayers,
+    saveSettingLayer,
+    renameProfileReferences,
+    clearProfileReferences,
     loadReviewerDisplayName,
     saveReviewerDisplayName,
 } from '../src/common/extensionSettings';
@@ -22,26 +28,131 @@ describe('extensionSettings', () => {
         (SDK.getExtensionContext as jest.Mock).mockReturnValue({ id: 'mock-ext' });
     });
 
-    test('loadSettings includes clientId', async () => {
-        mockDataManager.getValue.mockImplementation((key) => {
-            if (key === 'backendUrl') return Promise.resolve('http://api.test');
-            if (key === 'clientKey') return Promise.resolve('secret-key');
-            if (key === 'clientId') return Promise.resolve('mock-client-id');
-            return Promise.resolve('');
+    const prod    = { name: 'prod',    backendUrl: 'https://prod.test',    clientKey: 'k1', clientId: 'c1' };
+    const staging = { name: 'staging', backendUrl: 'https://staging.test', clientKey: 'k2', clientId: 'c2' };
+
+    function stored(values: Record<string, unknown>) {
+        mockDataManager.getValue.mockImplementation((key: string, options: { defaultValue?: unknown }) =>
+            Promise.resolve(key in values ? values[key] : options.defaultValue));
+    }
+
+    test('loadProfiles returns the stored profiles', async () => {
+        stored({ backendProfiles: [prod, staging] });
+        await expect(loadProfiles()).resolves.toEqual([prod, staging]);
+    });
+
+    test('loadProfiles turns the connection of older versions into the default profile', async () => {
+        stored({ backendUrl: 'http://api.test', clientKey: 'secret-key', clientId: 'mock-client-id' });
+        await expect(loadProfiles()).resolves.toEqual([
+            { name: 'default', backendUrl: 'http://api.test', clientKey: 'secret-key', clientId: 'mock-client-id' },
+        ]);
+    });
+
+    test('loadProfiles returns no profiles for a fresh installation', async () => {
+        stored({});
+        await expect(loadProfiles()).resolves.toEqual([]);
+    });
+
+    test('saveProfiles stores the list at collection level', async () => {
+        await saveProfiles([prod]);
+        expect(mockDataManager.setValue).toHaveBeenCalledWith('backendProfiles', [prod], { scopeType: 'Default' });
+    });
+
+    test('setting layers are stored per collection, per project and per user', async () => {
+        stored({
+            'settings.collection':        { profile: 'prod' },
+            'settings.project.project-1': { profile: 'staging' },
+            'settings.user':              { groupByFile: true },
+        });
+        await expect(loadSettingLayers('project-1')).resolves.toEqual({
+            collection: { profile: 'prod' }, project: { profile: 'staging' }, user: { groupByFile: true },
+        });
+        expect(mockDataManager.getValue).toHaveBeenCalledWith('settings.user', { scopeType: 'User', defaultValue: null });
+
+        await saveSettingLayer('project', 'project-1', { clientId: 'c9' });
+        expect(mockDataManager.setValue).toHaveBeenCalledWith('settings.project.project-1', { clientId: 'c9' }, { scopeType: 'Default' });
+    });
+
+    test('saving a project layer records the project in the project index once', async () => {
+        stored({ 'settings.projects': ['project-1'] });
+        await saveSettingLayer('project', 'project-1', { profile: 'prod' });
+        await saveSettingLayer('project', 'project-2', { profile: 'prod' });
+        await saveSettingLayer('collection', 'project-3', { profile: 'prod' });
+
+        const indexWrites = mockDataManager.setValue.mock.calls.filter(([key]) => key === 'settings.projects');
+        expect(indexWrites).toEqual([['settings.projects', ['project-1', 'project-2'], { scopeType: 'Default' }]]);
+    });
+
+    test('renameProfileReferences moves the collection default and every project using the old name', async () => {
+        stored({
+            'settings.projects':          ['project-1', 'project-2', 'project-3'],
+            'settings.collection':        { profile: 'staging', groupByFile: true },
+            'settings.project.project-1': { profile: 'staging', clientId: 'c9' },
+            'settings.project.project-2': { profile: 'prod' },
+            'settings.project.project-3': { clientId: 'c8' },
         });
 
-        const settings = await loadSettings();
-        expect(settings.clientId).toBe('mock-client-id');
+        await expect(renameProfileReferences('staging', 'stage')).resolves.toEqual(['project-1']);
+
+        expect(mockDataManager.setValue.mock.calls).toEqual([
+            ['settings.collection', { profile: 'stage', groupByFile: true }, { scopeType: 'Default' }],
+            ['settings.project.project-1', { profile: 'stage', clientId: 'c9' }, { scopeType: 'Default' }],
+        ]);
+    });
+
+    test('clearProfileReferences removes the selection of a deleted profile everywhere', async () => {
+        stored({
+            'settings.projects':          ['project-1', 'project-2'],
+            'settings.collection':        { profile: 'staging', groupByFile: true },
+            'settings.project.project-1': { profile: 'staging', clientId: 'c9' },
+            'settings.project.project-2': { profile: 'prod' },
+        });
+
+        await expect(clearProfileReferences('staging')).resolves.toEqual(['project-1']);
+
+        expect(mockDataManager.setValue.mock.calls).toEqual([
+            ['settings.collection', { groupByFile: true }, { scopeType: 'Default' }],
+            ['settings.project.project-1', { clientId: 'c9' }, { scopeType: 'Default' }],
+        ]);
+    });
+
+    test('the active profile is the project override of the collection default', async () => {
+        stored({ backendProfiles: [prod, staging], 'settings.project.project-1': { profile: 'staging' } });
+        await expect(loadActiveProfile('project-1')).resolves.toEqual(staging);
+        await expect(loadActiveProfile('project-2')).resolves.toEqual(prod);
+
+        stored({ backendProfiles: [prod, staging], 'settings.collection': { profile: 'staging' } });
+        await expect(loadActiveProfile('project-2')).resolves.toEqual(staging);
     });
 
-    test('saveSettings persists clientId', async () => {
-        await saveSettings({
-            backendUrl: 'url',
-            clientKey: 'key',
-            clientId: 'new-client-id'
-        } as any);
+    test('saveActiveProfileName keeps the other project overrides', async () => {
+        stored({ 'settings.project.project-1': { clientId: 'c9' } });
+        await saveActiveProfileName('project-1', 'staging');
+        expect(mockDataManager.setValue).toHaveBeenCalledWith(
+            'settings.project.project-1', { clientId: 'c9', profile: 'staging' }, { scopeType: 'Default' });
+    });
+
+    test('loadActiveProfile applies the project client override', async () => {
+        stored({ backendProfiles: [prod], 'settings.project.project-1': { clientId: 'billing-b', clientKey: 'key-b' } });
+        await expect(loadActiveProfile('project-1')).resolves.toEqual({ ...prod, clientId: 'billing-b', clientKey: 'key-b' });
+    });
+
+    test('loadActiveProfile ignores half a client override', async () => {
+        stored({ backendProfiles: [prod], 'settings.project.project-1': { clientId: 'billing-b' } });
+        await expect(loadActiveProfile('project-1')).resolves.toEqual(prod);
+
+        stored({ backendProfiles: [prod], 'settings.project.project-1': { clientKey: 'key-b' } });
+        await expect(loadActiveProfile('project-1')).resolves.toEqual(prod);
+    });
+
+    test('loadActiveProfile falls back to the first profile when the selected one was deleted', async () => {
+        stored({ backendProfiles: [staging], 'settings.project.project-1': { profile: 'prod' } });
+        await expect(loadActiveProfile('project-1')).resolves.toEqual(staging);
+    });
 
-        expect(mockDataManager.setValue).toHaveBeenCalledWith('clientId', 'new-client-id', expect.anything());
+    test('loadActiveProfile returns null without profiles', async () => {
+        stored({});
+        await expect(loadActiveProfile('project-1')).resolves.toBeNull();
     });
 
     test('loadReviewerDisplayName returns empty string when key absent', async () => {
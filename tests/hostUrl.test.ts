@@ -0,0 +1,39 @@
+import * as SDK from 'azure-devops-extension-sdk';
+import { normalizeOrgUrl, resolveOrgUrl, sameOrgUrl } from '../src/common/hostUrl';
+
+describe('normalizeOrgUrl', () => {
+    test.each([
+        ['https://dev.azure.com/org',                     'https://dev.azure.com/org/'],
+        ['https://dev.azure.com/org//',                   'https://dev.azure.com/org/'],
+        ['https://Org.VisualStudio.com',                  'https://org.visualstudio.com/'],
+        [' https://tfs.corp:8080/tfs/DefaultCollection ', 'https://tfs.corp:8080/tfs/DefaultCollection/'],
+        ['https://tfs.corp:443/tfs/Coll/',                'https://tfs.corp/tfs/Coll/'],
+    ])('%s → %s', (input, expected) => {
+        expect(normalizeOrgUrl(input)).toBe(expected);
+    });
+});
+
+describe('sameOrgUrl', () => {
+    test('ignores trailing slashes and case', () => {
+        expect(sameOrgUrl('https://dev.azure.com/Org', 'https://dev.azure.com/org/')).toBe(true);
+        expect(sameOrgUrl('https://tfs.corp/tfs/DefaultCollection/', 'https://TFS.corp/tfs/defaultcollection')).toBe(true);
+    });
+
+    test('different collections or missing URLs do not match', () => {
+        expect(sameOrgUrl('https://tfs.corp/tfs/A', 'https://tfs.corp/tfs/B')).toBe(false);
+        expect(sameOrgUrl(undefined, 'https://dev.azure.com/org/')).toBe(false);
+    });
+});
+
+describe('resolveOrgUrl', () => {
+    test.each([
+        'https://org.visualstudio.com',
+        'https://tfs.corp/tfs/DefaultCollection',
+    ])('uses the collection URL the host reports (%s)', async url => {
+        const getServiceLocation = jest.fn().mockResolvedValue(url);
+        (SDK.getService as jest.Mock).mockResolvedValue({ getServiceLocation });
+
+        await expect(resolveOrgUrl()).resolves.toBe(`${url}/`);
+        expect(SDK.getService).toHaveBeenCalledWith('ms.vss-features.location-service');
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * @jest-environment jsdom
+ */
+import {
+    formatDateTime, formatRelativeTime, getLocale, localizeDocument, setLocale, t, tn,
+} from '../src/common/i18n';
+import { en } from '../src/common/messages/en';
+import { de } from '../src/common/messages/de';
+
+const now = new Date('2026-03-23T12:00:00Z');
+
+afterEach(() => setLocale('en'));
+
+describe('bundles', () => {
+    it('the German bundle translates every English key', () => {
+        expect(Object.keys(de).sort()).toEqual(Object.keys(en).sort());
+    });
+
+    it('keeps the placeholders of each English message', () => {
+        const placeholders = (s: string) => (s.match(/\{\w+\}/g) ?? []).sort();
+        for (const key of Object.keys(en) as (keyof typeof en)[]) {
+            expect([key, placeholders(de[key])]).toEqual([key, placeholders(en[key])]);
+        }
+    });
+});
+
+describe('t / tn', () => {
+    it('fills placeholders and leaves unknown ones alone', () => {
+        expect(t('panel.submitFailed', { error: 'timeout' })).toBe('Failed to submit review: timeout');
+        expect(t('panel.submitFailed')).toBe('Failed to submit review: {error}');
+    });
+
+    it('uses the bundle of the culture language and falls back to English', () => {
+        setLocale('de-AT');
+        expect(getLocale()).toBe('de-AT');
+        expect(t('jobs.cancel')).toBe('Abbrechen');
+
+        setLocale('fr-FR');
+        expect(t('jobs.cancel')).toBe('Cancel');
+
+        setLocale(undefined);
+        expect(getLocale()).toBe('en');
+    });
+
+    it('picks the plural form for the count', () => {
+        expect(tn('jobs.moreIterations', 1)).toBe('▼ 1 more iteration');
+        expect(tn('jobs.moreIterations', 3)).toBe('▼ 3 more iterations');
+        setLocale('de-DE');
+        expect(tn('picker.selected', 2)).toBe('2 Pull Requests ausgewählt');
+    });
+});
+
+describe('formatRelativeTime', () => {
+    it('uses the largest fitting unit', () => {
+        expect(formatRelativeTime('2026-03-23T09:00:00Z', now)).toBe('3 hr. ago');
+        expect(formatRelativeTime('2026-03-23T11:55:00Z', now)).toBe('5 min. ago');
+        expect(formatRelativeTime('2026-03-21T12:00:00Z', now)).toBe('2 days ago');
+    });
+
+    it('says "just now" below a minute', () => {
+        expect(formatRelativeTime('2026-03-23T11:59:30Z', now)).toBe('just now');
+        setLocale('de');
+        expect(formatRelativeTime('2026-03-23T11:59:30Z', now)).toBe('gerade eben');
+    });
+
+    it('follows the locale', () => {
+        setLocale('de-DE');
+        expect(formatRelativeTime('2026-03-23T09:00:00Z', now)).toBe('vor 3 Std.');
+    });
+});
+
+describe('formatDateTime', () => {
+    it('formats in the locale', () => {
+        const iso = '2026-03-23T10:01:00Z';
+        setLocale('de-DE');
+        expect(formatDateTime(iso)).toBe(
+            new Intl.DateTimeFormat('de-DE', { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(iso)));
+    });
+});
+
+describe('localizeDocument', () => {
+    it('translates text, placeholders and titles and sets the page language', () => {
+        document.body.innerHTML = `
+            <h3 data-i18n="review.recentReviews">Recent Reviews</h3>
+            <input data-i18n-placeholder="picker.selectRepoFirst">
+            <button data-i18n-title="jobs.compare"></button>`;
+        setLocale('de-DE');
+        localizeDocument();
+
+        expect(document.querySelector('h3')!.textContent).toBe('Letzte Reviews');
+        expect(document.querySelector('input')!.placeholder).toBe('Zuerst ein Repository auswählen');
+        expect(document.querySelector('button')!.title).toBe('Vergleichen');
+        expect(document.documentElement.lang).toBe('de-DE');
+    });
+});
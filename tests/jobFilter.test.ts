@@ -0,0 +1,95 @@
+import { emptyJobFilter, filterJobs, isEmptyJobFilter, parseJobQuery } from '../src/review/jobFilter';
+import type { ReviewListItem } from '../src/api/models';
+
+function makeJob(overrides: Partial<ReviewListItem> = {}): ReviewListItem {
+    return {
+        jobId: 'job-1',
+        status: 'completed',
+        organizationUrl: 'https://dev.azure.com/myorg/',
+        projectId: 'proj-1',
+        repositoryId: 'repo-api',
+        pullRequestId: 42,
+        iterationId: 1,
+        submittedAt: '2026-03-20T10:00:00Z',
+        completedAt: '2026-03-20T10:01:00Z',
+        ...overrides,
+    };
+}
+
+const repoNameMap = new Map([['repo-api', 'orders-api'], ['repo-web', 'storefront-web']]);
+const now = new Date('2026-03-23T12:00:00Z');
+
+const jobs = [
+    makeJob({ jobId: 'a', pullRequestId: 42, status: 'failed' }),
+    makeJob({ jobId: 'b', pullRequestId: 42, iterationId: 2, submittedAt: '2026-03-22T10:00:00Z' }),
+    makeJob({ jobId: 'c', pullRequestId: 7, repositoryId: 'repo-web', submittedAt: '2026-03-01T10:00:00Z' }),
+    makeJob({ jobId: 'd', pullRequestId: 108, repositoryId: 'repo-web', status: 'pending', completedAt: null,
+        submittedAt: '2026-03-23T11:00:00Z' }),
+];
+
+function ids(query: string): string[] {
+    return filterJobs(jobs, parseJobQuery(query, now).filter, repoNameMap).map(j => j.jobId);
+}
+
+describe('parseJobQuery', () => {
+    test('returns an empty filter for an empty query', () => {
+        const { filter, errors } = parseJobQuery('   ', now);
+        expect(isEmptyJobFilter(filter)).toBe(true);
+        expect(filter).toEqual(emptyJobFilter());
+        expect(errors).toEqual([]);
+    });
+
+    test('parses every field and keeps the rest as free text', () => {
+        const { filter } = parseJobQuery('status:failed,pending repo:"orders api" since:7d has:failed #42 Fix', now);
+        expect(filter.statuses).toEqual(['failed', 'pending']);
+        expect(filter.repositories).toEqual(['orders api']);
+        expect(filter.since).toEqual(new Date('2026-03-16T12:00:00Z'));
+        expect(filter.hasFailedIterations).toBe(true);
+        expect(filter.text).toEqual(['#42', 'fix']);
+    });
+
+    test('treats a calendar until: date as the whole day', () => {
+        const { filter } = parseJobQuery('until:2026-03-10', now);
+        expect(filter.until).toEqual(new Date(2026, 2, 10, 23, 59, 59, 999));
+    });
+
+    test('reports invalid terms and ignores them', () => {
+        const { filter, errors } = parseJobQuery('status:done since:yesterday has:errors', now);
+        expect(isEmptyJobFilter(filter)).toBe(true);
+        expect(errors).toHaveLength(3);
+        expect(errors[0]).toContain('Unknown status "done"');
+    });
+});
+
+describe('filterJobs', () => {
+    test('filters by status', () => {
+        expect(ids('status:failed')).toEqual(['a']);
+        expect(ids('status:pending,failed')).toEqual(['a', 'd']);
+    });
+
+    test('filters by repository name fragment or ID', () => {
+        expect(ids('repo:storefront')).toEqual(['c', 'd']);
+        expect(ids('repo:repo-api')).toEqual(['a', 'b']);
+    });
+
+    test('filters by submission date range', () => {
+        expect(ids('since:2d')).toEqual(['b', 'd']);
+        expect(ids('since:2026-03-01 until:2026-03-20')).toEqual(['a', 'c']);
+    });
+
+    test('has:failed keeps every job of PRs with a failed iteration', () => {
+        expect(ids('has:failed')).toEqual(['a', 'b']);
+        expect(ids('has:failed status:completed')).toEqual(['b']);
+    });
+
+    test('free text matches the PR number or repository name', () => {
+        expect(ids('#7')).toEqual(['c']);
+        expect(ids('10')).toEqual(['d']);
+        expect(ids('orders')).toEqual(['a', 'b']);
+    });
+
+    test('combines criteria and free text', () => {
+        expect(ids('status:failed repo:api since:7d 42')).toEqual(['a']);
+        expect(ids('repo:web status:completed')).toEqual(['c']);
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createJobsPoller, JobsPoller } from '../src/review/jobsPoller';
+
+const options = { activeIntervalMs: 1_000, idleIntervalMs: 2_000, maxIdleIntervalMs: 5_000 };
+
+function setHidden(hidden: boolean): void {
+    Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+    document.dispatchEvent(new Event('visibilitychange'));
+}
+
+/** Advances fake time and lets the poll's promise chain settle. */
+async function advance(ms: number): Promise<void> {
+    await jest.advanceTimersByTimeAsync(ms);
+}
+
+describe('createJobsPoller', () => {
+    let poller: JobsPoller;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        setHidden(false);
+    });
+
+    afterEach(() => {
+        poller.stop();
+        jest.useRealTimers();
+    });
+
+    test('polls at the active interval while jobs are in flight', async () => {
+        const poll = jest.fn().mockResolvedValue(true);
+        poller = createJobsPoller(poll, options);
+        await poller.start();
+        expect(poll).toHaveBeenCalledTimes(1);
+
+        await advance(1_000);
+        expect(poll).toHaveBeenCalledTimes(2);
+    });
+
+    test('backs off exponentially up to the maximum while idle', async () => {
+        const poll = jest.fn().mockResolvedValue(false);
+        poller = createJobsPoller(poll, options);
+        await poller.start();
+
+        await advance(2_000);
+        expect(poll).toHaveBeenCalledTimes(2);
+        await advance(3_999);
+        expect(poll).toHaveBeenCalledTimes(2);
+        await advance(1);
+        expect(poll).toHaveBeenCalledTimes(3);
+        await advance(5_000);
+        expect(poll).toHaveBeenCalledTimes(4);
+    });
+
+    test('treats a failed poll as idle', async () => {
+        const poll = jest.fn().mockRejectedValue(new Error('offline'));
+        poller = createJobsPoller(poll, options);
+        await poller.start();
+
+        await advance(1_000);
+        expect(poll).toHaveBeenCalledTimes(1);
+        await advance(1_000);
+        expect(poll).toHaveBeenCalledTimes(2);
+    });
+
+    test('pauses while hidden and polls immediately when visible again', async () => {
+        const poll = jest.fn().mockResolvedValue(true);
+        poller = createJobsPoller(poll, options);
+        await poller.start();
+
+        setHidden(true);
+        await advance(10_000);
+        expect(poll).toHaveBeenCalledTimes(1);
+
+        setHidden(false);
+        await advance(0);
+        expect(poll).toHaveBeenCalledTimes(2);
+    });
+
+    test('poke polls immediately and resets the back-off', async () => {
+        const poll = jest.fn().mockResolvedValue(false);
+        poller = createJobsPoller(poll, options);
+        await poller.start();
+        await advance(2_000); // next idle delay is now 4 s
+
+        await poller.poke();
+        expect(poll).toHaveBeenCalledTimes(3);
+        await advance(2_000);
+        expect(poll).toHaveBeenCalledTimes(4);
+    });
+
+    test('polls on window focus', async () => {
+        const poll = jest.fn().mockResolvedValue(false);
+        poller = createJobsPoller(poll, options);
+        await poller.start();
+
+        window.dispatchEvent(new Event('focus'));
+        await advance(0);
+        expect(poll).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import type { BackendClient } from '../src/api/backendClient';
+import * as clientAdminClientMod from '../src/api/clientAdminClient';
+import { initJobsSection, JobsSectionElements, JOBS_PAGE_SIZE } from '../src/admin/jobsSection';
+import { JobStatus } from '../src/generated';
+
+jest.mock('../src/api/clientAdminClient');
+
+const { listAllJobs } = clientAdminClientMod as jest.Mocked<typeof clientAdminClientMod>;
+
+const job = {
+    id: 'job-1', clientId: 'client-a', projectId: 'Project One', repositoryId: 'repo',
+    pullRequestId: 7, iterationId: 2, status: JobStatus.FAILED, errorMessage: 'No diff',
+    submittedAt: '2026-01-01T00:00:00Z',
+};
+
+function setup(total = 1) {
+    document.body.innerHTML = `
+        <div id="list"></div>
+        <select id="filter"><option value=""></option><option value="failed"></option></select>
+        <button id="prev"></button><span id="page"></span><button id="next"></button>
+    `;
+    const byId = <T extends HTMLElement>(id: string) => document.getElementById(id) as T;
+    const elements: JobsSectionElements = {
+        list: byId('list'), statusFilter: byId('filter'), prevBtn: byId('prev'), nextBtn: byId('next'), page: byId('page'),
+    };
+    listAllJobs.mockResolvedValue({ total, items: [job] });
+    const section = initJobsSection(elements, () => ({} as BackendClient), id => id === 'client-a' ? 'Team A' : id);
+    return { elements, section };
+}
+
+const flush = () => new Promise(r => setTimeout(r, 0));
+
+describe('jobs section', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('shows the first page with client names', async () => {
+        const { elements, section } = setup();
+
+        await section.refresh();
+
+        expect(listAllJobs).toHaveBeenCalledWith(expect.anything(), { limit: JOBS_PAGE_SIZE, offset: 0, status: undefined });
+        const row = document.querySelector('[data-job-id="job-1"]')!;
+        expect(row.textContent).toContain('Team A');
+        expect(row.textContent).toContain('repo #7, iteration 2');
+        expect(row.textContent).toContain('No diff');
+        expect(elements.page.textContent).toBe('1–1 of 1');
+        expect(elements.prevBtn.disabled).toBe(true);
+        expect(elements.nextBtn.disabled).toBe(true);
+    });
+
+    test('pages forward and back', async () => {
+        const { elements, section } = setup(120);
+        await section.refresh();
+        expect(elements.nextBtn.disabled).toBe(false);
+
+        elements.nextBtn.click();
+        await flush();
+        expect(listAllJobs).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({ offset: JOBS_PAGE_SIZE }));
+        expect(elements.page.textContent).toBe(`51–100 of 120`);
+
+        elements.prevBtn.click();
+        await flush();
+        expect(listAllJobs).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({ offset: 0 }));
+    });
+
+    test('filters by status from the first page', async () => {
+        const { elements, section } = setup(120);
+        await section.refresh();
+        elements.nextBtn.click();
+        await flush();
+
+        elements.statusFilter.value = 'failed';
+        elements.statusFilter.dispatchEvent(new Event('change'));
+        await flush();
+
+        expect(listAllJobs).toHaveBeenLastCalledWith(expect.anything(), { limit: JOBS_PAGE_SIZE, offset: 0, status: 'failed' });
+    });
+
+    test('shows a load error in place of the list', async () => {
+        const { elements, section } = setup();
+        listAllJobs.mockRejectedValue(new Error('Boom'));
+
+        await section.refresh();
+
+        expect(elements.list.textContent).toBe('Jobs could not be loaded: Boom');
+    });
+});
@@ -0,0 +1,96 @@
+import * as SDK from 'azure-devops-extension-sdk';
+import { getClient } from 'azure-devops-extension-api';
+import * as reviewClientMod from '../src/api/reviewClient';
+import * as extensionSettingsMod from '../src/common/extensionSettings';
+
+jest.mock('../src/api/reviewClient');
+jest.mock('../src/common/extensionSettings');
+jest.mock('azure-devops-extension-sdk');
+jest.mock('azure-devops-extension-api');
+
+const { submitReview } = reviewClientMod as jest.Mocked<typeof reviewClientMod>;
+const { loadActiveProfile, loadSettingLayers } = extensionSettingsMod as jest.Mocked<typeof extensionSettingsMod>;
+
+const mockAddToast = jest.fn();
+const mockNavigate = jest.fn();
+const mockGitClient = { getPullRequestIterations: jest.fn() };
+
+type ActionHandler = { execute(context: unknown): Promise<void> };
+
+function loadAction(): ActionHandler {
+    jest.isolateModules(() => {
+        require('../src/review/prAction');
+    });
+    const [id, factory] = (SDK.register as jest.Mock).mock.calls[0];
+    expect(id).toBe('request-ai-review-action');
+    return factory();
+}
+
+describe('Request AI review action', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        loadActiveProfile.mockResolvedValue({ name: 'prod', backendUrl: 'http://api.test', clientKey: 'test-key', clientId: 'client-123' });
+        loadSettingLayers.mockResolvedValue({ collection: {}, project: {}, user: {} });
+        submitReview.mockResolvedValue({ jobId: 'job-xyz' });
+        mockGitClient.getPullRequestIterations.mockResolvedValue([{ id: 1 }, { id: 4 }]);
+        (getClient as jest.Mock).mockReturnValue(mockGitClient);
+        (SDK.getHost as jest.Mock).mockReturnValue({ name: 'mock-org' });
+        (SDK.getAccessToken as jest.Mock).mockResolvedValue('mock-token');
+        (SDK.getPageContext as jest.Mock).mockReturnValue({
+            webContext: { project: { id: 'mock-project-id', name: 'mock project' } },
+        });
+        (SDK.getExtensionContext as jest.Mock).mockReturnValue({ id: 'pub.ext' });
+        (SDK.getService as jest.Mock).mockImplementation(async (id: string) =>
+            id === 'ms.vss-features.host-navigation-service' ? { navigate: mockNavigate }
+            : id === 'ms.vss-features.location-service' ? { getServiceLocation: async () => 'https://dev.azure.com/mock-org' }
+            : { addToast: mockAddToast });
+    });
+
+    test('submits the latest iteration of the PR from the PR page menu', async () => {
+        await loadAction().execute({ pullRequest: { pullRequestId: 42, repository: { id: 'repo-1' } } });
+
+        expect(mockGitClient.getPullRequestIterations).toHaveBeenCalledWith('repo-1', 42, 'mock-project-id');
+        expect(submitReview).toHaveBeenCalledWith(
+            expect.objectContaining({ settings: { backendUrl: 'http://api.test', clientKey: 'test-key', clientId: 'client-123' } }),
+            expect.objectContaining({
+                organizationUrl: 'https://dev.azure.com/mock-org/', repositoryId: 'repo-1', pullRequestId: 42, iterationId: 4,
+            }));
+    });
+
+    test('accepts the pull request itself as context from the PR list row menu', async () => {
+        await loadAction().execute({ pullRequestId: 7, repository: { id: 'repo-2' } });
+
+        expect(submitReview).toHaveBeenCalledWith(
+            expect.anything(), expect.objectContaining({ repositoryId: 'repo-2', pullRequestId: 7 }));
+    });
+
+    test('shows a toast with the job id that links to the review hub', async () => {
+        await loadAction().execute({ pullRequest: { pullRequestId: 42, repository: { id: 'repo-1' } } });
+
+        const toast = mockAddToast.mock.calls[0][0];
+        expect(toast.message).toContain('job-xyz');
+        expect(toast.callToAction).toBeDefined();
+
+        await toast.onCallToActionClick();
+        expect(mockNavigate).toHaveBeenCalledWith(
+            'https://dev.azure.com/mock-org/mock%20project/_apps/hub/pub.ext.review-hub');
+    });
+
+    test('shows an error toast and does not submit when the extension is not configured', async () => {
+        loadActiveProfile.mockResolvedValue(null);
+
+        await loadAction().execute({ pullRequest: { pullRequestId: 42, repository: { id: 'repo-1' } } });
+
+        expect(submitReview).not.toHaveBeenCalled();
+        expect(mockAddToast.mock.calls[0][0].message).toContain('not configured');
+    });
+
+    test('shows the submission error in a toast', async () => {
+        submitReview.mockRejectedValue(new Error('Request failed with status code 401'));
+
+        await loadAction().execute({ pullRequest: { pullRequestId: 42, repository: { id: 'repo-1' } } });
+
+        expect(mockAddToast.mock.calls[0][0].message).toBe(
+            'Failed to request AI review: Request failed with status code 401');
+    });
+});
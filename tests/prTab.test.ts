@@ -0,0 +1,220 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import * as SDK from 'azure-devops-extension-sdk';
+import { getClient } from 'azure-devops-extension-api';
+import * as reviewClientMod from '../src/api/reviewClient';
+import * as extensionSettingsMod from '../src/common/extensionSettings';
+import type { ReviewListItem } from '../src/api/models';
+
+jest.mock('../src/api/reviewClient');
+jest.mock('../src/common/extensionSettings');
+jest.mock('azure-devops-extension-sdk');
+jest.mock('azure-devops-extension-api');
+
+const { submitReview, listReviews } = reviewClientMod as jest.Mocked<typeof reviewClientMod>;
+const { loadActiveProfile, loadSettingLayers } = extensionSettingsMod as jest.Mocked<typeof extensionSettingsMod>;
+
+const mockGitClient = {
+    getRepositories: jest.fn(),
+    getPullRequestIterations: jest.fn(),
+};
+
+function makeJob(overrides: Partial<ReviewListItem>): ReviewListItem {
+    return {
+        jobId: 'job-1',
+        status: 'completed',
+        organizationUrl: 'https://dev.azure.com/mock-org/',
+        projectId: 'mock-project-id',
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        iterationId: 1,
+        submittedAt: '2026-03-23T10:00:00Z',
+        completedAt: '2026-03-23T10:01:00Z',
+        ...overrides,
+    };
+}
+
+function setupDOM() {
+    document.body.innerHTML = `
+        <div id="backend-status" style="display:none"></div>
+        <div id="config-warning" style="display:none"></div>
+        <div id="input-section">
+            <p id="pr-context"></p>
+            <select id="iteration-select"></select>
+            <select id="base-iteration-select"></select>
+            <button id="review-btn"></button>
+        </div>
+        <div id="loading" style="display:none"></div>
+        <div id="error-message" style="display:none"></div>
+        <div id="results-section" style="display:none">
+            <details id="export-menu"></details>
+            <p id="results-context"></p>
+            <div id="review-summary"></div>
+            <div id="severity-chips"></div>
+            <input type="checkbox" id="group-by-file" />
+            <table id="results-table"><thead><tr></tr></thead><tbody id="results-body"></tbody></table>
+        </div>
+        <div id="compare-section" style="display:none">
+            <span id="compare-target"></span>
+            <select id="compare-base-select"></select>
+            <p id="compare-counts"></p>
+            <table><tbody id="compare-body"></tbody></table>
+        </div>
+        <div id="jobs-section" style="display:none"><p id="jobs-backend"></p><div id="jobs-groups"></div><button id="jobs-load-more" hidden></button></div>
+    `;
+    Element.prototype.scrollIntoView = jest.fn();
+}
+
+function setupMocks(queryParams: Record<string, string> = {}) {
+    loadActiveProfile.mockResolvedValue({ name: 'prod', backendUrl: 'http://api.test', clientKey: 'test-key', clientId: 'client-123' });
+    loadSettingLayers.mockResolvedValue({ collection: {}, project: {}, user: {} });
+    listReviews.mockResolvedValue([
+        makeJob({ jobId: 'mine-1', iterationId: 1 }),
+        makeJob({ jobId: 'mine-2', iterationId: 2, completedAt: '2026-03-23T11:00:00Z' }),
+        makeJob({ jobId: 'other-pr', pullRequestId: 7 }),
+        makeJob({ jobId: 'other-repo', repositoryId: 'repo-2' }),
+    ]);
+    submitReview.mockResolvedValue({ jobId: 'new-job' });
+    mockGitClient.getRepositories.mockResolvedValue([{ id: 'repo-1', name: 'my-repo' }]);
+    mockGitClient.getPullRequestIterations.mockResolvedValue([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    (getClient as jest.Mock).mockReturnValue(mockGitClient);
+    (SDK.getService as jest.Mock).mockImplementation(async (id: string) => {
+        if (id === 'ms.vss-code-web.vc-repository-service') {
+            return { getCurrentGitRepository: async () => ({ id: 'repo-1', name: 'my-repo' }) };
+        }
+        return {
+            getPageRoute: async () => ({ id: 'pr-route', routeValues: { parameters: '42' } }),
+            getQueryParams: async () => queryParams,
+            getServiceLocation: async () => 'https://dev.azure.com/mock-org/',
+        };
+    });
+}
+
+async function initPrTab() {
+    jest.isolateModules(() => {
+        require('../src/review/prTab');
+    });
+    await new Promise(r => setTimeout(r, 50));
+}
+
+describe('PR tab', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        setupDOM();
+    });
+
+    test('shows only the review history of the hosting pull request', async () => {
+        setupMocks();
+        await initPrTab();
+
+        const groups = document.querySelectorAll('.pr-group');
+        expect(groups).toHaveLength(1);
+        const jobIds = Array.from(groups[0].querySelectorAll('[data-job-id]'))
+            .map(b => b.getAttribute('data-job-id'));
+        expect(jobIds).toEqual(['mine-2', 'mine-1']);
+        expect(document.getElementById('pr-context')!.textContent).toBe('PR #42 · my-repo');
+    });
+
+    test('loads older pages to complete the history of the pull request', async () => {
+        setupMocks();
+        const otherPrs = Array.from({ length: 50 }, (_, i) => makeJob({ jobId: `other-${i}`, pullRequestId: 100 + i }));
+        const older = [makeJob({ jobId: 'mine-old', iterationId: 1 }), makeJob({ jobId: 'other-old', pullRequestId: 7 })];
+        listReviews.mockImplementation(async (_client, _cache, page) => page?.offset === 0 ? otherPrs : older);
+
+        await initPrTab();
+
+        expect(listReviews.mock.calls.map(([, , page]) => page?.offset)).toEqual([0, 50]);
+        const jobIds = Array.from(document.querySelectorAll('.pr-group [data-job-id]'))
+            .map(b => b.getAttribute('data-job-id'));
+        expect(jobIds).toEqual(['mine-old']);
+    });
+
+    test('leaves pages beyond the first few to "Load more"', async () => {
+        setupMocks();
+        listReviews.mockImplementation(async (_client, _cache, page) =>
+            Array.from({ length: 50 }, (_, i) => makeJob({ jobId: `other-${page!.offset + i}`, pullRequestId: 100 })));
+
+        await initPrTab();
+
+        expect(listReviews.mock.calls.map(([, , page]) => page?.offset)).toEqual([0, 50, 100, 150]);
+        expect(document.getElementById('jobs-load-more')!.hidden).toBe(false);
+    });
+
+    test('submits the latest iteration when the page has no iteration selected', async () => {
+        setupMocks();
+        await initPrTab();
+
+        document.getElementById('review-btn')!.click();
+        await new Promise(r => setTimeout(r, 50));
+
+        expect(submitReview).toHaveBeenCalledWith(
+            expect.objectContaining({ settings: { backendUrl: 'http://api.test', clientKey: 'test-key', clientId: 'client-123' } }),
+            expect.objectContaining({ repositoryId: 'repo-1', pullRequestId: 42, iterationId: 3 }));
+    });
+
+    test('preselects and submits the iteration selected in the host page URL', async () => {
+        setupMocks({ iteration: '2' });
+        await initPrTab();
+
+        const iterationSelect = document.getElementById('iteration-select') as HTMLSelectElement;
+        expect(iterationSelect.value).toBe('2');
+
+        document.getElementById('review-btn')!.click();
+        await new Promise(r => setTimeout(r, 50));
+
+        expect(submitReview).toHaveBeenCalledWith(
+            expect.anything(),
+            { organizationUrl: expect.any(String), projectId: 'mock-project-id', repositoryId: 'repo-1',
+              pullRequestId: 42, iterationId: 2 });
+    });
+
+    test('only offers older iterations as the base of an incremental review', async () => {
+        setupMocks();
+        await initPrTab();
+
+        const iterationSelect = document.getElementById('iteration-select') as HTMLSelectElement;
+        const baseSelect = document.getElementById('base-iteration-select') as HTMLSelectElement;
+        expect(Array.from(baseSelect.options).map(o => o.value)).toEqual(['', '1', '2']);
+
+        iterationSelect.value = '2';
+        iterationSelect.dispatchEvent(new Event('change'));
+        expect(Array.from(baseSelect.options).map(o => o.value)).toEqual(['', '1']);
+    });
+
+    test('submits the base iteration for an incremental review', async () => {
+        setupMocks();
+        await initPrTab();
+
+        const baseSelect = document.getElementById('base-iteration-select') as HTMLSelectElement;
+        baseSelect.value = '2';
+
+        document.getElementById('review-btn')!.click();
+        await new Promise(r => setTimeout(r, 50));
+
+        expect(submitReview).toHaveBeenCalledWith(
+            expect.anything(), expect.objectContaining({ pullRequestId: 42, iterationId: 3, baseIterationId: 2 }));
+    });
+
+    test('shows the outage banner while the backend is unreachable and hides it on recovery', async () => {
+        setupMocks();
+        await initPrTab();
+
+        // The panel's client reports every backend call to its circuit breaker
+        const { breaker } = listReviews.mock.calls[0][0];
+        const call = (adapter: () => Promise<any>) => breaker.wrap(adapter)({} as any).catch(() => undefined);
+        const banner = document.getElementById('backend-status')!;
+
+        await call(() => Promise.reject({ code: 'ERR_NETWORK' }));
+        expect(banner.style.display).toBe('none');
+        await call(() => Promise.reject({ code: 'ERR_NETWORK' }));
+        expect(banner.style.display).toBe('');
+        expect(banner.textContent).toMatch(/^Backend unreachable since .+, retrying…$/);
+
+        const later = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60_000);
+        await call(() => Promise.resolve({ status: 200 }));
+        later.mockRestore();
+        expect(banner.style.display).toBe('none');
+    });
+});
@@ -73,3 +73,63 @@ describe('renderJobsGroups — empty state (US3)', () => {
         expect(container.querySelectorAll('.pr-group')).toHaveLength(0);
     });
 });
+
+// ── Iteration column ───────────────────────────────────────────────────────
+
+describe('renderJobsGroups — iteration column', () => {
+    test('shows the iteration range of an incremental review', () => {
+        const container = document.createElement('div');
+        renderJobsGroups(container, [makeJob({ iterationId: 5, baseIterationId: 3 })], repoMap);
+        const firstCell = container.querySelector('.pr-group-table tbody td');
+        expect(firstCell!.textContent).toBe('3 → 5');
+    });
+
+    test('shows the single iteration of a full review', () => {
+        const container = document.createElement('div');
+        renderJobsGroups(container, [makeJob({ iterationId: 5, baseIterationId: null })], repoMap);
+        const firstCell = container.querySelector('.pr-group-table tbody td');
+        expect(firstCell!.textContent).toBe('5');
+    });
+});
+
+// ── Compare action ─────────────────────────────────────────────────────────
+
+describe('renderJobsGroups — compare action', () => {
+    test('offers Compare only on completed entries with an older completed review', () => {
+        const container = document.createElement('div');
+        renderJobsGroups(container, [
+            makeJob({ jobId: 'old', iterationId: 1, submittedAt: '2026-03-22T10:00:00Z' }),
+            makeJob({ jobId: 'new', iterationId: 2, submittedAt: '2026-03-23T10:00:00Z' }),
+        ], repoMap);
+        const buttons = container.querySelectorAll('[data-compare-job-id]');
+        expect(buttons).toHaveLength(1);
+        expect(buttons[0].getAttribute('data-compare-job-id')).toBe('new');
+    });
+
+    test('offers no Compare action for a single completed review', () => {
+        const container = document.createElement('div');
+        renderJobsGroups(container, [
+            makeJob({ jobId: 'old', submittedAt: '2026-03-22T10:00:00Z', status: 'failed' }),
+            makeJob({ jobId: 'new' }),
+        ], repoMap);
+        expect(container.querySelector('[data-compare-job-id]')).toBeNull();
+    });
+});
+
+// ── Cancel / Re-run actions ────────────────────────────────────────────────
+
+describe('renderJobsGroups — cancel and re-run actions', () => {
+    test.each(['pending', 'processing'] as const)('offers Cancel but no Re-run for a %s job', (status) => {
+        const container = document.createElement('div');
+        renderJobsGroups(container, [makeJob({ status, completedAt: null })], repoMap);
+        expect(container.querySelector('[data-cancel-job-id="job-1"]')!.textContent).toBe('Cancel');
+        expect(container.querySelector('[data-rerun-job-id]')).toBeNull();
+    });
+
+    test.each(['completed', 'failed'] as const)('offers Re-run but no Cancel for a %s job', (status) => {
+        const container = document.createElement('div');
+        renderJobsGroups(container, [makeJob({ status })], repoMap);
+        expect(container.querySelector('[data-rerun-job-id="job-1"]')!.textContent).toBe('Re-run');
+        expect(container.querySelector('[data-cancel-job-id]')).toBeNull();
+    });
+});
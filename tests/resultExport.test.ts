@@ -0,0 +1,113 @@
+import { toMarkdown, toCsv, toJson, exportReview } from '../src/review/resultExport';
+import type { ReviewStatusResponse } from '../src/api/models';
+
+function makeReview(overrides: Partial<ReviewStatusResponse> = {}): ReviewStatusResponse {
+    return {
+        jobId: 'job-1',
+        status: 'completed',
+        organizationUrl: 'https://dev.azure.com/myorg/',
+        projectId: 'proj-1',
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        iterationId: 3,
+        submittedAt: '2026-03-23T10:00:00Z',
+        completedAt: '2026-03-23T10:01:00Z',
+        result: {
+            summary: 'Looks good overall.',
+            comments: [
+                { filePath: 'src/b.ts', lineNumber: 20, severity: 'warning', message: 'Second in b' },
+                { filePath: 'src/b.ts', lineNumber: 5, severity: 'error', message: 'First in b' },
+                { filePath: 'src/a.ts', lineNumber: 1, severity: 'suggestion', message: 'Only in a' },
+                { severity: 'info', message: 'General note, with "quotes"' },
+            ],
+        },
+        ...overrides,
+    };
+}
+
+describe('toMarkdown', () => {
+    test('renders the summary and groups comments by file in path order, general comments last', () => {
+        const md = toMarkdown(makeReview(), 'my-repo');
+        expect(md).toContain('# AI review — PR #42');
+        expect(md).toContain('Repository: my-repo · iteration 3');
+        expect(md).toContain('## Summary\n\nLooks good overall.');
+        expect(md).toContain('## Comments (4)');
+
+        const a = md.indexOf('### `src/a.ts`');
+        const b = md.indexOf('### `src/b.ts`');
+        const general = md.indexOf('### General');
+        expect(a).toBeGreaterThan(-1);
+        expect(b).toBeGreaterThan(a);
+        expect(general).toBeGreaterThan(b);
+    });
+
+    test('orders comments within a file by line', () => {
+        const md = toMarkdown(makeReview());
+        expect(md.indexOf('- **Error** (line 5): First in b'))
+            .toBeLessThan(md.indexOf('- **Warning** (line 20): Second in b'));
+    });
+
+    test('labels incremental reviews with their iteration range', () => {
+        expect(toMarkdown(makeReview({ baseIterationId: 2 }))).toContain('iterations 2–3');
+    });
+});
+
+describe('toCsv', () => {
+    test('writes a header and one row per comment', () => {
+        const rows = toCsv(makeReview()).trimEnd().split('\r\n');
+        expect(rows[0]).toBe('File,Line,Severity,Message');
+        expect(rows).toHaveLength(5);
+        expect(rows[1]).toBe('src/b.ts,20,warning,Second in b');
+    });
+
+    test('quotes fields containing commas and quotes', () => {
+        const rows = toCsv(makeReview()).trimEnd().split('\r\n');
+        expect(rows[4]).toBe(',,info,"General note, with ""quotes"""');
+    });
+
+    test('neutralizes cells that would be read as formulas', () => {
+        const csv = toCsv(makeReview({ result: { summary: '', comments: [
+            { filePath: '=cmd|calc', lineNumber: 1, severity: 'error', message: '+SUM(A1:A2)' },
+            { filePath: '@src/a.ts', lineNumber: 2, severity: 'info', message: '-1, really' },
+        ] } }));
+        const rows = csv.trimEnd().split('\r\n');
+        expect(rows[1]).toBe("'=cmd|calc,1,error,'+SUM(A1:A2)");
+        expect(rows[2]).toBe(`'@src/a.ts,2,info,"'-1, really"`);
+    });
+
+    test('writes only the header when there are no comments', () => {
+        expect(toCsv(makeReview({ result: { summary: '', comments: [] } }))).toBe('File,Line,Severity,Message\r\n');
+    });
+});
+
+describe('toJson', () => {
+    test('includes job metadata and the full result', () => {
+        const parsed = JSON.parse(toJson(makeReview()));
+        expect(parsed).toMatchObject({
+            jobId: 'job-1',
+            pullRequestId: 42,
+            repositoryId: 'repo-1',
+            iterationId: 3,
+            baseIterationId: null,
+            submittedAt: '2026-03-23T10:00:00Z',
+            completedAt: '2026-03-23T10:01:00Z',
+        });
+        expect(parsed.result.comments).toHaveLength(4);
+    });
+});
+
+describe('exportReview', () => {
+    test.each([
+        ['markdown', 'review-pr42-iteration3.md', 'text/markdown'],
+        ['csv', 'review-pr42-iteration3.csv', 'text/csv'],
+        ['json', 'review-pr42-iteration3.json', 'application/json'],
+    ] as const)('%s export has file name %s', (format, fileName, mimeType) => {
+        const file = exportReview(makeReview(), format);
+        expect(file.fileName).toBe(fileName);
+        expect(file.mimeType).toBe(mimeType);
+    });
+
+    test('incremental exports name the iteration range', () => {
+        expect(exportReview(makeReview({ baseIterationId: 1 }), 'csv').fileName).toBe('review-pr42-iteration1-3.csv');
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment jsdom
+ */
+import {
+    countBySeverity, createResultsViewState, groupCommentsByFile, renderResultsTable, renderSeverityChips,
+    sortComments,
+} from '../src/review/resultsTable';
+import type { ReviewComment } from '../src/api/models';
+
+const comments: ReviewComment[] = [
+    { filePath: '/src/b.ts', lineNumber: 20, severity: 'info',    message: 'Consider a constant' },
+    { filePath: '/src/a.ts', lineNumber: 5,  severity: 'error',   message: 'Null dereference' },
+    { severity: 'suggestion', message: 'Add tests' },
+    { filePath: '/src/a.ts', lineNumber: 2,  severity: 'warning', message: 'Unused variable' },
+];
+
+function renderRow(comment: ReviewComment): HTMLTableRowElement {
+    const tr = document.createElement('tr');
+    tr.setAttribute('data-severity', comment.severity);
+    tr.textContent = comment.message;
+    return tr;
+}
+
+function visibleMessages(tbody: HTMLElement): string[] {
+    return Array.from(tbody.querySelectorAll<HTMLTableRowElement>('tr:not(.file-group-row)'))
+        .filter(tr => tr.style.display !== 'none')
+        .map(tr => tr.textContent!);
+}
+
+describe('countBySeverity', () => {
+    test('counts every severity', () => {
+        expect(countBySeverity(comments)).toEqual({ error: 1, warning: 1, suggestion: 1, info: 1 });
+    });
+});
+
+describe('sortComments', () => {
+    test('keeps the backend order without a sort', () => {
+        expect(sortComments(comments, null)).toEqual(comments);
+    });
+
+    test('sorts by severity, most severe first', () => {
+        const sorted = sortComments(comments, { key: 'severity', descending: false });
+        expect(sorted.map(c => c.severity)).toEqual(['error', 'warning', 'suggestion', 'info']);
+    });
+
+    test('sorts by file then line, descending when requested', () => {
+        const sorted = sortComments(comments, { key: 'file', descending: true });
+        expect(sorted.map(c => c.message)).toEqual(
+            ['Consider a constant', 'Null dereference', 'Unused variable', 'Add tests']);
+    });
+});
+
+describe('groupCommentsByFile', () => {
+    test('orders groups by path with general comments last', () => {
+        const groups = groupCommentsByFile(comments);
+        expect(groups.map(g => g.filePath)).toEqual(['/src/a.ts', '/src/b.ts', null]);
+        expect(groups[0].comments).toHaveLength(2);
+    });
+});
+
+describe('renderSeverityChips', () => {
+    test('renders a chip with the count per severity and toggles it on click', () => {
+        const container = document.createElement('div');
+        const state = createResultsViewState();
+        const onChange = jest.fn();
+        renderSeverityChips(container, comments.slice(0, 2), state, onChange);
+
+        const chips = container.querySelectorAll<HTMLButtonElement>('.severity-chip');
+        expect(Array.from(chips).map(c => c.textContent)).toEqual(['Error 1', 'Warning 0', 'Suggestion 0', 'Info 1']);
+        expect(chips[1].disabled).toBe(true);
+
+        chips[3].click();
+        expect(state.hiddenSeverities.has('info')).toBe(true);
+        expect(onChange).toHaveBeenCalled();
+    });
+});
+
+describe('renderResultsTable', () => {
+    test('hides rows of filtered severities', () => {
+        const tbody = document.createElement('tbody');
+        const state = createResultsViewState();
+        state.hiddenSeverities.add('info');
+        renderResultsTable(tbody, comments, state, renderRow, jest.fn());
+        expect(visibleMessages(tbody)).toEqual(['Null dereference', 'Add tests', 'Unused variable']);
+    });
+
+    test('groups rows under file headers with a severity tally', () => {
+        const tbody = document.createElement('tbody');
+        const state = createResultsViewState();
+        state.groupByFile = true;
+        renderResultsTable(tbody, comments, state, renderRow, jest.fn());
+
+        const headers = tbody.querySelectorAll('.file-group-row');
+        expect(headers).toHaveLength(3);
+        expect(headers[0].querySelector('.file-group-toggle')!.textContent).toBe('▼ /src/a.ts (2)');
+        expect(headers[0].querySelector('.severity-tally')!.textContent).toBe('1 error1 warning');
+    });
+
+    test('uses plural forms in the severity tally', () => {
+        const tbody = document.createElement('tbody');
+        const state = createResultsViewState();
+        state.groupByFile = true;
+        const twoErrors = [...comments, { filePath: '/src/a.ts', lineNumber: 9, severity: 'error' as const, message: 'Leak' }];
+        renderResultsTable(tbody, twoErrors, state, renderRow, jest.fn());
+
+        expect(tbody.querySelector('.severity-tally')!.textContent).toBe('2 errors1 warning');
+    });
+
+    test('collapses a file group when its header is clicked', () => {
+        const tbody = document.createElement('tbody');
+        const state = createResultsViewState();
+        state.groupByFile = true;
+        const rerender = () => renderResultsTable(tbody, comments, state, renderRow, rerender);
+        rerender();
+
+        tbody.querySelector<HTMLButtonElement>('.file-group-toggle')!.click();
+        expect(state.collapsedFiles.has('/src/a.ts')).toBe(true);
+        expect(visibleMessages(tbody)).toEqual(['Consider a constant', 'Add tests']);
+    });
+});
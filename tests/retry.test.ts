@@ -0,0 +1,89 @@
+import type { InternalAxiosRequestConfig } from 'axios';
+import { backoffDelay, DEFAULT_RETRY_OPTIONS, parseRetryAfter, retryDelay, withRetry } from '../src/api/retry';
+
+const get  = { method: 'get' } as InternalAxiosRequestConfig;
+const post = { method: 'post' } as InternalAxiosRequestConfig;
+const networkError = { code: 'ERR_NETWORK' };
+const status = (code: number, headers: Record<string, string> = {}) => ({ response: { status: code, headers } });
+
+describe('backoffDelay', () => {
+    test('doubles the cap with each attempt and applies full jitter', () => {
+        expect(backoffDelay(0, DEFAULT_RETRY_OPTIONS, () => 1)).toBe(500);
+        expect(backoffDelay(2, DEFAULT_RETRY_OPTIONS, () => 1)).toBe(2000);
+        expect(backoffDelay(2, DEFAULT_RETRY_OPTIONS, () => 0.25)).toBe(500);
+    });
+
+    test('never exceeds maxDelayMs', () => {
+        expect(backoffDelay(10, DEFAULT_RETRY_OPTIONS, () => 1)).toBe(DEFAULT_RETRY_OPTIONS.maxDelayMs);
+    });
+});
+
+describe('parseRetryAfter', () => {
+    const now = Date.parse('2026-03-23T12:00:00Z');
+
+    test('reads delta seconds and HTTP dates', () => {
+        expect(parseRetryAfter('7', now)).toBe(7000);
+        expect(parseRetryAfter('Mon, 23 Mar 2026 12:00:30 GMT', now)).toBe(30_000);
+        expect(parseRetryAfter('Mon, 23 Mar 2026 11:00:00 GMT', now)).toBe(0);
+    });
+
+    test('ignores missing or invalid values', () => {
+        expect(parseRetryAfter(undefined, now)).toBeNull();
+        expect(parseRetryAfter('soon', now)).toBeNull();
+    });
+});
+
+describe('retryDelay', () => {
+    test('retries idempotent calls on network errors and gateway statuses', () => {
+        expect(retryDelay(get, networkError, 0, DEFAULT_RETRY_OPTIONS)).not.toBeNull();
+        for (const code of [429, 502, 503, 504]) {
+            expect(retryDelay(get, status(code), 0, DEFAULT_RETRY_OPTIONS)).not.toBeNull();
+        }
+        expect(retryDelay({ method: 'delete' } as InternalAxiosRequestConfig, networkError, 0, DEFAULT_RETRY_OPTIONS))
+            .not.toBeNull();
+    });
+
+    test('does not retry POST, client errors, plain 500s or after the last attempt', () => {
+        expect(retryDelay(post, networkError, 0, DEFAULT_RETRY_OPTIONS)).toBeNull();
+        expect(retryDelay(get, status(404), 0, DEFAULT_RETRY_OPTIONS)).toBeNull();
+        expect(retryDelay(get, status(500), 0, DEFAULT_RETRY_OPTIONS)).toBeNull();
+        expect(retryDelay(get, networkError, DEFAULT_RETRY_OPTIONS.retries, DEFAULT_RETRY_OPTIONS)).toBeNull();
+    });
+
+    test('honors Retry-After on 429 and 503 and gives up when it is too long', () => {
+        expect(retryDelay(get, status(429, { 'retry-after': '3' }), 0, DEFAULT_RETRY_OPTIONS)).toBe(3000);
+        expect(retryDelay(get, status(503, { 'retry-after': '5' }), 0, DEFAULT_RETRY_OPTIONS)).toBe(5000);
+        expect(retryDelay(get, status(503, { 'retry-after': '3600' }), 0, DEFAULT_RETRY_OPTIONS)).toBeNull();
+    });
+});
+
+describe('withRetry', () => {
+    const wait = jest.fn().mockResolvedValue(undefined);
+
+    beforeEach(() => wait.mockClear());
+
+    test('retries until the call succeeds', async () => {
+        const adapter = jest.fn()
+            .mockRejectedValueOnce(status(503, { 'retry-after': '1' }))
+            .mockRejectedValueOnce(networkError)
+            .mockResolvedValueOnce({ status: 200, data: 'ok' });
+
+        const response = await withRetry(adapter, DEFAULT_RETRY_OPTIONS, wait)(get);
+        expect(response.data).toBe('ok');
+        expect(adapter).toHaveBeenCalledTimes(3);
+        expect(wait.mock.calls[0][0]).toBe(1000);
+    });
+
+    test('rethrows the last error when retries run out', async () => {
+        const adapter = jest.fn().mockRejectedValue(networkError);
+        await expect(withRetry(adapter, DEFAULT_RETRY_OPTIONS, wait)(get)).rejects.toBe(networkError);
+        expect(adapter).toHaveBeenCalledTimes(DEFAULT_RETRY_OPTIONS.retries + 1);
+    });
+
+    test('sends non-idempotent calls once', async () => {
+        const adapter = jest.fn().mockRejectedValue(networkError);
+        await expect(withRetry(adapter, DEFAULT_RETRY_OPTIONS, wait)(post)).rejects.toBe(networkError);
+        expect(adapter).toHaveBeenCalledTimes(1);
+        expect(wait).not.toHaveBeenCalled();
+    });
+});
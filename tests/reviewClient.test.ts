@@ -0,0 +1,124 @@
+import axios from 'axios';
+import { createBackendClient } from '../src/api/backendClient';
+import { cancelReview, listReviews, resubmitReview, ReviewListCache } from '../src/api/reviewClient';
+import type { ReviewListItem } from '../src/api/models';
+
+const mockedGet = axios.get as jest.Mock;
+const mockedPost = axios.post as jest.Mock;
+
+const client = createBackendClient(
+    { backendUrl: 'https://api.test/', clientKey: 'key', clientId: 'client-1' },
+    { ado: { orgUrl: 'https://dev.azure.com/org/', tokens: { getToken: async () => 'token', refresh: async () => 'token' } } },
+);
+
+const items = [{ jobId: 'job-1', status: 'completed' }] as ReviewListItem[];
+
+describe('listReviews — conditional requests', () => {
+    beforeEach(() => {
+        mockedGet.mockReset();
+    });
+
+    test('stores the ETag and sends it as If-None-Match on the next call', async () => {
+        const cache: ReviewListCache = {};
+        mockedGet.mockResolvedValueOnce({ status: 200, data: items, headers: { etag: '"v1"' } });
+        await listReviews(client, cache);
+        expect(cache).toEqual({ etag: '"v1"', items });
+        expect(mockedGet.mock.calls[0][1].headers['If-None-Match']).toBeUndefined();
+
+        mockedGet.mockResolvedValueOnce({ status: 304, data: '', headers: { etag: '"v1"' } });
+        const result = await listReviews(client, cache);
+        expect(mockedGet.mock.calls[1][1].headers['If-None-Match']).toBe('"v1"');
+        expect(result).toBe(items);
+    });
+
+    test('works without ETag support on the backend', async () => {
+        const cache: ReviewListCache = {};
+        mockedGet.mockResolvedValue({ status: 200, data: items, headers: {} });
+        await listReviews(client, cache);
+        await listReviews(client, cache);
+        expect(mockedGet.mock.calls[1][1].headers['If-None-Match']).toBeUndefined();
+    });
+
+    test('accepts 304 as a successful status', async () => {
+        mockedGet.mockResolvedValue({ status: 200, data: items, headers: {} });
+        await listReviews(client);
+        const { validateStatus } = mockedGet.mock.calls[0][1];
+        expect(validateStatus(304)).toBe(true);
+        expect(validateStatus(404)).toBe(false);
+    });
+});
+
+describe('listReviews — paging', () => {
+    beforeEach(() => {
+        mockedGet.mockReset();
+        mockedGet.mockResolvedValue({ status: 200, data: items, headers: {} });
+    });
+
+    test('sends limit and offset as query parameters', async () => {
+        await listReviews(client, undefined, { limit: 50, offset: 100 });
+        expect(mockedGet.mock.calls[0][1].params).toEqual({ limit: 50, offset: 100 });
+    });
+
+    test('requests the whole list without a page', async () => {
+        await listReviews(client);
+        expect(mockedGet.mock.calls[0][1].params).toBeUndefined();
+    });
+
+    test('cuts the page out of the full list of a backend that ignores paging', async () => {
+        const all = Array.from({ length: 5 }, (_, i) => ({ ...items[0], jobId: `job-${i}` }));
+        mockedGet.mockResolvedValue({ status: 200, data: all, headers: {} });
+
+        const first = await listReviews(client, undefined, { limit: 2, offset: 0 });
+        const last = await listReviews(client, undefined, { limit: 2, offset: 4 });
+
+        expect(first.map(j => j.jobId)).toEqual(['job-0', 'job-1']);
+        expect(last.map(j => j.jobId)).toEqual(['job-4']);
+    });
+});
+
+describe('cancelReview', () => {
+    test('posts to the cancel route of the job', async () => {
+        mockedPost.mockResolvedValueOnce({ data: { jobId: 'job-1', status: 'failed' } });
+        const result = await cancelReview(client, 'job-1');
+        expect(mockedPost.mock.calls[0][0]).toBe('/reviews/job-1/cancel');
+        expect(result.status).toBe('failed');
+    });
+});
+
+describe('resubmitReview', () => {
+    const job: ReviewListItem = {
+        jobId: 'job-1',
+        status: 'failed',
+        organizationUrl: 'https://dev.azure.com/org/',
+        projectId: 'proj-1',
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        iterationId: 3,
+        baseIterationId: null,
+        submittedAt: '2026-03-23T10:00:00Z',
+        completedAt: '2026-03-23T10:01:00Z',
+    };
+
+    beforeEach(() => {
+        mockedPost.mockReset();
+        mockedPost.mockResolvedValue({ data: { jobId: 'job-2' } });
+    });
+
+    test('submits the same PR and iteration as the original job', async () => {
+        const result = await resubmitReview(client, job);
+        expect(mockedPost.mock.calls[0][0]).toBe('/reviews');
+        expect(mockedPost.mock.calls[0][1]).toEqual({
+            organizationUrl: 'https://dev.azure.com/org/',
+            projectId: 'proj-1',
+            repositoryId: 'repo-1',
+            pullRequestId: 42,
+            iterationId: 3,
+        });
+        expect(result.jobId).toBe('job-2');
+    });
+
+    test('keeps the base iteration of an incremental review', async () => {
+        await resubmitReview(client, { ...job, baseIterationId: 2 });
+        expect(mockedPost.mock.calls[0][1].baseIterationId).toBe(2);
+    });
+});
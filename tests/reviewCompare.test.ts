@@ -0,0 +1,70 @@
+import { compareReviews, messageSimilarity } from '../src/review/reviewCompare';
+import type { ReviewComment } from '../src/api/models';
+
+function comment(overrides: Partial<ReviewComment> = {}): ReviewComment {
+    return {
+        filePath: '/src/app.ts',
+        lineNumber: 10,
+        severity: 'warning',
+        message: 'Possible null dereference of user before access',
+        ...overrides,
+    };
+}
+
+describe('messageSimilarity', () => {
+    test('is 1 for identical messages, ignoring case and punctuation', () => {
+        expect(messageSimilarity('Missing await here.', 'missing AWAIT here')).toBe(1);
+    });
+
+    test('is 0 for unrelated messages', () => {
+        expect(messageSimilarity('Missing await', 'Unused import')).toBe(0);
+    });
+
+    test('keeps words with umlauts and ß whole', () => {
+        expect(messageSimilarity('Falsche Größe', 'Falsche Grüße')).toBeCloseTo(1 / 3);
+        expect(messageSimilarity('Größe prüfen', 'größe PRÜFEN')).toBe(1);
+    });
+});
+
+describe('compareReviews', () => {
+    test('classifies an unchanged comment as persisting', () => {
+        const { findings, counts } = compareReviews([comment()], [comment()]);
+        expect(counts).toEqual({ new: 0, resolved: 0, persisting: 1 });
+        expect(findings[0].previous).toEqual(comment());
+    });
+
+    test('matches a comment whose line moved within the tolerance', () => {
+        const { counts } = compareReviews([comment({ lineNumber: 10 })], [comment({ lineNumber: 16 })]);
+        expect(counts.persisting).toBe(1);
+    });
+
+    test('does not match comments further apart than the line tolerance', () => {
+        const { counts } = compareReviews(
+            [comment({ lineNumber: 10 })], [comment({ lineNumber: 40 })], { lineTolerance: 10 });
+        expect(counts).toEqual({ new: 1, resolved: 1, persisting: 0 });
+    });
+
+    test('does not match comments on different files', () => {
+        const { findings } = compareReviews([comment()], [comment({ filePath: '/src/other.ts' })]);
+        expect(findings.map(f => f.status)).toEqual(['new', 'resolved']);
+    });
+
+    test('does not match dissimilar messages on the same line', () => {
+        const { counts } = compareReviews([comment()], [comment({ message: 'Consider extracting this loop' })]);
+        expect(counts).toEqual({ new: 1, resolved: 1, persisting: 0 });
+    });
+
+    test('matches general comments with each other', () => {
+        const general = comment({ filePath: undefined, lineNumber: undefined, message: 'Add tests for the parser' });
+        expect(compareReviews([general], [general]).counts.persisting).toBe(1);
+    });
+
+    test('pairs each comment at most once, preferring the closest line', () => {
+        const before = [comment({ lineNumber: 10 }), comment({ lineNumber: 20 })];
+        const after = [comment({ lineNumber: 21 })];
+        const { findings } = compareReviews(before, after);
+        const persisting = findings.find(f => f.status === 'persisting')!;
+        expect(persisting.previous!.lineNumber).toBe(20);
+        expect(findings.find(f => f.status === 'resolved')!.comment.lineNumber).toBe(10);
+    });
+});
@@ -1,4 +1,4 @@
-import { buildPrGroups } from '../src/review/reviewGroups';
+import { buildPrGroups, buildFileUrl } from '../src/review/reviewGroups';
 import type { ReviewListItem } from '../src/api/models';
 
 function makeJob(overrides: Partial<ReviewListItem>): ReviewListItem {
@@ -71,6 +71,14 @@ describe('buildPrGroups', () => {
         expect(groups[0].entries[1].jobId).toBe('job-2');
     });
 
+    test('groups jobs whose organizationUrl differs only in trailing slash or case', () => {
+        const jobs = [
+            makeJob({ jobId: 'job-1', organizationUrl: 'https://dev.azure.com/myorg' }),
+            makeJob({ jobId: 'job-2', organizationUrl: 'https://dev.azure.com/MyOrg/' }),
+        ];
+        expect(buildPrGroups(jobs, repoMap)).toHaveLength(1);
+    });
+
     // (d) three different PRs → three groups, ordered by most-recent activity
     test('produces three groups ordered by most recent activity descending', () => {
         const jobs = [
@@ -138,3 +146,32 @@ describe('buildPrGroups', () => {
         expect(groups[0].entries[1].jobId).toBe('done');
     });
 });
+
+describe('buildFileUrl', () => {
+    test('links to the file at the given line in the Files view of the reviewed iteration', () => {
+        const url = new URL(buildFileUrl(makeJob({ iterationId: 3 }), 'src/auth/login.ts', 42)!);
+        expect(url.origin + url.pathname).toBe('https://dev.azure.com/myorg/proj-1/_git/repo-1/pullrequest/42');
+        expect(url.searchParams.get('_a')).toBe('files');
+        expect(url.searchParams.get('path')).toBe('/src/auth/login.ts');
+        expect(url.searchParams.get('iteration')).toBe('3');
+        expect(url.searchParams.get('base')).toBe('0');
+        expect(url.searchParams.get('line')).toBe('42');
+        expect(url.searchParams.get('lineEnd')).toBe('42');
+    });
+
+    test('uses the base iteration of an incremental review', () => {
+        const url = new URL(buildFileUrl(makeJob({ iterationId: 5, baseIterationId: 3 }), '/README.md', 1)!);
+        expect(url.searchParams.get('iteration')).toBe('5');
+        expect(url.searchParams.get('base')).toBe('3');
+        expect(url.searchParams.get('path')).toBe('/README.md');
+    });
+
+    test('omits the line selection for file-level comments', () => {
+        const url = new URL(buildFileUrl(makeJob({}), 'src/index.ts', null)!);
+        expect(url.searchParams.has('line')).toBe(false);
+    });
+
+    test('returns null when the PR URL cannot be built', () => {
+        expect(buildFileUrl(makeJob({ organizationUrl: '' }), 'src/index.ts', 1)).toBeNull();
+    });
+});
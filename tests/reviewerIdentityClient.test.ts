@@ -1,18 +1,20 @@
-import { ClientsService } from '../src/generated';
-import { getClientProfile, setReviewerIdentity } from '../src/api/reviewerIdentityClient';
+import axios from 'axios';
+import { createBackendClient } from '../src/api/backendClient';
+import { NotFoundError } from '../src/api/errors';
+import { getClientProfile, resolveIdentity, setReviewerIdentity } from '../src/api/reviewerIdentityClient';
 
-jest.mock('../src/generated/services/ClientsService');
+const mockedGet = axios.get as jest.Mock;
+const mockedPut = axios.put as jest.Mock;
 
 describe('reviewerIdentityClient', () => {
-    const backendUrl = 'http://api.test/';
-    const clientKey = 'secret';
     const clientId = 'client-123';
+    const client = createBackendClient({ backendUrl: 'http://api.test/', clientKey: 'secret', clientId });
 
     beforeEach(() => {
         jest.clearAllMocks();
     });
 
-    test('getClientProfile calls generated getClients1 and returns the result', async () => {
+    test('getClientProfile gets the client-level profile and returns the result', async () => {
         const mockProfile = {
             id: clientId,
             displayName: 'Test Client',
@@ -20,19 +22,30 @@ describe('reviewerIdentityClient', () => {
             createdAt: '2026-01-01T00:00:00Z',
             reviewerId: 'guid-456',
         };
-        (ClientsService.getClients1 as jest.Mock).mockResolvedValue(mockProfile);
+        mockedGet.mockResolvedValueOnce({ data: mockProfile });
 
-        const result = await getClientProfile(backendUrl, clientKey, clientId);
+        const result = await getClientProfile(client);
 
-        expect(ClientsService.getClients1).toHaveBeenCalledWith(clientId);
+        expect(mockedGet).toHaveBeenCalledWith(`/clients/${clientId}/profile`);
         expect(result).toEqual(mockProfile);
     });
 
-    test('setReviewerIdentity calls putClientsReviewerIdentity with correct arguments', async () => {
-        (ClientsService.putClientsReviewerIdentity as jest.Mock).mockResolvedValue(undefined);
+    test('setReviewerIdentity puts the reviewer identity with correct arguments', async () => {
+        mockedPut.mockResolvedValueOnce({ data: undefined });
 
-        await setReviewerIdentity(backendUrl, clientKey, clientId, 'guid-123');
+        await setReviewerIdentity(client, 'guid-123');
 
-        expect(ClientsService.putClientsReviewerIdentity).toHaveBeenCalledWith(clientId, { reviewerId: 'guid-123' });
+        expect(mockedPut).toHaveBeenCalledWith(`/clients/${clientId}/reviewer-identity`, { reviewerId: 'guid-123' });
+    });
+
+    test('resolveIdentity returns the first match, or null when the backend finds none', async () => {
+        mockedGet.mockResolvedValueOnce({ data: [{ id: 'vss-guid', displayName: 'Meister Bot' }] });
+        await expect(resolveIdentity(client, 'https://dev.azure.com/org/', 'Meister Bot')).resolves.toBe('vss-guid');
+        expect(mockedGet).toHaveBeenCalledWith('/identities/resolve', {
+            params: { orgUrl: 'https://dev.azure.com/org/', displayName: 'Meister Bot' },
+        });
+
+        mockedGet.mockRejectedValueOnce(new NotFoundError('No identity found', 404));
+        await expect(resolveIdentity(client, 'https://dev.azure.com/org/', 'Nobody')).resolves.toBeNull();
     });
 });
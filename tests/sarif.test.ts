@@ -0,0 +1,72 @@
+import { toSarif, SARIF_SCHEMA } from '../src/review/sarif';
+import type { ReviewStatusResponse } from '../src/api/models';
+
+function makeReview(overrides: Partial<ReviewStatusResponse> = {}): ReviewStatusResponse {
+    return {
+        jobId: 'job-1',
+        status: 'completed',
+        organizationUrl: 'https://dev.azure.com/myorg/',
+        projectId: 'proj-1',
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        iterationId: 3,
+        submittedAt: '2026-03-23T10:00:00Z',
+        completedAt: '2026-03-23T10:01:00Z',
+        result: {
+            summary: 'Summary text',
+            comments: [
+                { filePath: '/src/auth/login.ts', lineNumber: 42, severity: 'error', message: 'Unhandled rejection' },
+                { filePath: 'src/utils/date.ts', severity: 'suggestion', message: 'Use Intl' },
+                { severity: 'info', message: 'Nice tests' },
+                { filePath: 'src/x.ts', lineNumber: 7, severity: 'warning', message: 'Token logged' },
+            ],
+        },
+        ...overrides,
+    };
+}
+
+describe('toSarif', () => {
+    test('produces a SARIF 2.1.0 log with a single run', () => {
+        const log = toSarif(makeReview());
+        expect(log.version).toBe('2.1.0');
+        expect(log.$schema).toBe(SARIF_SCHEMA);
+        expect(log.runs).toHaveLength(1);
+        expect(log.runs[0].tool.driver.name).toBe('Meister ProPR');
+    });
+
+    test('maps severities to SARIF levels and rules', () => {
+        const { results, tool } = toSarif(makeReview()).runs[0];
+        expect(results.map(r => r.level)).toEqual(['error', 'note', 'none', 'warning']);
+        for (const result of results) {
+            expect(tool.driver.rules[result.ruleIndex].id).toBe(result.ruleId);
+        }
+        expect(results[0].ruleId).toBe('meister-propr/error');
+    });
+
+    test('builds physical locations from file path and line', () => {
+        const [withLine, withoutLine, general] = toSarif(makeReview()).runs[0].results;
+        expect(withLine.locations).toEqual([{
+            physicalLocation: {
+                artifactLocation: { uri: 'src/auth/login.ts', uriBaseId: '%SRCROOT%' },
+                region: { startLine: 42 },
+            },
+        }]);
+        expect(withoutLine.locations![0].physicalLocation.region).toBeUndefined();
+        expect(general.locations).toBeUndefined();
+    });
+
+    test('records job metadata and repository provenance on the run', () => {
+        const run = toSarif(makeReview({ baseIterationId: 2 })).runs[0];
+        expect(run.properties).toMatchObject({
+            jobId: 'job-1', pullRequestId: 42, iterationId: 3, baseIterationId: 2, summary: 'Summary text',
+        });
+        expect(run.versionControlProvenance).toEqual([
+            { repositoryUri: 'https://dev.azure.com/myorg/proj-1/_git/repo-1' },
+        ]);
+        expect(run.automationDetails.id).toBe('meister-propr/pr-42/job-1');
+    });
+
+    test('emits an empty result list when the review has no result', () => {
+        expect(toSarif(makeReview({ result: undefined })).runs[0].results).toEqual([]);
+    });
+});
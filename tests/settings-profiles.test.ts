@@ -0,0 +1,210 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import * as SDK from 'azure-devops-extension-sdk';
+import * as crawlConfigClientMod from '../src/api/crawlConfigClient';
+import * as extensionSettingsMod from '../src/common/extensionSettings';
+
+jest.mock('../src/api/crawlConfigClient');
+jest.mock('../src/api/reviewerIdentityClient');
+jest.mock('../src/common/extensionSettings');
+jest.mock('azure-devops-extension-sdk');
+
+const { listCrawlConfigs } = crawlConfigClientMod as jest.Mocked<typeof crawlConfigClientMod>;
+const {
+    loadProfiles, saveProfiles, loadActiveProfile, saveActiveProfileName, loadSettingLayers, loadReviewerDisplayName,
+    renameProfileReferences, clearProfileReferences,
+} =
+    extensionSettingsMod as jest.Mocked<typeof extensionSettingsMod>;
+
+const prod    = { name: 'prod',    backendUrl: 'https://prod.test',    clientKey: 'k1', clientId: 'c1' };
+const staging = { name: 'staging', backendUrl: 'https://staging.test', clientKey: 'k2', clientId: 'c2' };
+
+function setupDOM() {
+    document.body.innerHTML = `
+        <select id="profile-select"></select>
+        <button id="profile-new-btn"></button>
+        <button id="profile-delete-btn"></button>
+        <input id="profile-name">
+        <input id="backend-url">
+        <input id="client-key">
+        <input id="client-id">
+        <button id="test-connection-btn"></button>
+        <ul id="connection-results" hidden></ul>
+        <div id="crawl-hint"></div>
+        <div id="crawl-configs"></div>
+        <input id="crawl-interval">
+        <button id="crawl-add-btn"></button>
+        <div id="crawl-status"></div>
+        <input id="reviewer-search">
+        <ul id="reviewer-dropdown" hidden></ul>
+        <div id="reviewer-hint"></div>
+        <button id="save-btn"></button>
+        <div id="status-message"></div>
+        <select id="overrides-scope"><option value="project">project</option></select>
+        <div id="settings-overrides"></div>
+        <div id="overrides-status"></div>
+        <input id="admin-key">
+        <div id="ado-credentials-status"></div>
+        <input id="ado-tenant-id">
+        <input id="ado-app-id">
+        <input id="ado-secret">
+        <button id="ado-credentials-save-btn"></button>
+        <button id="ado-credentials-clear-btn"></button>
+        <div id="ado-credentials-message"></div>
+        <input type="checkbox" id="export-include-key">
+        <button id="export-btn"></button>
+        <input type="file" id="import-file">
+        <div id="import-preview"></div>
+        <button id="import-apply-btn"></button>
+        <button id="import-cancel-btn"></button>
+        <div id="transfer-status"></div>
+    `;
+}
+
+async function initSettings(profiles = [prod, staging], active: typeof prod | null = staging) {
+    setupDOM();
+    listCrawlConfigs.mockResolvedValue([]);
+    loadProfiles.mockResolvedValue(profiles);
+    loadActiveProfile.mockResolvedValue(active);
+    saveProfiles.mockResolvedValue(undefined);
+    saveActiveProfileName.mockResolvedValue(undefined);
+    loadSettingLayers.mockResolvedValue({ collection: {}, project: {}, user: {} });
+    loadReviewerDisplayName.mockResolvedValue('');
+    (SDK.getPageContext as jest.Mock).mockReturnValue({
+        webContext: { project: { id: 'project-1', name: 'Project One' } },
+    });
+    (SDK.getService as jest.Mock).mockResolvedValue({
+        getServiceLocation: async () => 'https://dev.azure.com/mock-org/',
+    });
+    jest.isolateModules(() => {
+        require('../src/settings/settings');
+    });
+    await new Promise(r => setTimeout(r, 50));
+}
+
+const input = (id: string) => document.getElementById(id) as HTMLInputElement;
+
+async function save() {
+    document.getElementById('save-btn')!.click();
+    await new Promise(r => setTimeout(r, 50));
+}
+
+describe('settings — backend profiles', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('shows the profile the project uses', async () => {
+        await initSettings();
+
+        const select = document.getElementById('profile-select') as HTMLSelectElement;
+        expect(Array.from(select.options).map(o => o.value)).toEqual(['prod', 'staging']);
+        expect(select.value).toBe('staging');
+        expect(input('profile-name').value).toBe('staging');
+        expect(input('backend-url').value).toBe('https://staging.test');
+    });
+
+    test('selecting another profile fills the form with it', async () => {
+        await initSettings();
+
+        const select = document.getElementById('profile-select') as HTMLSelectElement;
+        select.value = 'prod';
+        select.dispatchEvent(new Event('change'));
+
+        expect(input('profile-name').value).toBe('prod');
+        expect(input('client-key').value).toBe('k1');
+        expect(input('client-id').value).toBe('c1');
+    });
+
+    test('saving a new profile adds it and makes it the active one', async () => {
+        await initSettings();
+
+        document.getElementById('profile-new-btn')!.click();
+        input('profile-name').value = 'local';
+        input('backend-url').value  = 'https://localhost:5443';
+        input('client-key').value   = 'k3';
+        input('client-id').value    = 'c3';
+        await save();
+
+        expect(saveProfiles).toHaveBeenCalledWith([
+            prod, staging, { name: 'local', backendUrl: 'https://localhost:5443', clientKey: 'k3', clientId: 'c3' },
+        ]);
+        expect(saveActiveProfileName).toHaveBeenCalledWith('project-1', 'local');
+    });
+
+    test('renaming a profile replaces it in place', async () => {
+        await initSettings();
+
+        input('profile-name').value = 'stage';
+        await save();
+
+        expect(saveProfiles).toHaveBeenCalledWith([prod, { ...staging, name: 'stage' }]);
+        expect(renameProfileReferences).toHaveBeenCalledWith('staging', 'stage');
+        expect(saveActiveProfileName).not.toHaveBeenCalled();
+    });
+
+    test('saving without a rename leaves other projects alone', async () => {
+        await initSettings();
+
+        input('backend-url').value = 'https://staging2.test';
+        await save();
+
+        expect(saveProfiles).toHaveBeenCalled();
+        expect(renameProfileReferences).not.toHaveBeenCalled();
+    });
+
+    test('saving the profile the project already uses keeps it inherited', async () => {
+        await initSettings();
+
+        input('backend-url').value = 'https://staging2.test';
+        await save();
+
+        expect(saveActiveProfileName).not.toHaveBeenCalled();
+    });
+
+    test('saving another selected profile makes it the project\'s profile', async () => {
+        await initSettings();
+
+        const select = document.getElementById('profile-select') as HTMLSelectElement;
+        select.value = 'prod';
+        select.dispatchEvent(new Event('change'));
+        await save();
+
+        expect(saveActiveProfileName).toHaveBeenCalledWith('project-1', 'prod');
+    });
+
+    test('rejects a name that another profile already uses', async () => {
+        await initSettings();
+
+        input('profile-name').value = 'prod';
+        await save();
+
+        expect(saveProfiles).not.toHaveBeenCalled();
+        expect(document.getElementById('status-message')!.className).toBe('status-error');
+    });
+
+    test('the first save of a fresh installation creates the default profile', async () => {
+        await initSettings([], null);
+        expect(input('profile-name').value).toBe('default');
+
+        input('backend-url').value = 'https://prod.test';
+        await save();
+
+        expect(saveProfiles).toHaveBeenCalledWith([expect.objectContaining({ name: 'default', backendUrl: 'https://prod.test' })]);
+    });
+
+    test('deleting the active profile switches the form to the remaining one', async () => {
+        window.confirm = jest.fn(() => true);
+        await initSettings();
+        loadActiveProfile.mockResolvedValue(prod);
+
+        document.getElementById('profile-delete-btn')!.click();
+        await new Promise(r => setTimeout(r, 50));
+
+        expect(saveProfiles).toHaveBeenCalledWith([prod]);
+        expect(clearProfileReferences).toHaveBeenCalledWith('staging');
+        expect(input('profile-name').value).toBe('prod');
+    });
+});
@@ -16,23 +16,53 @@ const { listCrawlConfigs, createCrawlConfig, deleteCrawlConfig } =
     crawlConfigClientMod as jest.Mocked<typeof crawlConfigClientMod>;
 const { setReviewerIdentity, resolveIdentity } =
     reviewerIdentityClientMod as jest.Mocked<typeof reviewerIdentityClientMod>;
-const { loadSettings, saveSettings, loadReviewerDisplayName, saveReviewerDisplayName } =
+const {
+    loadProfiles, saveProfiles, loadActiveProfile, saveActiveProfileName, loadSettingLayers,
+    loadReviewerDisplayName, saveReviewerDisplayName,
+} =
     extensionSettingsMod as jest.Mocked<typeof extensionSettingsMod>;
 
 const mockSearchIdentities = jest.fn();
 
 function setupDOM(reviewerDisplayName = '', clientId = 'client-123') {
     document.body.innerHTML = `
+        <select id="profile-select"></select>
+        <button id="profile-new-btn"></button>
+        <button id="profile-delete-btn"></button>
+        <input id="profile-name">
         <input id="backend-url" value="http://api.test">
         <input id="client-key" value="test-key">
         <input id="client-id" value="${clientId}">
-        <input type="checkbox" id="crawl-enabled">
+        <button id="test-connection-btn"></button>
+        <ul id="connection-results" hidden></ul>
         <div id="crawl-hint"></div>
+        <div id="crawl-configs"></div>
+        <input id="crawl-interval">
+        <button id="crawl-add-btn"></button>
+        <div id="crawl-status"></div>
         <input id="reviewer-search" value="${reviewerDisplayName}">
         <ul id="reviewer-dropdown" hidden></ul>
         <div id="reviewer-hint"></div>
         <button id="save-btn"></button>
         <div id="status-message"></div>
+        <select id="overrides-scope"><option value="project">project</option></select>
+        <div id="settings-overrides"></div>
+        <div id="overrides-status"></div>
+        <input id="admin-key">
+        <div id="ado-credentials-status"></div>
+        <input id="ado-tenant-id">
+        <input id="ado-app-id">
+        <input id="ado-secret">
+        <button id="ado-credentials-save-btn"></button>
+        <button id="ado-credentials-clear-btn"></button>
+        <div id="ado-credentials-message"></div>
+        <input type="checkbox" id="export-include-key">
+        <button id="export-btn"></button>
+        <input type="file" id="import-file">
+        <div id="import-preview"></div>
+        <button id="import-apply-btn"></button>
+        <button id="import-cancel-btn"></button>
+        <div id="transfer-status"></div>
     `;
 }
 
@@ -43,11 +73,18 @@ function setupDefaultMocks(storedDisplayName = '') {
     mockSearchIdentities.mockResolvedValue([]);
     setReviewerIdentity.mockResolvedValue(undefined);
     (resolveIdentity as jest.Mock).mockResolvedValue('resolved-guid');
-    loadSettings.mockResolvedValue({ backendUrl: 'http://api.test', clientKey: 'test-key', clientId: 'client-123' });
-    saveSettings.mockResolvedValue(undefined);
+    const profile = { name: 'prod', backendUrl: 'http://api.test', clientKey: 'test-key', clientId: 'client-123' };
+    loadProfiles.mockResolvedValue([profile]);
+    loadActiveProfile.mockResolvedValue(profile);
+    saveProfiles.mockResolvedValue(undefined);
+    saveActiveProfileName.mockResolvedValue(undefined);
+    loadSettingLayers.mockResolvedValue({ collection: {}, project: {}, user: {} });
     loadReviewerDisplayName.mockResolvedValue(storedDisplayName);
     saveReviewerDisplayName.mockResolvedValue(undefined);
-    (SDK.getService as jest.Mock).mockResolvedValue({ searchIdentitiesAsync: mockSearchIdentities });
+    (SDK.getService as jest.Mock).mockResolvedValue({
+        searchIdentitiesAsync: mockSearchIdentities,
+        getServiceLocation: async () => 'https://dev.azure.com/mock-org/',
+    });
 }
 
 async function initSettings() {
@@ -126,10 +163,10 @@ describe('settings — reviewer identity section', () => {
         await new Promise(r => setTimeout(r, 50));
 
         expect(resolveIdentity).toHaveBeenCalledWith(
-            'http://api.test', 'test-key', expect.stringContaining('dev.azure.com'), 'Meister Bot'
+            expect.objectContaining({ settings: { backendUrl: 'http://api.test', clientKey: 'test-key', clientId: 'client-123' } }), expect.stringContaining('dev.azure.com'), 'Meister Bot'
         );
         expect(setReviewerIdentity).toHaveBeenCalledWith(
-            'http://api.test', 'test-key', 'client-123', 'vss-guid-xyz'
+            expect.objectContaining({ settings: { backendUrl: 'http://api.test', clientKey: 'test-key', clientId: 'client-123' } }), 'vss-guid-xyz'
         );
     });
 
@@ -170,7 +207,9 @@ describe('settings — reviewer identity section', () => {
     test('(e) reviewer identity search is disabled when clientId is empty', async () => {
         setupDOM('', '');
         setupDefaultMocks();
-        loadSettings.mockResolvedValue({ backendUrl: 'http://api.test', clientKey: 'test-key', clientId: '' });
+        const profile = { name: 'prod', backendUrl: 'http://api.test', clientKey: 'test-key', clientId: '' };
+        loadProfiles.mockResolvedValue([profile]);
+        loadActiveProfile.mockResolvedValue(profile);
 
         await initSettings();
 
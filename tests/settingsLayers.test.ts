@@ -0,0 +1,38 @@
+import { emptyLayers, resolveSetting, resolveSettings, withoutSetting } from '../src/common/settingsLayers';
+
+describe('resolveSetting', () => {
+    test('a higher scope overrides the lower ones', () => {
+        const layers = { collection: { groupByFile: false }, project: { groupByFile: true }, user: {} };
+        expect(resolveSetting(layers, 'groupByFile')).toEqual({ value: true, source: 'project' });
+
+        layers.user = { groupByFile: false };
+        expect(resolveSetting(layers, 'groupByFile')).toEqual({ value: false, source: 'user' });
+    });
+
+    test('resolves as seen from a given scope', () => {
+        const layers = { collection: { profile: 'prod' }, project: { profile: 'staging' }, user: {} };
+        expect(resolveSetting(layers, 'profile', 'collection')).toEqual({ value: 'prod', source: 'collection' });
+        expect(resolveSetting(layers, 'profile', 'project')).toEqual({ value: 'staging', source: 'project' });
+    });
+
+    test('ignores values set by a scope that may not set them', () => {
+        const layers = { collection: { profile: 'prod' }, project: {}, user: { profile: 'local', clientId: 'mine' } };
+        expect(resolveSetting(layers, 'profile')).toEqual({ value: 'prod', source: 'collection' });
+        expect(resolveSetting(layers, 'clientId')).toEqual({ value: '', source: null });
+    });
+
+    test('falls back to the built-in default', () => {
+        expect(resolveSettings(emptyLayers())).toEqual({
+            profile:     { value: '', source: null },
+            clientId:    { value: '', source: null },
+            clientKey:   { value: '', source: null },
+            groupByFile: { value: false, source: null },
+        });
+    });
+});
+
+test('withoutSetting removes only the given key', () => {
+    const layer = { profile: 'staging', clientId: 'c9' };
+    expect(withoutSetting(layer, 'profile')).toEqual({ clientId: 'c9' });
+    expect(layer).toEqual({ profile: 'staging', clientId: 'c9' });
+});
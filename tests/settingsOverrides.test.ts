@@ -0,0 +1,112 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import * as extensionSettingsMod from '../src/common/extensionSettings';
+import { initSettingsOverrides } from '../src/settings/settingsOverrides';
+
+jest.mock('../src/common/extensionSettings');
+
+const { loadSettingLayers, saveSettingLayer } = extensionSettingsMod as jest.Mocked<typeof extensionSettingsMod>;
+
+const profiles = [
+    { name: 'prod',    backendUrl: 'https://prod.test',    clientKey: 'k1', clientId: 'c1' },
+    { name: 'staging', backendUrl: 'https://staging.test', clientKey: 'k2', clientId: 'c2' },
+];
+
+async function setup(layers: object, scope = 'project') {
+    document.body.innerHTML = `
+        <select id="scope">
+            <option value="collection">collection</option>
+            <option value="project">project</option>
+            <option value="user">user</option>
+        </select>
+        <div id="overrides"></div>
+    `;
+    loadSettingLayers.mockResolvedValue({ collection: {}, project: {}, user: {}, ...layers });
+    saveSettingLayer.mockResolvedValue(undefined);
+    const scopeSelect = document.getElementById('scope') as HTMLSelectElement;
+    scopeSelect.value = scope;
+    const onSaved = jest.fn();
+    await initSettingsOverrides(document.getElementById('overrides')!, scopeSelect, {
+        projectId: 'project-1', profiles: () => profiles, onSaved,
+    });
+    return { scopeSelect, onSaved };
+}
+
+const row = (key: string) => document.querySelector<HTMLElement>(`[data-setting="${key}"]`)!;
+const source = (key: string) => row(key).querySelector('.override-source')!.textContent;
+const flush = () => new Promise(r => setTimeout(r, 0));
+
+describe('settings overrides', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    test('shows the effective value and where it comes from', async () => {
+        await setup({ collection: { profile: 'staging', groupByFile: true } });
+
+        expect((row('profile').querySelector('select') as HTMLSelectElement).value).toBe('staging');
+        expect(source('profile')).toBe('Inherited from: Collection defaults.');
+        expect(source('clientId')).toBe('From the profile “staging”.');
+        expect((row('groupByFile').querySelector('input') as HTMLInputElement).checked).toBe(true);
+        expect(row('profile').querySelector('.override-reset')).toBeNull();
+    });
+
+    test('a change is saved to the edited scope only', async () => {
+        const { onSaved } = await setup({ project: { clientKey: 'key-b' } });
+
+        const clientId = row('clientId').querySelector('input')!;
+        clientId.value = ' billing-b ';
+        clientId.dispatchEvent(new Event('change'));
+        await flush();
+
+        expect(saveSettingLayer).toHaveBeenCalledWith('project', 'project-1', { clientKey: 'key-b', clientId: 'billing-b' });
+        expect(onSaved).toHaveBeenCalledWith(null);
+        expect(source('clientId')).toBe('Set here.');
+    });
+
+    test('reset to inherited removes the override', async () => {
+        await setup({ collection: { profile: 'prod' }, project: { profile: 'staging' } });
+        expect(source('profile')).toBe('Set here.');
+
+        row('profile').querySelector<HTMLButtonElement>('.override-reset')!.click();
+        await flush();
+
+        expect(saveSettingLayer).toHaveBeenCalledWith('project', 'project-1', {});
+        expect((row('profile').querySelector('select') as HTMLSelectElement).value).toBe('prod');
+        expect(source('profile')).toBe('Inherited from: Collection defaults.');
+    });
+
+    test('users may only set preferences', async () => {
+        await setup({ project: { groupByFile: true } }, 'user');
+
+        expect((row('profile').querySelector('select') as HTMLSelectElement).disabled).toBe(true);
+        expect(source('clientId')).toBe('Cannot be set at this level.');
+        expect((row('groupByFile').querySelector('input') as HTMLInputElement).disabled).toBe(false);
+        expect(source('groupByFile')).toBe('Inherited from: This project.');
+    });
+
+    test('switching the edited scope re-renders the rows', async () => {
+        const { scopeSelect } = await setup({ project: { profile: 'staging' } });
+
+        scopeSelect.value = 'collection';
+        scopeSelect.dispatchEvent(new Event('change'));
+
+        expect((row('profile').querySelector('select') as HTMLSelectElement).value).toBe('');
+        expect(source('profile')).toBe('Default.');
+    });
+
+    test('reports a failed save', async () => {
+        const { onSaved } = await setup({});
+        saveSettingLayer.mockRejectedValueOnce(new Error('forbidden'));
+
+        const checkbox = row('groupByFile').querySelector('input')!;
+        checkbox.checked = true;
+        checkbox.dispatchEvent(new Event('change'));
+        await flush();
+
+        expect(onSaved).toHaveBeenCalledWith('forbidden');
+        expect(source('groupByFile')).toBe('Default.');
+    });
+});
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createVirtualJobsList, VirtualJobsList } from '../src/review/virtualJobsList';
+import type { ReviewListItem } from '../src/api/models';
+
+function makeJobs(count: number): ReviewListItem[] {
+    return Array.from({ length: count }, (_, i) => ({
+        jobId: `job-${i}`,
+        status: 'completed' as const,
+        organizationUrl: 'https://dev.azure.com/myorg',
+        projectId: 'proj-1',
+        repositoryId: 'repo-1',
+        pullRequestId: i + 1,
+        iterationId: 1,
+        submittedAt: '2026-03-23T10:00:00Z',
+        // Newest first, so PR 1 is the first group
+        completedAt: new Date(Date.UTC(2026, 2, 23, 10, 0, 0) - i * 60_000).toISOString(),
+    }));
+}
+
+/** jsdom has no layout: give the container a viewport size. */
+function withViewport(container: HTMLElement, height: number, scrollHeight = 100_000): void {
+    Object.defineProperty(container, 'clientHeight', { configurable: true, get: () => height });
+    Object.defineProperty(container, 'scrollHeight', { configurable: true, get: () => scrollHeight });
+}
+
+describe('createVirtualJobsList', () => {
+    const repoMap = new Map([['repo-1', 'my-repo']]);
+    let container: HTMLDivElement;
+    let list: VirtualJobsList;
+
+    beforeEach(() => {
+        container = document.createElement('div');
+    });
+
+    afterEach(() => list.destroy());
+
+    test('renders every group when the container has no layout', () => {
+        list = createVirtualJobsList(container, repoMap, new Set(), jest.fn());
+        list.update(makeJobs(30));
+        expect(container.querySelectorAll('.pr-group')).toHaveLength(30);
+    });
+
+    test('renders only the groups near the viewport, with spacers for the rest', () => {
+        withViewport(container, 500);
+        list = createVirtualJobsList(container, repoMap, new Set(), jest.fn());
+        list.update(makeJobs(200));
+
+        const rendered = container.querySelectorAll('.pr-group');
+        expect(rendered.length).toBeGreaterThan(0);
+        expect(rendered.length).toBeLessThan(200);
+        expect(rendered[0].querySelector('.pr-group-header')!.textContent).toContain('#1');
+
+        const spacers = container.querySelectorAll<HTMLElement>('.jobs-spacer');
+        expect(spacers).toHaveLength(2);
+        expect(spacers[0].style.height).toBe('0px');
+        expect(parseInt(spacers[1].style.height, 10)).toBeGreaterThan(0);
+    });
+
+    test('shows the empty state when the filter leaves nothing', () => {
+        list = createVirtualJobsList(container, repoMap, new Set(), jest.fn());
+        list.update([], 12);
+        expect(container.querySelector('.jobs-empty')!.textContent).toBe('No PRs match the filter.');
+    });
+
+    test('asks for more jobs when the end of the list is in view', () => {
+        withViewport(container, 500, 700);
+        const onNearEnd = jest.fn();
+        list = createVirtualJobsList(container, repoMap, new Set(), onNearEnd);
+        list.update(makeJobs(3));
+        expect(onNearEnd).toHaveBeenCalled();
+    });
+
+    test('does not ask for more jobs while far from the end', () => {
+        withViewport(container, 500);
+        const onNearEnd = jest.fn();
+        list = createVirtualJobsList(container, repoMap, new Set(), onNearEnd);
+        list.update(makeJobs(200));
+        expect(onNearEnd).not.toHaveBeenCalled();
+    });
+});
@@ -13,6 +13,9 @@ module.exports = {
     entry: {
         settings: './src/settings/settings.ts',
         review:   './src/review/review.ts',
+        prTab:    './src/review/prTab.ts',
+        prAction: './src/review/prAction.ts',
+        admin:    './src/admin/admin.ts',
     },
     output: {
         filename: '[name].js',